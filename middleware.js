@@ -1,10 +1,14 @@
 // node_modules
 import { NextResponse } from "next/server";
+// lib
+import { logJson, REQUEST_ID_HEADER, requestIdFor } from "@/lib/request-log";
 
 /**
  * Middleware for logging all requests from the NextJS server to the log. We use this for IGVF-851
  * and we'll see if we should remove this after solving the issue or if we should keep this for
- * future debugging.
+ * future debugging. Each request gets an ID passed to the page in the `X-Request-Id` request
+ * header, so that FetchRequest can pass it on to the data provider and include it in its logs.
+ * The response carries the same header so you can find the ID of a slow page in the browser.
  * https://nextjs.org/docs/pages/building-your-application/routing/middleware
  */
 export function middleware(req) {
@@ -14,12 +18,21 @@ export function middleware(req) {
     nextUrl: { pathname, search },
   } = req;
 
+  const requestId = requestIdFor(headers.get(REQUEST_ID_HEADER));
   const ip = headers.get("x-forwarded-for") || headers.get("host") || "";
-  const date = new Date().toISOString();
-
-  console.log(`NJSREQ [${date}] ${ip} ${method} ${pathname}${search}`);
+  logJson({
+    event: "page",
+    requestId,
+    ip,
+    method,
+    path: `${pathname}${search}`,
+  });
 
-  return NextResponse.next();
+  const requestHeaders = new Headers(headers);
+  requestHeaders.set(REQUEST_ID_HEADER, requestId);
+  const response = NextResponse.next({ request: { headers: requestHeaders } });
+  response.headers.set(REQUEST_ID_HEADER, requestId);
+  return response;
 }
 
 /**
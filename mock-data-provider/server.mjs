@@ -0,0 +1,640 @@
+/**
+ * Local stand-in for igvfd, so you can run the UI without a live data provider. It serves fixture
+ * JSON files from the `fixtures` directory next to this file, and has two modes:
+ *
+ * Replay mode (default) serves the fixtures and never touches the network:
+ *
+ *   node mock-data-provider/server.mjs
+ *
+ * Record mode forwards each request to a real igvfd and saves each GET response as a fixture, so
+ * that replay mode can serve it later. It saves only what anyone can see: it skips the user's
+ * session, the user's `/users/` object, and the search stores, and saves what igvfd returns
+ * without the user's credentials:
+ *
+ *   node mock-data-provider/server.mjs --record https://api.data.igvf.org
+ *
+ * Point the UI at this server by setting `NEXT_PUBLIC_BACKEND_URL` and
+ * `NEXT_PUBLIC_PUBLIC_BACKEND_URL` to `http://localhost:8000` (or the `--port` you choose).
+ *
+ * Fixtures live at the request path, e.g. `fixtures/samples/IGVFSM0000AAAA/index.json` for
+ * `/samples/IGVFSM0000AAAA/`. Requests with a query string get their own fixture named after a
+ * hash of the sorted query string, e.g. `fixtures/search/query-1a2b3c4d5e6f.json`. Each fixture
+ * holds the response status and body, plus the request it answers to make it easy to find.
+ *
+ * In replay mode, `/search/` requests without a recorded fixture get answered from the object
+ * fixtures, filtering by the `@id=` and `type=` query-string elements and returning only the
+ * `field=` properties -- the form of the requests `getMultipleObjectsBulk` sends. Object requests
+ * with a query string (e.g. `?frame=object`) fall back to the object's fixture without one.
+ *
+ * Replay mode also stands in for igvfd's stores of the signed-in user's saved and recent searches
+ * at `/saved-searches/` and `/recent-searches/`. It keeps them in memory until the server stops,
+ * shared by all users.
+ */
+
+// node_modules
+import { createHash } from "node:crypto";
+import { createServer } from "node:http";
+import { mkdir, readdir, readFile, writeFile } from "node:fs/promises";
+import { dirname, join, resolve, sep } from "node:path";
+import { fileURLToPath } from "node:url";
+
+/**
+ * Default port; the same as igvfd's so the UI's usual local settings work.
+ */
+const DEFAULT_PORT = 8000;
+
+/**
+ * Default directory of the fixture files.
+ */
+const DEFAULT_FIXTURES_DIR = join(
+  dirname(fileURLToPath(import.meta.url)),
+  "fixtures"
+);
+
+/**
+ * Name of the fixture file for requests without a query string.
+ */
+const INDEX_FIXTURE = "index.json";
+
+/**
+ * Paths of the stores of the signed-in user's saved and recent searches.
+ */
+const SEARCH_STORE_PATHS = ["/saved-searches/", "/recent-searches/"];
+
+/**
+ * Searches in each search store, keyed by the store's path.
+ */
+const searchStores = new Map();
+
+/**
+ * Request headers to forward to igvfd in record mode.
+ */
+const FORWARDED_HEADERS = [
+  "accept",
+  "authorization",
+  "content-type",
+  "cookie",
+  "x-csrf-token",
+  "x-request-id",
+];
+
+/**
+ * Request headers that carry the user's credentials.
+ */
+const CREDENTIAL_HEADERS = ["authorization", "cookie"];
+
+/**
+ * Paths of the signed-in user's session, besides the search stores and `/users/` objects. Record
+ * mode doesn't save them, so their fixtures keep the mock user.
+ */
+const PRIVATE_PATHS = ["/session", "/session-properties", "/login", "/logout"];
+
+/**
+ * Parse the command-line arguments.
+ * @param {string[]} args Command-line arguments after the script name
+ * @returns {{port: number, fixturesDir: string, recordUrl: string}} Server options
+ */
+function parseArgs(args) {
+  const options = {
+    port: DEFAULT_PORT,
+    fixturesDir: DEFAULT_FIXTURES_DIR,
+    recordUrl: "",
+  };
+  for (let i = 0; i < args.length; i += 1) {
+    const value = args[i + 1];
+    if (args[i] === "--port" && value) {
+      options.port = Number(value);
+      i += 1;
+    } else if (args[i] === "--fixtures" && value) {
+      options.fixturesDir = resolve(value);
+      i += 1;
+    } else if (args[i] === "--record" && value) {
+      options.recordUrl = value.replace(/\/$/, "");
+      i += 1;
+    } else {
+      throw new Error(`Unknown argument ${args[i]}`);
+    }
+  }
+  return options;
+}
+
+/**
+ * Get the fixture file path for the given request path and query string. Paths that would escape
+ * the fixtures directory get rejected.
+ * @param {string} fixturesDir Directory holding the fixtures
+ * @param {string} pathname Path part of the request URL
+ * @param {URLSearchParams} searchParams Query-string elements of the request
+ * @returns {string|null} Path of the fixture file; null for paths outside the fixtures directory
+ */
+function fixturePath(fixturesDir, pathname, searchParams) {
+  const directory = resolve(fixturesDir, `.${decodeURIComponent(pathname)}`);
+  if (
+    directory !== fixturesDir &&
+    !directory.startsWith(`${fixturesDir}${sep}`)
+  ) {
+    return null;
+  }
+
+  const query = normalizedQuery(searchParams);
+  if (!query) {
+    return join(directory, INDEX_FIXTURE);
+  }
+  const hash = createHash("sha1").update(query).digest("hex").slice(0, 12);
+  return join(directory, `query-${hash}.json`);
+}
+
+/**
+ * Sort the query-string elements so that the same query with its elements in a different order
+ * maps to the same fixture.
+ * @param {URLSearchParams} searchParams Query-string elements of the request
+ * @returns {string} Sorted query string without the leading "?"
+ */
+function normalizedQuery(searchParams) {
+  const sorted = new URLSearchParams(searchParams);
+  sorted.sort();
+  return sorted.toString();
+}
+
+/**
+ * Read a fixture file.
+ * @param {string|null} path Path of the fixture file
+ * @returns {Promise<{status: number, body: unknown}|null>} Fixture contents; null if none exists
+ */
+async function readFixture(path) {
+  if (!path) {
+    return null;
+  }
+  try {
+    return JSON.parse(await readFile(path, "utf8"));
+  } catch (error) {
+    if (error.code === "ENOENT" || error.code === "ENOTDIR") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Read every object fixture -- the fixtures for requests without a query string whose bodies have
+ * an `@id` -- sorted by `@id` so that paged searches stay consistent.
+ * @param {string} fixturesDir Directory holding the fixtures
+ * @returns {Promise<object[]>} Bodies of all object fixtures
+ */
+async function readObjectFixtures(fixturesDir) {
+  const files = await readdir(fixturesDir, { recursive: true });
+  const fixtures = await Promise.all(
+    files
+      .filter((file) => file.endsWith(`${sep}${INDEX_FIXTURE}`))
+      .map((file) => readFixture(join(fixturesDir, file)))
+  );
+  return fixtures
+    .filter((fixture) => fixture?.status === 200 && fixture.body?.["@id"])
+    .map((fixture) => fixture.body)
+    .sort((a, b) => a["@id"].localeCompare(b["@id"]));
+}
+
+/**
+ * Build an error body in the same form igvfd uses.
+ * @param {number} code HTTP status code
+ * @param {string} title Short description of the error
+ * @param {string} detail Details of the error
+ * @returns {object} Error body
+ */
+function errorBody(code, title, detail) {
+  return {
+    "@type": [title.replace(/\s/g, ""), "Error"],
+    code,
+    description: title,
+    detail,
+    status: "error",
+    title,
+  };
+}
+
+/**
+ * Keep only the requested fields of an object, along with the properties every search result has.
+ * Embedded fields (e.g. `lab.title`) keep the whole top-level property.
+ * @param {object} object Object to trim
+ * @param {string[]} fields Fields requested with `field=`; empty for all fields
+ * @returns {object} Trimmed object
+ */
+function pickFields(object, fields) {
+  if (fields.length === 0) {
+    return object;
+  }
+  const topLevelFields = new Set([
+    "@id",
+    "@type",
+    ...fields.map((field) => field.split(".")[0]),
+  ]);
+  return Object.fromEntries(
+    Object.entries(object).filter(([key]) => topLevelFields.has(key))
+  );
+}
+
+/**
+ * Fields of the facets that synthesized search results include, with their titles.
+ */
+const MOCK_FACETS = [
+  { field: "type", title: "Object Type" },
+  { field: "status", title: "Status" },
+  { field: "lab.title", title: "Lab" },
+  { field: "sample_terms.term_name", title: "Sample Terms" },
+];
+
+/**
+ * Get the values of a possibly dotted property of an object, following embedded objects and
+ * arrays, e.g. `lab.title` or `sample_terms.term_name`.
+ * @param {object} object Object to get the property values of
+ * @param {string} property Property to get, with dots separating embedded properties
+ * @returns {string[]} All values of the property as strings; empty if the object has none
+ */
+function propertyValues(object, property) {
+  return property
+    .split(".")
+    .reduce(
+      (values, key) =>
+        values.flatMap((value) =>
+          value && typeof value === "object" ? [value[key]].flat() : []
+        ),
+      [object]
+    )
+    .filter((value) => value !== undefined && value !== null)
+    .map(String);
+}
+
+/**
+ * Sort objects the way igvfd sorts searches with a `sort=` parameter: `sort=property` sorts in
+ * ascending order and `sort=-property` in descending order.
+ * @param {object[]} objects Objects matching the search, sorted by `@id`
+ * @param {string | null} sort Value of the `sort=` query-string parameter, if any
+ * @returns {{objects: object[], sort: object}} Sorted objects and the search results' `sort`
+ */
+function sortObjects(objects, sort) {
+  if (!sort) {
+    return { objects, sort: {} };
+  }
+  const isDescending = sort.startsWith("-");
+  const property = isDescending ? sort.slice(1) : sort;
+  const sorted = [...objects].sort((a, b) => {
+    const order = (propertyValues(a, property)[0] || "").localeCompare(
+      propertyValues(b, property)[0] || ""
+    );
+    return isDescending ? -order : order;
+  });
+  return {
+    objects: sorted,
+    sort: {
+      [property]: {
+        order: isDescending ? "desc" : "asc",
+        unmapped_type: "keyword",
+      },
+    },
+  };
+}
+
+/**
+ * Build facets counting the values of `MOCK_FACETS` fields among the given objects.
+ * @param {object[]} objects Objects matching the search
+ * @returns {object[]} Facets in igvfd's form
+ */
+function buildFacets(objects) {
+  return MOCK_FACETS.map(({ field, title }) => {
+    const counts = new Map();
+    objects.forEach((object) => {
+      // Like igvfd, the `type` facet counts every `@type` of each object.
+      const values =
+        field === "type"
+          ? object["@type"] || []
+          : propertyValues(object, field);
+      new Set(values).forEach((value) => {
+        counts.set(value, (counts.get(value) || 0) + 1);
+      });
+    });
+    return {
+      field,
+      title,
+      terms: [...counts.entries()]
+        .sort(([, a], [, b]) => b - a)
+        .map(([key, doc_count]) => ({ key, doc_count })),
+      total: objects.length,
+      type: "terms",
+    };
+  });
+}
+
+/**
+ * Answer a search from the object fixtures. Supports the `@id=`, `type=`, `field=`, `from=`, and
+ * `limit=` query-string elements, as well as `property=value` and `property!=value` filters on
+ * embedded properties, with `*` matching any value. `query=` matches objects with the text
+ * anywhere in their JSON, ignoring case. `advancedQuery=` gets ignored, so searches with one match
+ * the objects the rest of the query selects. Includes facets for a few common fields and the
+ * filters of the query. Like igvfd, return a 404 if nothing matches.
+ * @param {string} fixturesDir Directory holding the fixtures
+ * @param {URL} url URL of the search request
+ * @returns {Promise<{status: number, body: object}>} Search results fixture
+ */
+async function searchObjectFixtures(fixturesDir, url) {
+  const { searchParams } = url;
+  const ids = searchParams.getAll("@id");
+  const types = searchParams.getAll("type");
+  const fields = searchParams.getAll("field");
+  const from = Number(searchParams.get("from")) || 0;
+  const limit = searchParams.get("limit");
+  const text = (searchParams.get("query") || "").toLowerCase();
+  const ignoredKeys = [
+    "@id",
+    "type",
+    "field",
+    "from",
+    "limit",
+    "query",
+    "advancedQuery",
+    "sort",
+    "format",
+    "frame",
+    "datastore",
+  ];
+  const filters = [...searchParams.entries()].filter(
+    ([key]) => !ignoredKeys.includes(key)
+  );
+
+  const matches = (await readObjectFixtures(fixturesDir)).filter(
+    (object) =>
+      (ids.length === 0 || ids.includes(object["@id"])) &&
+      (types.length === 0 ||
+        types.some((type) => object["@type"]?.includes(type))) &&
+      (!text || JSON.stringify(object).toLowerCase().includes(text)) &&
+      filters.every(([key, value]) => {
+        const property = key.endsWith("!") ? key.slice(0, -1) : key;
+        const values = propertyValues(object, property);
+        const isMatch =
+          value === "*" ? values.length > 0 : values.includes(value);
+        return key.endsWith("!") ? !isMatch : isMatch;
+      })
+  );
+
+  const { objects, sort } = sortObjects(matches, searchParams.get("sort"));
+
+  const end = limit === "all" ? undefined : from + (Number(limit) || 25);
+  const graph = objects
+    .slice(from, end)
+    .map((object) => pickFields(object, fields));
+  return {
+    status: objects.length > 0 ? 200 : 404,
+    body: {
+      "@context": "/terms/",
+      "@graph": graph,
+      "@id": `${url.pathname}${url.search}`,
+      "@type": ["Search"],
+      clear_filters: `/search/?${types.map((type) => `type=${type}`).join("&")}`,
+      columns: {},
+      facets: buildFacets(objects),
+      filters: [...searchParams.entries()]
+        .filter(([key]) => key === "type" || !ignoredKeys.includes(key))
+        .map(([field, term], index) => {
+          const remaining = new URLSearchParams(
+            [...searchParams.entries()].filter((_, i) => i !== index)
+          );
+          return { field, term, remove: `/search/?${remaining}` };
+        }),
+      notification: objects.length > 0 ? "Success" : "No results found",
+      sort,
+      title: "Search",
+      total: objects.length,
+    },
+  };
+}
+
+/**
+ * Answer a request to one of the search stores in replay mode. PUT requests replace the searches
+ * in the store, and every request responds with the searches the store holds.
+ * @param {string} method HTTP method of the request
+ * @param {string} pathname Path of the search store
+ * @param {Buffer} body Body of the request
+ * @returns {{status: number, body: unknown}} Response with the searches in the store
+ */
+function searchStore(method, pathname, body) {
+  if (method === "PUT") {
+    const store = JSON.parse(body.toString() || "{}");
+    searchStores.set(pathname, store["@graph"] || []);
+  }
+  return {
+    status: 200,
+    body: { "@id": pathname, "@graph": searchStores.get(pathname) || [] },
+  };
+}
+
+/**
+ * Find the fixture answering the given request in replay mode.
+ * @param {string} fixturesDir Directory holding the fixtures
+ * @param {URL} url URL of the request
+ * @returns {Promise<{status: number, body: unknown}>} Fixture to respond with
+ */
+async function replay(fixturesDir, url) {
+  const recorded = await readFixture(
+    fixturePath(fixturesDir, url.pathname, url.searchParams)
+  );
+  if (recorded) {
+    return recorded;
+  }
+
+  if (url.pathname === "/search/") {
+    return searchObjectFixtures(fixturesDir, url);
+  }
+
+  if (url.search) {
+    const withoutQuery = await readFixture(
+      fixturePath(fixturesDir, url.pathname, new URLSearchParams())
+    );
+    if (withoutQuery) {
+      return withoutQuery;
+    }
+  }
+
+  return {
+    status: 404,
+    body: errorBody(
+      404,
+      "Not Found",
+      `No fixture for ${url.pathname}${url.search}`
+    ),
+  };
+}
+
+/**
+ * Check whether a request path belongs to the signed-in user, so that record mode never saves its
+ * response in a fixture.
+ * @param {string} pathname Path part of the request URL
+ * @returns {boolean} True if the path holds the user's session or the user's own data
+ */
+function isPrivatePath(pathname) {
+  return (
+    PRIVATE_PATHS.includes(pathname) ||
+    SEARCH_STORE_PATHS.includes(pathname) ||
+    pathname.startsWith("/users/")
+  );
+}
+
+/**
+ * Send a request to igvfd and read its response.
+ * @param {string} recordUrl Base URL of the igvfd to record from
+ * @param {URL} url URL of the request
+ * @param {string} method HTTP method of the request
+ * @param {Record<string, string>} headers Headers to send to igvfd
+ * @param {Buffer} body Body of the request
+ * @returns {Promise<{status: number, body: unknown, setCookie: string[]}>} igvfd's response
+ */
+async function requestIgvfd(recordUrl, url, method, headers, body) {
+  const response = await fetch(`${recordUrl}${url.pathname}${url.search}`, {
+    method,
+    headers,
+    body: ["GET", "HEAD"].includes(method) ? undefined : body,
+    redirect: "follow",
+  });
+  const text = await response.text();
+  let responseBody;
+  try {
+    responseBody = JSON.parse(text);
+  } catch {
+    responseBody = text;
+  }
+  return {
+    status: response.status,
+    body: responseBody,
+    setCookie: response.headers.getSetCookie(),
+  };
+}
+
+/**
+ * Forward the given request to igvfd, and save the response as a fixture if it's a GET request.
+ * Fixtures only hold what anyone can see: requests for the user's session and the user's own data
+ * don't get saved, and requests sent with the user's credentials get saved from a second request
+ * without them, so private objects never end up in a fixture.
+ * @param {string} fixturesDir Directory holding the fixtures
+ * @param {string} recordUrl Base URL of the igvfd to record from
+ * @param {import("node:http").IncomingMessage} req Request to forward
+ * @param {URL} url URL of the request
+ * @param {Buffer} body Body of the request
+ * @returns {Promise<{status: number, body: unknown, setCookie: string[]}>} igvfd's response
+ */
+async function record(fixturesDir, recordUrl, req, url, body) {
+  const headers = Object.fromEntries(
+    FORWARDED_HEADERS.filter((name) => req.headers[name]).map((name) => [
+      name,
+      req.headers[name],
+    ])
+  );
+  // Pass igvfd's session cookies to the browser so that logging in works while recording, but
+  // never save them in fixtures.
+  const response = await requestIgvfd(
+    recordUrl,
+    url,
+    req.method,
+    headers,
+    body
+  );
+
+  const path = fixturePath(fixturesDir, url.pathname, url.searchParams);
+  if (req.method === "GET" && path && !isPrivatePath(url.pathname)) {
+    const hasCredentials = CREDENTIAL_HEADERS.some((name) => headers[name]);
+    const { status, body: fixtureBody } = hasCredentials
+      ? await requestIgvfd(
+          recordUrl,
+          url,
+          req.method,
+          Object.fromEntries(
+            Object.entries(headers).filter(
+              ([name]) => !CREDENTIAL_HEADERS.includes(name)
+            )
+          ),
+          body
+        )
+      : response;
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(
+      path,
+      `${JSON.stringify({ request: `${url.pathname}${url.search}`, status, body: fixtureBody }, null, 2)}\n`
+    );
+  }
+  return response;
+}
+
+/**
+ * Read the whole body of an incoming request.
+ * @param {import("node:http").IncomingMessage} req Incoming request
+ * @returns {Promise<Buffer>} Body of the request
+ */
+async function readBody(req) {
+  const chunks = [];
+  for await (const chunk of req) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Start the mock data provider.
+ */
+async function main() {
+  const { port, fixturesDir, recordUrl } = parseArgs(process.argv.slice(2));
+
+  const server = createServer(async (req, res) => {
+    // The browser sends requests with credentials directly to the data provider, so allow them
+    // from any origin.
+    res.setHeader("Access-Control-Allow-Origin", req.headers.origin || "*");
+    res.setHeader("Access-Control-Allow-Credentials", "true");
+    res.setHeader(
+      "Access-Control-Allow-Headers",
+      req.headers["access-control-request-headers"] || "*"
+    );
+    res.setHeader(
+      "Access-Control-Allow-Methods",
+      "GET, POST, PUT, PATCH, DELETE"
+    );
+    if (req.method === "OPTIONS") {
+      res.writeHead(204).end();
+      return;
+    }
+
+    const url = new URL(req.url, `http://localhost:${port}`);
+    let fixture;
+    try {
+      const body = await readBody(req);
+      if (recordUrl) {
+        fixture = await record(fixturesDir, recordUrl, req, url, body);
+      } else if (SEARCH_STORE_PATHS.includes(url.pathname)) {
+        fixture = searchStore(req.method, url.pathname, body);
+      } else {
+        fixture = await replay(fixturesDir, url);
+      }
+    } catch (error) {
+      fixture = {
+        status: 502,
+        body: errorBody(502, "Bad Gateway", String(error.message || error)),
+      };
+    }
+
+    const isJson = typeof fixture.body !== "string";
+    if (fixture.setCookie?.length > 0) {
+      res.setHeader("Set-Cookie", fixture.setCookie);
+    }
+    res.writeHead(fixture.status, {
+      "Content-Type": isJson ? "application/json" : "text/plain",
+    });
+    res.end(isJson ? JSON.stringify(fixture.body) : fixture.body);
+    console.log(
+      `${recordUrl ? "RECORD" : "REPLAY"} ${req.method} ${url.pathname}${url.search} ${fixture.status}`
+    );
+  });
+
+  server.listen(port, () => {
+    console.log(
+      recordUrl
+        ? `Recording ${recordUrl} into ${fixturesDir} on port ${port}`
+        : `Replaying ${fixturesDir} on port ${port}`
+    );
+  });
+}
+
+main();
@@ -18,6 +18,7 @@ const nextConfig = {
   },
   serverRuntimeConfig: {
     BACKEND_URL: process.env.NEXT_PUBLIC_BACKEND_URL || "",
+    REVALIDATE_SECRET: process.env.REVALIDATE_SECRET || "",
   },
   publicRuntimeConfig: {
     SERVER_URL: process.env.NEXT_PUBLIC_SERVER_URL || "",
@@ -1,5 +1,6 @@
 // lib
 import { FetchRequest } from "@/lib/fetch-request";
+import { getRequestId } from "@/lib/request-id";
 // types
 import type { ErrorObject } from "@/lib/fetch-request";
 
@@ -45,7 +46,7 @@ export async function GET() {
     });
   }
 
-  const request = new FetchRequest();
+  const request = new FetchRequest({ requestId: getRequestId() });
   const response = (await request.getObject(`/indexer-info`)).union();
   if (response.isError) {
     throw new Error((response as ErrorObject).description);
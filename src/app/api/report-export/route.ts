@@ -0,0 +1,117 @@
+// lib
+import { BACKEND_URL } from "@/lib/constants";
+import { buildCookieString } from "@/lib/cookie";
+import { FetchRequest } from "@/lib/fetch-request";
+import { getProfiles } from "@/lib/profiles";
+import { QueryString } from "@/lib/query-string";
+import { getReportColumns, reportCellValue } from "@/lib/report";
+import {
+  exportContentType,
+  exportErrorRow,
+  exportFilename,
+  exportFormat,
+  exportQuery,
+  exportRow,
+} from "@/lib/report-export";
+import { getRequestId } from "@/lib/request-id";
+import { getSearchResults } from "@/lib/search";
+// root
+import type { Profiles, SearchResultsObject } from "@/globals.d";
+
+/**
+ * Export every item matching a report query as tab- or comma-separated text, with one row per item
+ * and one column per report column. This takes the same query string as /multireport, so the
+ * export has the same filters, sorting, and `field=` columns as the report, but includes all
+ * matching items instead of one page. `format=csv` exports comma-separated text; otherwise the
+ * export uses tabs. Embedded properties like `lab.title` get flattened to text the same way the
+ * report displays them. The requests to the data provider carry the user's cookie, so exports
+ * include the unreleased items the user has permission to see. Reports with more items than the
+ * data provider can page through get exported in UUID order instead of their sort order. If the
+ * data provider fails partway through the export, the export ends with a line that marks it as
+ * incomplete.
+ *
+ * ```
+ * curl "http://localhost:3000/api/report-export/?type=InVitroSystem&field=lab.title&format=csv"
+ * ```
+ * @param {Request} request GET request with the report query string
+ * @returns {Response} Streamed export, or the data provider's error as JSON
+ */
+export async function GET(request: Request) {
+  const { searchParams, search } = new URL(request.url);
+  const format = exportFormat(searchParams.get("format"));
+  const query = exportQuery(search.slice(1));
+  const queryString = new QueryString(query);
+  const types = queryString.getKeyValues("type");
+
+  // Request the first page of results to get the columns the data provider has for this search,
+  // and to report errors before starting the export.
+  const fetchRequest = new FetchRequest({
+    cookie: buildCookieString(),
+    requestId: getRequestId(),
+  });
+  const [response, profiles] = await Promise.all([
+    getSearchResults(fetchRequest, query),
+    getProfiles(BACKEND_URL),
+  ]);
+  if (response.isErr()) {
+    const error = response.unwrap_err();
+    return new Response(JSON.stringify(error), {
+      status: error.code,
+      headers: {
+        "Content-Type": "application/json",
+      },
+    });
+  }
+  const { visibleColumns } = getReportColumns(
+    query,
+    types,
+    profiles as Profiles | null,
+    response.unwrap().columns
+  );
+
+  // Request the matching items a page at a time as the client reads the export, so that exports
+  // of any size never need to fit in memory.
+  const objects = fetchRequest.searchObjects(
+    queryString.setFields([]).format(),
+    { fields: visibleColumns.map((column) => column.id) }
+  );
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const titles = visibleColumns.map((column) => column.title);
+      controller.enqueue(encoder.encode(exportRow(titles, format)));
+    },
+    async pull(controller) {
+      const next = await objects.next();
+      if (next.done) {
+        controller.close();
+      } else if (next.value.isErr()) {
+        const error = next.value.unwrap_err();
+        controller.enqueue(
+          encoder.encode(
+            exportErrorRow(error.detail || error.description, format)
+          )
+        );
+        controller.close();
+        await objects.return(undefined);
+      } else {
+        const item = next.value.unwrap() as SearchResultsObject;
+        const values = visibleColumns.map((column) =>
+          reportCellValue(item, column.id)
+        );
+        controller.enqueue(encoder.encode(exportRow(values, format)));
+      }
+    },
+    async cancel() {
+      await objects.return(undefined);
+    },
+  });
+
+  return new Response(stream, {
+    status: 200,
+    headers: {
+      "Content-Type": exportContentType(format),
+      "Content-Disposition": `attachment; filename="${exportFilename(types, format)}"`,
+    },
+  });
+}
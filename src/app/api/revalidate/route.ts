@@ -0,0 +1,108 @@
+// node_modules
+import { timingSafeEqual } from "crypto";
+import { revalidateTag } from "next/cache";
+// lib
+import { cacheTagsForChangedIds } from "@/lib/cache-tags";
+import { REVALIDATE_SECRET } from "@/lib/constants";
+import { HttpStatusCode } from "@/lib/fetch-request";
+import { logJson } from "@/lib/request-log";
+
+/**
+ * Body of requests to this endpoint.
+ */
+type RevalidateRequest = {
+  // `@id`s of the objects that changed, including objects that embed them
+  "@ids"?: string[];
+};
+
+/**
+ * Build a JSON response with the given status.
+ * @param {object} body Object to send as the response body
+ * @param {number} status HTTP status code of the response
+ * @returns {Response} JSON response
+ */
+function jsonResponse(body: object, status: number): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      "Content-Type": "application/json",
+    },
+  });
+}
+
+/**
+ * Check whether the request carries the shared revalidation secret as its bearer token.
+ * @param {Request} request Request to this endpoint
+ * @returns {boolean} True if the request has the correct secret
+ */
+function isAuthorized(request: Request): boolean {
+  const authorization = request.headers.get("Authorization") || "";
+  const expected = Buffer.from(`Bearer ${REVALIDATE_SECRET}`);
+  const received = Buffer.from(authorization);
+  return (
+    received.length === expected.length && timingSafeEqual(received, expected)
+  );
+}
+
+/**
+ * Check whether the given value is an array of non-empty strings.
+ * @param {unknown} value Value to check
+ * @returns {boolean} True if `value` is an array of non-empty strings
+ */
+function isStringArray(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) &&
+    value.every((item) => typeof item === "string" && item.length > 0)
+  );
+}
+
+/**
+ * Purge cached data-provider responses for objects that have changed, so the portal never shows
+ * old versions of edited objects. igvfd's indexer or a local script POSTs the `@id`s of the
+ * changed objects in the `@ids` property of the JSON body. Changed `@id`s also purge all cached
+ * searches, as any of them could include the changed objects. Callers must send the
+ * `REVALIDATE_SECRET` environment variable value as a bearer token in the `Authorization` header,
+ * and this endpoint stays disabled if that variable isn't set.
+ *
+ * ```
+ * curl -X POST -H "Authorization: Bearer $REVALIDATE_SECRET" \
+ *   -d '{"@ids": ["/samples/IGVFSM0000AAAA/"]}' http://localhost:3000/api/revalidate/
+ * ```
+ * @param {Request} request POST request with the changed `@id`s
+ * @returns {Response} Response with the purged cache tags in the `revalidated` property
+ */
+export async function POST(request: Request) {
+  if (!REVALIDATE_SECRET) {
+    return jsonResponse(
+      { error: "Revalidation not configured" },
+      HttpStatusCode.NOT_FOUND
+    );
+  }
+  if (!isAuthorized(request)) {
+    return jsonResponse({ error: "Unauthorized" }, HttpStatusCode.UNAUTHORIZED);
+  }
+
+  let body: RevalidateRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return jsonResponse(
+      { error: "Request body must be JSON" },
+      HttpStatusCode.BAD_REQUEST
+    );
+  }
+
+  const ids = body["@ids"] ?? [];
+  if (!isStringArray(ids)) {
+    return jsonResponse(
+      { error: "@ids must be an array of strings" },
+      HttpStatusCode.BAD_REQUEST
+    );
+  }
+
+  const tags = cacheTagsForChangedIds(ids);
+  tags.forEach((tag) => revalidateTag(tag));
+  logJson({ event: "revalidate", tags });
+
+  return jsonResponse({ revalidated: tags }, HttpStatusCode.OK);
+}
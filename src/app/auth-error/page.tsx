@@ -0,0 +1,32 @@
+// node_modules
+import type { Metadata } from "next";
+// components
+import { ErrorPage } from "@/components/error-page";
+// lib
+import { type ErrorObject, HttpStatusCode } from "@/lib/fetch-request";
+
+export const metadata: Metadata = {
+  title: "Authentication Error | IGVF",
+};
+
+/**
+ * Error describing a failure to sign in to the data provider after signing in to Auth0.
+ */
+const AUTH_ERROR: ErrorObject = {
+  isError: true,
+  "@type": ["HTTPUnauthorized", "Error"],
+  code: HttpStatusCode.UNAUTHORIZED,
+  description: "Sign-in failed",
+  detail:
+    "Your sign-in succeeded, but the IGVF data portal doesn't recognize your account. If you're affiliated with the IGVF project and keep seeing this, please contact the IGVF DACC so that we can add your account.",
+  status: "error",
+  title: "Sign-in failed",
+};
+
+/**
+ * Page that `SessionContextProvider` redirects to when the user signs in to Auth0 but can't sign
+ * in to the data provider.
+ */
+export default function AuthError() {
+  return <ErrorPage error={AUTH_ERROR} />;
+}
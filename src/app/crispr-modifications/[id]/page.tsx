@@ -1,5 +1,3 @@
-// node_modules
-import { notFound } from "next/navigation";
 // components
 import { AliasList } from "@/components/alias-list";
 import {
@@ -8,12 +6,24 @@ import {
   DataItemValue,
   DataPanel,
 } from "@/components/data-area";
+import { ErrorPage } from "@/components/error-page";
 import { SampleTable } from "@/components/streamed-tables";
 // lib
+import { BACKEND_URL } from "@/lib/constants";
 import { buildCookieString } from "@/lib/cookie";
-import { FetchRequest, type ErrorObject } from "@/lib/fetch-request";
+import { handlePageError } from "@/lib/errors";
+import {
+  FetchRequest,
+  HttpStatusCode,
+  type ErrorObject,
+} from "@/lib/fetch-request";
+import { fromNullable } from "@/lib/option";
+import { getProfiles } from "@/lib/profiles";
+import { getRequestId } from "@/lib/request-id";
+import { combine, type Result } from "@/lib/result";
+import { validateObjectType } from "@/lib/schema-validation";
 // root
-import { type DatabaseObject } from "@/globals.d";
+import type { DatabaseObject, Profiles } from "@/globals.d";
 
 export interface CrisprModificationObject extends DatabaseObject {
   biosamples_modified: string[];
@@ -29,31 +39,57 @@ export interface CrisprModificationObject extends DatabaseObject {
 }
 
 /**
- * Fetch a modification object from the database.
+ * Error to show when the schemas needed to validate the page object can't get loaded.
+ */
+const PROFILES_UNAVAILABLE_ERROR: ErrorObject = {
+  isError: true,
+  "@type": ["ServiceUnavailable", "Error"],
+  code: HttpStatusCode.SERVICE_UNAVAILABLE,
+  description: "Schemas unavailable",
+  detail: "Couldn't load /profiles to validate the CRISPR modification.",
+  status: "error",
+  title: "Schemas unavailable",
+};
+
+/**
+ * Fetch a modification object from the database, and validate it against its schema so that the
+ * page can rely on its properties.
  * @param {string} id uuid of the modification object to fetch
- * @returns {Promise<CrisprModificationObject>} The modification object
+ * @returns {Promise<Result<CrisprModificationObject, ErrorObject>>} The modification object
  */
-async function fetchPageObject(id: string): Promise<CrisprModificationObject> {
+async function fetchPageObject(
+  id: string
+): Promise<Result<CrisprModificationObject, ErrorObject>> {
   const cookie = buildCookieString();
-  const request = new FetchRequest({ cookie });
-  const requestedObject = (
-    await request.getObject(`/crispr-modifications/${id}/`)
-  ).union() as DatabaseObject | ErrorObject;
-  if (FetchRequest.isResponseSuccess(requestedObject)) {
-    return requestedObject as CrisprModificationObject;
-  }
-  notFound();
-  return {} as CrisprModificationObject;
+  const request = new FetchRequest({ cookie, requestId: getRequestId() });
+  const [objectResponse, profiles] = await Promise.all([
+    request.getObject(`/crispr-modifications/${id}/`),
+    getProfiles(BACKEND_URL),
+  ]);
+
+  return combine([
+    objectResponse,
+    fromNullable(profiles as Profiles | null).ok_or(PROFILES_UNAVAILABLE_ERROR),
+  ]).and_then(([object, profiles]) =>
+    validateObjectType<CrisprModificationObject>(object, profiles, {
+      required: ["biosamples_modified"],
+    })
+  );
 }
 
 /**
- * Display a CRISPR modification object page.
+ * Display a CRISPR modification object page. Failures to load the modification show an error page
+ * appropriate to the failure, or the not-found page if the modification doesn't exist.
  * @param {string} params.id The uuid of the modification object
  */
 export default async function CrisprModification({
   params,
 }: CrisprModificationProps) {
-  const modification = await fetchPageObject(params.id);
+  const response = await fetchPageObject(params.id);
+  if (response.isErr()) {
+    return <ErrorPage error={handlePageError(response.unwrap_err())} />;
+  }
+  const modification = response.unwrap();
 
   return (
     <>
@@ -0,0 +1,33 @@
+"use client";
+
+// node_modules
+import { useEffect } from "react";
+// components
+import { ErrorPage } from "@/components/error-page";
+import { Button } from "@/components/form-elements";
+// lib
+import { exceptionToErrorObject } from "@/lib/errors";
+
+/**
+ * Displayed when a page throws an exception while rendering. Pages that fail to load their data
+ * from the data provider should render `<ErrorPage>` themselves instead of throwing, as NextJS
+ * strips the details from server exceptions in production.
+ * @param {Error} error Exception the page threw
+ * @param {function} reset Call to try rendering the page again
+ */
+export default function PageError({ error, reset }: PageErrorProps) {
+  useEffect(() => {
+    console.error(error);
+  }, [error]);
+
+  return (
+    <ErrorPage error={exceptionToErrorObject(error)}>
+      <Button onClick={reset}>Try Again</Button>
+    </ErrorPage>
+  );
+}
+
+type PageErrorProps = {
+  error: Error & { digest?: string };
+  reset: () => void;
+};
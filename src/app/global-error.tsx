@@ -0,0 +1,34 @@
+"use client";
+
+// components
+import { ErrorPage } from "@/components/error-page";
+import { Button } from "@/components/form-elements";
+// lib
+import { exceptionToErrorObject } from "@/lib/errors";
+// styles
+import "./globals.css";
+
+/**
+ * Displayed when the root layout itself throws an exception. This replaces the root layout, so it
+ * has to render its own <html> and <body>.
+ * @param {Error} error Exception the root layout threw
+ * @param {function} reset Call to try rendering the page again
+ */
+export default function GlobalError({ error, reset }: GlobalErrorProps) {
+  return (
+    <html lang="en">
+      <body>
+        <div className="px-3 py-2 md:container md:px-8">
+          <ErrorPage error={exceptionToErrorObject(error)}>
+            <Button onClick={reset}>Try Again</Button>
+          </ErrorPage>
+        </div>
+      </body>
+    </html>
+  );
+}
+
+type GlobalErrorProps = {
+  error: Error & { digest?: string };
+  reset: () => void;
+};
@@ -0,0 +1,94 @@
+// node_modules
+import type { Metadata } from "next";
+import { redirect } from "next/navigation";
+// components
+import { ErrorPage } from "@/components/error-page";
+import { NoContent } from "@/components/no-content";
+import { SearchList } from "@/components/search";
+// lib
+import { buildCookieString } from "@/lib/cookie";
+import { handlePageError } from "@/lib/errors";
+import { FetchRequest } from "@/lib/fetch-request";
+import { findCloseMatches, findItemsWithIdentifier } from "@/lib/id-search";
+import { getRequestId } from "@/lib/request-id";
+import { getSearchCollectionTitles } from "@/lib/search";
+// root
+import type { NextJsServerQuery } from "@/globals.d";
+
+/**
+ * Get the identifier to search for from the `id=` query-string parameter.
+ * @param {NextJsServerQuery} searchParams Query-string parameters of the page
+ * @returns {string} Identifier to search for; empty if the query has none
+ */
+function searchedIdentifier(searchParams: NextJsServerQuery): string {
+  const { id } = searchParams;
+  return ((Array.isArray(id) ? id[0] : id) || "").trim();
+}
+
+export async function generateMetadata({
+  searchParams,
+}: IdSearchProps): Promise<Metadata> {
+  return {
+    title: `Items with the identifier ${searchedIdentifier(searchParams)} | IGVF`,
+  };
+}
+
+/**
+ * Find the item with the accession, UUID, or alias in the `id=` query-string parameter. If exactly
+ * one item has the identifier, go straight to its page. If several items have it, list them so the
+ * user can choose. If none have it, list the items that mention it anywhere as close matches.
+ * @param {NextJsServerQuery} searchParams Query-string parameters of the page
+ */
+export default async function IdSearch({ searchParams }: IdSearchProps) {
+  const id = searchedIdentifier(searchParams);
+  const request = new FetchRequest({
+    cookie: buildCookieString(),
+    requestId: getRequestId(),
+  });
+  const response = await findItemsWithIdentifier(request, id);
+  if (response.isErr()) {
+    return <ErrorPage error={handlePageError(response.unwrap_err())} />;
+  }
+  const items = response.unwrap();
+  if (items.length === 1) {
+    redirect(items[0]["@id"]);
+  }
+
+  const [collectionTitles, closeMatches] = await Promise.all([
+    getSearchCollectionTitles(),
+    items.length === 0 && id
+      ? findCloseMatches(request, id)
+      : Promise.resolve(null),
+  ]);
+
+  return (
+    <>
+      <h1 className="my-4 text-2xl font-semibold">
+        Items with the identifier {id}
+      </h1>
+      {items.length > 0 ? (
+        <SearchList items={items} collectionTitles={collectionTitles} />
+      ) : (
+        <>
+          <NoContent
+            message={`No items with the identifier ${id} to display`}
+            signInContent={`items with the identifier ${id}`}
+          />
+          {closeMatches?.isOk() && closeMatches.unwrap().length > 0 && (
+            <>
+              <h2 className="mb-2 text-lg font-semibold">Close Matches</h2>
+              <SearchList
+                items={closeMatches.unwrap()}
+                collectionTitles={collectionTitles}
+              />
+            </>
+          )}
+        </>
+      )}
+    </>
+  );
+}
+
+type IdSearchProps = {
+  searchParams: NextJsServerQuery;
+};
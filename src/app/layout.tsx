@@ -5,6 +5,7 @@ import { DropdownPortalRoot } from "@/components/dropdown";
 import { NavigationSection } from "@/components/navigation";
 // context
 import { GlobalContextProvider } from "@/context/global";
+import { SearchHistoryContextProvider } from "@/context/search-history";
 import { SessionContextProvider } from "@/context/session";
 // styles
 import "./globals.css";
@@ -27,12 +28,14 @@ export default function RootLayout({
           <AuthenticationProvider>
             <GlobalContextProvider>
               <SessionContextProvider>
-                <div className="md:flex">
-                  <NavigationSection />
-                  <div className="min-w-0 shrink grow px-3 py-2 md:px-8">
-                    {children}
+                <SearchHistoryContextProvider>
+                  <div className="md:flex">
+                    <NavigationSection />
+                    <div className="min-w-0 shrink grow px-3 py-2 md:px-8">
+                      {children}
+                    </div>
                   </div>
-                </div>
+                </SearchHistoryContextProvider>
               </SessionContextProvider>
             </GlobalContextProvider>
           </AuthenticationProvider>
@@ -0,0 +1,131 @@
+// node_modules
+import type { Metadata } from "next";
+// components
+import { ErrorPage } from "@/components/error-page";
+import { DataMatrixTable, MatrixAxisSelector } from "@/components/matrix";
+import { NoContent } from "@/components/no-content";
+import {
+  SaveSearchButton,
+  SearchVisitRecorder,
+} from "@/components/saved-searches";
+import { SearchResultsLayout, SearchViewToggle } from "@/components/search";
+// lib
+import { advancedQueryFields } from "@/lib/advanced-query";
+import { BACKEND_URL } from "@/lib/constants";
+import { buildCookieString } from "@/lib/cookie";
+import { handlePageError } from "@/lib/errors";
+import { FetchRequest } from "@/lib/fetch-request";
+import {
+  getDataMatrix,
+  matrixAxes,
+  matrixFields,
+  matrixSearchQuery,
+} from "@/lib/matrix";
+import { getProfiles } from "@/lib/profiles";
+import { QueryString } from "@/lib/query-string";
+import { getRequestId } from "@/lib/request-id";
+import {
+  getSearchCollectionTitles,
+  getSearchResults,
+  searchParamsToQuery,
+  searchTitle,
+} from "@/lib/search";
+// root
+import type { NextJsServerQuery, Profiles } from "@/globals.d";
+
+export async function generateMetadata({
+  searchParams,
+}: MatrixProps): Promise<Metadata> {
+  const collectionTitles = await getSearchCollectionTitles();
+  const searchQuery = matrixSearchQuery(searchParamsToQuery(searchParams));
+  const types = new QueryString(searchQuery).getKeyValues("type");
+  return {
+    title: `${searchTitle(types, collectionTitles)} Matrix | IGVF`,
+  };
+}
+
+/**
+ * Display a matrix that cross-tabulates the results of a search by the terms of two facet fields,
+ * e.g. the assays of measurement sets against their sample terms, next to the facets that filter
+ * the results. Each cell links to the search for the items it counts. The `rows=`, `columns=`,
+ * `row_group=`, and `column_group=` parameters choose the axes, and the rest of the query string
+ * is the search; searches without a `type=` show measurement sets.
+ * @param {NextJsServerQuery} searchParams Query-string parameters of the matrix
+ */
+export default async function Matrix({ searchParams }: MatrixProps) {
+  const cookie = buildCookieString();
+  const request = new FetchRequest({ cookie, requestId: getRequestId() });
+  const query = searchParamsToQuery(searchParams);
+  const searchQuery = matrixSearchQuery(query);
+  const [response, collectionTitles, profiles] = await Promise.all([
+    getSearchResults(request, searchQuery),
+    getSearchCollectionTitles(),
+    getProfiles(BACKEND_URL),
+  ]);
+  if (response.isErr()) {
+    return <ErrorPage error={handlePageError(response.unwrap_err())} />;
+  }
+  const results = response.unwrap();
+
+  const fields = matrixFields(results.facets || []);
+  const axes = matrixAxes(query, fields);
+  const matrixResponse = await getDataMatrix(
+    request,
+    searchQuery,
+    results,
+    axes
+  );
+  if (matrixResponse.isErr()) {
+    return <ErrorPage error={handlePageError(matrixResponse.unwrap_err())} />;
+  }
+  const matrix = matrixResponse.unwrap();
+
+  const types = new QueryString(searchQuery).getKeyValues("type");
+  const title = `${searchTitle(types, collectionTitles)} Matrix`;
+
+  return (
+    <>
+      <SearchVisitRecorder
+        title={title}
+        path="/matrix/"
+        query={query}
+        count={results.total}
+      />
+      <SearchResultsLayout
+        title={title}
+        results={results}
+        advancedQueryFields={advancedQueryFields(
+          types,
+          profiles as Profiles | null
+        )}
+        controls={
+          <>
+            <SearchViewToggle view="matrix" query={searchQuery} />
+            <MatrixAxisSelector axes={axes} fields={fields} />
+            <SaveSearchButton
+              title={title}
+              path="/matrix/"
+              query={query}
+              count={results.total}
+            />
+          </>
+        }
+      >
+        {matrix.rowGroups.length > 0 && matrix.columnGroups.length > 0 ? (
+          <DataMatrixTable
+            matrix={matrix}
+            axes={axes}
+            fields={fields}
+            searchQuery={searchQuery}
+          />
+        ) : (
+          <NoContent message="No matrix data to display" />
+        )}
+      </SearchResultsLayout>
+    </>
+  );
+}
+
+type MatrixProps = {
+  searchParams: NextJsServerQuery;
+};
@@ -0,0 +1,125 @@
+// node_modules
+import type { Metadata } from "next";
+// components
+import { ErrorPage } from "@/components/error-page";
+import {
+  ColumnSelector,
+  ReportExportButtons,
+  ReportGrid,
+} from "@/components/report";
+import {
+  SaveSearchButton,
+  SearchVisitRecorder,
+} from "@/components/saved-searches";
+import { SearchResultsLayout, SearchViewToggle } from "@/components/search";
+// lib
+import { advancedQueryFields } from "@/lib/advanced-query";
+import { BACKEND_URL } from "@/lib/constants";
+import { buildCookieString } from "@/lib/cookie";
+import { handlePageError } from "@/lib/errors";
+import { FetchRequest } from "@/lib/fetch-request";
+import { getProfiles } from "@/lib/profiles";
+import { getReportColumns } from "@/lib/report";
+import { getRequestId } from "@/lib/request-id";
+import {
+  getSearchCollectionTitles,
+  getSearchResults,
+  searchLimit,
+  searchParamsToQuery,
+  searchTitle,
+  searchTypes,
+} from "@/lib/search";
+// root
+import type { NextJsServerQuery, Profiles } from "@/globals.d";
+
+export async function generateMetadata({
+  searchParams,
+}: MultiReportProps): Promise<Metadata> {
+  const collectionTitles = await getSearchCollectionTitles();
+  const title = searchTitle(searchTypes(searchParams), collectionTitles);
+  return {
+    title: `${title} Report | IGVF`,
+  };
+}
+
+/**
+ * Display the results of a search as a table with one column per property, next to the facets
+ * that filter the results. The `field=` parameters of the query choose the columns; without them
+ * the report shows the default columns of the reported type. Users choose the columns through a
+ * modal that updates the `field=` parameters, so copying the URL shares the report with its
+ * columns. The data provider sorts and pages the results through `sort=` and `from=` parameters.
+ * @param {NextJsServerQuery} searchParams Query-string parameters of the report
+ */
+export default async function MultiReport({ searchParams }: MultiReportProps) {
+  const cookie = buildCookieString();
+  const request = new FetchRequest({ cookie, requestId: getRequestId() });
+  const query = searchParamsToQuery(searchParams);
+  const [response, collectionTitles, profiles] = await Promise.all([
+    getSearchResults(request, query),
+    getSearchCollectionTitles(),
+    getProfiles(BACKEND_URL),
+  ]);
+  if (response.isErr()) {
+    return <ErrorPage error={handlePageError(response.unwrap_err())} />;
+  }
+  const results = response.unwrap();
+  const types = searchTypes(searchParams);
+
+  const { defaultIds, visibleColumns, availableColumns } = getReportColumns(
+    query,
+    types,
+    profiles as Profiles | null,
+    results.columns
+  );
+
+  const title = searchTitle(types, collectionTitles);
+
+  return (
+    <>
+      <SearchVisitRecorder
+        title={`${title} Report`}
+        path="/multireport/"
+        query={query}
+        count={results.total}
+      />
+      <SearchResultsLayout
+        title={title}
+        results={results}
+        advancedQueryFields={advancedQueryFields(
+          types,
+          profiles as Profiles | null
+        )}
+        controls={
+          <>
+            <SearchViewToggle view="report" query={query} />
+            <ColumnSelector
+              columns={availableColumns}
+              visibleColumnIds={visibleColumns.map((column) => column.id)}
+              defaultColumnIds={defaultIds}
+            />
+            <ReportExportButtons total={results.total} />
+            <SaveSearchButton
+              title={`${title} Report`}
+              path="/multireport/"
+              query={query}
+              count={results.total}
+            />
+          </>
+        }
+      >
+        <ReportGrid
+          items={results["@graph"]}
+          columns={visibleColumns}
+          total={results.total}
+          limit={searchLimit(searchParams, results.total)}
+          sort={results.sort}
+          nonSortable={results.non_sortable}
+        />
+      </SearchResultsLayout>
+    </>
+  );
+}
+
+type MultiReportProps = {
+  searchParams: NextJsServerQuery;
+};
@@ -0,0 +1,12 @@
+// components
+import { ErrorPage } from "@/components/error-page";
+// lib
+import { NOT_FOUND_ERROR } from "@/lib/errors";
+
+/**
+ * Displayed for URLs that match no page, and for pages that call `notFound()` because their object
+ * doesn't exist.
+ */
+export default function NotFound() {
+  return <ErrorPage error={NOT_FOUND_ERROR} />;
+}
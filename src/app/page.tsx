@@ -12,6 +12,7 @@ import { FetchRequest } from "../lib/fetch-request";
 import { requestDatasetSummary } from "../lib/common-requests";
 import { abbreviateNumber } from "../lib/general";
 import { convertFileSetsToReleaseData } from "../lib/home";
+import { getRequestId } from "@/lib/request-id";
 import { Suspense } from "react";
 // root
 import { DatabaseObject, SearchResults } from "@/globals";
@@ -149,7 +150,7 @@ async function StatisticsSection({
 
 async function SiteData() {
   const cookie = buildCookieString();
-  const request = new FetchRequest({ cookie });
+  const request = new FetchRequest({ cookie, requestId: getRequestId() });
   const results = await requestDatasetSummary(request);
   const fileSets = results["@graph"] || [];
   const releaseData = convertFileSetsToReleaseData(fileSets);
@@ -0,0 +1,24 @@
+// node_modules
+import type { Metadata } from "next";
+// components
+import { RecentSearchList, SavedSearchList } from "@/components/saved-searches";
+
+export const metadata: Metadata = {
+  title: "Saved Searches | IGVF",
+};
+
+/**
+ * Display the searches the user saved, with how many results each gained or lost since their last
+ * visit, and the searches they recently ran. Signed-out users see the searches saved in this
+ * browser, while signed-in users see the searches saved to their account.
+ */
+export default function SavedSearches() {
+  return (
+    <>
+      <h1 className="my-4 text-2xl font-semibold">Saved Searches</h1>
+      <SavedSearchList />
+      <h2 className="mb-2 mt-6 text-lg font-semibold">Recent Searches</h2>
+      <RecentSearchList />
+    </>
+  );
+}
@@ -0,0 +1,108 @@
+// node_modules
+import type { Metadata } from "next";
+// components
+import { ErrorPage } from "@/components/error-page";
+import {
+  SaveSearchButton,
+  SearchVisitRecorder,
+} from "@/components/saved-searches";
+import {
+  SearchList,
+  SearchPager,
+  SearchResultsLayout,
+  SearchViewToggle,
+} from "@/components/search";
+// lib
+import { advancedQueryFields } from "@/lib/advanced-query";
+import { BACKEND_URL } from "@/lib/constants";
+import { buildCookieString } from "@/lib/cookie";
+import { handlePageError } from "@/lib/errors";
+import { FetchRequest } from "@/lib/fetch-request";
+import { getProfiles } from "@/lib/profiles";
+import { getRequestId } from "@/lib/request-id";
+import {
+  getSearchCollectionTitles,
+  getSearchResults,
+  searchLimit,
+  searchParamsToQuery,
+  searchTitle,
+  searchTypes,
+} from "@/lib/search";
+// root
+import type { NextJsServerQuery, Profiles } from "@/globals.d";
+
+export async function generateMetadata({
+  searchParams,
+}: SearchProps): Promise<Metadata> {
+  const collectionTitles = await getSearchCollectionTitles();
+  return {
+    title: `${searchTitle(searchTypes(searchParams), collectionTitles)} | IGVF`,
+  };
+}
+
+/**
+ * Display the results of a search as a list, with each item rendered according to its `@type`,
+ * next to the facets that filter the results. The query string of the page URL gets passed to the
+ * data provider's /search endpoint as is. Searches that match nothing show a message instead of
+ * the list, and failed searches show an error page.
+ * @param {NextJsServerQuery} searchParams Query-string parameters of the search
+ */
+export default async function Search({ searchParams }: SearchProps) {
+  const cookie = buildCookieString();
+  const request = new FetchRequest({ cookie, requestId: getRequestId() });
+  const query = searchParamsToQuery(searchParams);
+  const [response, collectionTitles, profiles] = await Promise.all([
+    getSearchResults(request, query),
+    getSearchCollectionTitles(),
+    getProfiles(BACKEND_URL),
+  ]);
+  if (response.isErr()) {
+    return <ErrorPage error={handlePageError(response.unwrap_err())} />;
+  }
+  const results = response.unwrap();
+  const types = searchTypes(searchParams);
+  const title = searchTitle(types, collectionTitles);
+
+  return (
+    <>
+      <SearchVisitRecorder
+        title={title}
+        path="/search/"
+        query={query}
+        count={results.total}
+      />
+      <SearchResultsLayout
+        title={title}
+        results={results}
+        advancedQueryFields={advancedQueryFields(
+          types,
+          profiles as Profiles | null
+        )}
+        controls={
+          <>
+            <SearchViewToggle view="list" query={query} />
+            <SaveSearchButton
+              title={title}
+              path="/search/"
+              query={query}
+              count={results.total}
+            />
+          </>
+        }
+      >
+        <SearchList
+          items={results["@graph"]}
+          collectionTitles={collectionTitles}
+        />
+        <SearchPager
+          total={results.total}
+          limit={searchLimit(searchParams, results.total)}
+        />
+      </SearchResultsLayout>
+    </>
+  );
+}
+
+type SearchProps = {
+  searchParams: NextJsServerQuery;
+};
@@ -0,0 +1,95 @@
+// node_modules
+import type { Metadata } from "next";
+// components
+import { ErrorPage } from "@/components/error-page";
+import { NoContent } from "@/components/no-content";
+import { SiteSearchTypeSection } from "@/components/site-search";
+// lib
+import { BACKEND_URL, UC } from "@/lib/constants";
+import { buildCookieString } from "@/lib/cookie";
+import { handlePageError } from "@/lib/errors";
+import { FetchRequest } from "@/lib/fetch-request";
+import { getProfiles } from "@/lib/profiles";
+import { getRequestId } from "@/lib/request-id";
+import { getSearchCollectionTitles } from "@/lib/search";
+import { getSiteSearchGroups } from "@/lib/site-search";
+// root
+import type { NextJsServerQuery, Profiles } from "@/globals.d";
+
+/**
+ * Get the term to search for from the `term=` query-string parameter.
+ * @param {NextJsServerQuery} searchParams Query-string parameters of the page
+ * @returns {string} Term to search for; empty if the query has none
+ */
+function siteSearchTerm(searchParams: NextJsServerQuery): string {
+  const { term } = searchParams;
+  return ((Array.isArray(term) ? term[0] : term) || "").trim();
+}
+
+export async function generateMetadata({
+  searchParams,
+}: SiteSearchProps): Promise<Metadata> {
+  const term = siteSearchTerm(searchParams);
+  return {
+    title: `Items with ${UC.ldquo}${term}${UC.rdquo} | IGVF`,
+  };
+}
+
+/**
+ * Search all object types for the term in the `term=` query-string parameter, and display the
+ * top matches grouped by type. Each group links to the search list and report of all its matches,
+ * so that users can find data without first knowing which type holds it.
+ * @param {NextJsServerQuery} searchParams Query-string parameters of the page
+ */
+export default async function SiteSearch({ searchParams }: SiteSearchProps) {
+  const term = siteSearchTerm(searchParams);
+  const request = new FetchRequest({
+    cookie: buildCookieString(),
+    requestId: getRequestId(),
+  });
+  const [collectionTitles, profiles] = await Promise.all([
+    getSearchCollectionTitles(),
+    getProfiles(BACKEND_URL),
+  ]);
+  const response = term
+    ? await getSiteSearchGroups(
+        request,
+        term,
+        collectionTitles,
+        profiles as Profiles | null
+      )
+    : null;
+  if (response?.isErr()) {
+    return <ErrorPage error={handlePageError(response.unwrap_err())} />;
+  }
+  const groups = response?.unwrap() || [];
+
+  return (
+    <>
+      <h1 className="my-4 text-2xl font-semibold">
+        Items with {UC.ldquo}
+        {term}
+        {UC.rdquo}
+      </h1>
+      {groups.length > 0 ? (
+        groups.map((group) => (
+          <SiteSearchTypeSection
+            key={group.type}
+            group={group}
+            term={term}
+            collectionTitles={collectionTitles}
+          />
+        ))
+      ) : (
+        <NoContent
+          message="No matching items to display"
+          signInContent="matching items"
+        />
+      )}
+    </>
+  );
+}
+
+type SiteSearchProps = {
+  searchParams: NextJsServerQuery;
+};
@@ -0,0 +1,113 @@
+"use client";
+
+// node_modules
+import { ChevronDownIcon, ChevronUpIcon } from "@heroicons/react/20/solid";
+import { useState } from "react";
+// root
+import type { Audit, Audits } from "@/globals.d";
+
+/**
+ * Audit levels in order of severity, with their titles and the colors of their flags.
+ */
+const auditLevels: {
+  level: keyof Audits;
+  title: string;
+  className: string;
+}[] = [
+  {
+    level: "ERROR",
+    title: "Error",
+    className: "bg-audit-error",
+  },
+  {
+    level: "NOT_COMPLIANT",
+    title: "Not Compliant",
+    className: "bg-audit-not-compliant",
+  },
+  {
+    level: "WARNING",
+    title: "Warning",
+    className: "bg-audit-warning",
+  },
+  {
+    level: "INTERNAL_ACTION",
+    title: "Internal Action",
+    className: "bg-audit-internal-action",
+  },
+];
+
+/**
+ * Display a flag for each audit level an object has, along with the number of audits at that
+ * level. Clicking the flags shows the details of each audit below them.
+ * @param {Audits} [audit] `audit` property of the object to display the audits of
+ */
+export function AuditStatus({ audit }: AuditStatusProps) {
+  const [isDetailOpen, setIsDetailOpen] = useState(false);
+
+  const levels = auditLevels.filter(
+    ({ level }) => (audit?.[level]?.length ?? 0) > 0
+  );
+  if (levels.length === 0) {
+    return null;
+  }
+
+  return (
+    <div>
+      <button
+        type="button"
+        className={`flex items-center gap-1 rounded border border-audit px-1 py-0.5 ${
+          isDetailOpen ? "bg-button-audit-open" : "bg-button-audit-closed"
+        }`}
+        onClick={() => setIsDetailOpen(!isDetailOpen)}
+        aria-label={`${isDetailOpen ? "Close" : "Open"} audit details`}
+        aria-expanded={isDetailOpen}
+        data-testid="audit-status-button"
+      >
+        {levels.map(({ level, title, className }) => (
+          <div
+            key={level}
+            className="flex items-center gap-0.5 text-xs"
+            title={`${title} audits`}
+          >
+            <div className={`h-3 w-3 rounded-full ${className}`} />
+            {audit![level]!.length}
+          </div>
+        ))}
+        {isDetailOpen ? (
+          <ChevronUpIcon className="h-4 w-4" />
+        ) : (
+          <ChevronDownIcon className="h-4 w-4" />
+        )}
+      </button>
+      {isDetailOpen && (
+        <div
+          className="mt-1 rounded border border-audit bg-audit p-2 text-sm"
+          data-testid="audit-detail-panel"
+        >
+          {levels.map(({ level, title, className }) => (
+            <section key={level} className="mb-2 last:mb-0">
+              <h2 className="flex items-center gap-1 font-semibold">
+                <div className={`h-3 w-3 rounded-full ${className}`} />
+                {title}
+              </h2>
+              <ul>
+                {audit![level]!.map((auditItem: Audit, index: number) => (
+                  <li key={`${auditItem.category}-${index}`} className="mt-1">
+                    <div className="font-semibold">{auditItem.category}</div>
+                    <div className="break-words text-gray-600 dark:text-gray-400">
+                      {auditItem.detail}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+type AuditStatusProps = {
+  audit?: Audits;
+};
@@ -9,6 +9,9 @@ import { useEffect, useState } from "react";
  *
  * These hooks can detect when they get called on the server and only return the initial value,
  * even if you set a new value (unlikely to happen on server render anyway).
+ *
+ * Stored values get compared by their JSON form, so arrays and objects parsed from storage don't
+ * count as new values on every render.
  */
 /**
  * Analogous to useState, but sets new values in the browser's localStorage, and recalls them.
@@ -35,7 +38,7 @@ export function useLocalStorage<T>(
     // Now that the component has mounted, we can get the value from localStorage.
     const item = localStorage.getItem(key);
     const parsedItem = item ? JSON.parse(item) : initialValue;
-    if (parsedItem !== value) {
+    if (JSON.stringify(parsedItem) !== JSON.stringify(value)) {
       setValue(parsedItem);
     }
   }, [key, initialValue, value]);
@@ -68,7 +71,7 @@ export function useSessionStorage<T>(
     // Now that the component has mounted, we can get the value from sessionStorage.
     const item = window.sessionStorage.getItem(key);
     const parsedItem = item ? JSON.parse(item) : initialValue;
-    if (parsedItem !== value) {
+    if (JSON.stringify(parsedItem) !== JSON.stringify(value)) {
       setValue(parsedItem);
     }
   }, [key, initialValue, value]);
@@ -0,0 +1,87 @@
+// node_modules
+import {
+  ExclamationTriangleIcon,
+  LockClosedIcon,
+  QuestionMarkCircleIcon,
+} from "@heroicons/react/20/solid";
+import type { PropsWithChildren } from "react";
+// lib
+import { errorCategory, type ErrorCategory } from "@/lib/errors";
+import type { ErrorObject } from "@/lib/fetch-request";
+
+/**
+ * Title, guidance, and look for each category of error.
+ */
+const categoryContent: Record<
+  ErrorCategory,
+  {
+    heading: string;
+    guidance: string;
+    Icon: typeof LockClosedIcon;
+    className: string;
+  }
+> = {
+  access: {
+    heading: "Access was denied to this resource",
+    guidance:
+      "Please sign in if you are affiliated with the IGVF project. If you have signed in and still see this, you might not have permission to view this item.",
+    Icon: LockClosedIcon,
+    className:
+      "border-amber-500 bg-amber-50 text-amber-900 dark:bg-amber-950 dark:text-amber-100",
+  },
+  missing: {
+    heading: "This page could not be found",
+    guidance:
+      "The item might have been removed, or the link you followed might be wrong.",
+    Icon: QuestionMarkCircleIcon,
+    className:
+      "border-gray-400 bg-gray-50 text-gray-900 dark:bg-gray-900 dark:text-gray-100",
+  },
+  server: {
+    heading: "Something went wrong on our end",
+    guidance:
+      "This is a problem with the IGVF data portal, not with anything you did. Please report it to the IGVF DACC, including the error code and details below.",
+    Icon: ExclamationTriangleIcon,
+    className:
+      "border-red-500 bg-red-50 text-red-900 dark:bg-red-950 dark:text-red-100",
+  },
+};
+
+/**
+ * Display a full-page error from an error object. Forbidden, missing, and server errors each get
+ * their own guidance so that users know whether to sign in or report a bug. Pass any additional
+ * content, like a button to retry, as children.
+ * @param {ErrorObject} error Error to display
+ */
+export function ErrorPage({
+  error,
+  children,
+}: PropsWithChildren<ErrorPageProps>) {
+  const { heading, guidance, Icon, className } =
+    categoryContent[errorCategory(error)];
+
+  return (
+    <section
+      className={`my-8 rounded-lg border-l-4 p-6 ${className}`}
+      data-testid="error-page"
+    >
+      <div className="flex items-center gap-4">
+        <Icon className="h-12 w-12 shrink-0" aria-hidden="true" />
+        <div>
+          <div className="text-4xl font-bold">{error.code}</div>
+          <h1 className="text-xl font-semibold">{heading}</h1>
+        </div>
+      </div>
+      <p className="mt-4">{guidance}</p>
+      <dl className="mt-4 text-sm">
+        <dt className="font-semibold">{error.title}</dt>
+        {error.detail && <dd className="mt-1 break-words">{error.detail}</dd>}
+      </dl>
+      {children && <div className="mt-6">{children}</div>}
+    </section>
+  );
+}
+
+type ErrorPageProps = {
+  error: ErrorObject;
+};
@@ -0,0 +1,233 @@
+"use client";
+
+// node_modules
+import { XMarkIcon } from "@heroicons/react/20/solid";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { useState } from "react";
+// components
+import { Facet } from "@/components/facets/facet";
+// lib
+import {
+  clearFilterQuery,
+  facetForFilter,
+  setFacetExistence,
+  toggleFacetTerm,
+  type FacetExistence,
+} from "@/lib/facets";
+import { QueryString } from "@/lib/query-string";
+// root
+import type {
+  SearchResultsFacet,
+  SearchResultsFacetGroup,
+  SearchResultsFilter,
+} from "@/globals.d";
+
+/**
+ * Filters on these fields don't get a tag to clear them. Search pages always filter by type, and
+ * clearing it would search everything. `query=` holds free text from the search box, which isn't
+ * a facet.
+ */
+const UNTAGGED_FILTER_FIELDS = ["type", "query"];
+
+/**
+ * Facet group holding the facets that igvfd doesn't assign to any group.
+ */
+const OTHER_FACET_GROUP: SearchResultsFacetGroup = {
+  facet_fields: [],
+  name: "other",
+  title: "Other",
+};
+
+/**
+ * Arrange the facets into their groups, keeping the order of the facets within each group. Facets
+ * that igvfd doesn't assign to a group go into an extra group at the end. Facets with no terms
+ * don't appear unless the query filters on them.
+ * @param {SearchResultsFacet[]} facets Facets from the search results
+ * @param {SearchResultsFacetGroup[]} facetGroups Facet groups from the search results
+ * @param {SearchResultsFilter[]} filters Filters from the search results
+ * @returns {Array<{group: SearchResultsFacetGroup; facets: SearchResultsFacet[]}>} Facets in
+ *   their groups; groups with no visible facets get omitted
+ */
+function groupFacets(
+  facets: SearchResultsFacet[],
+  facetGroups: SearchResultsFacetGroup[],
+  filters: SearchResultsFilter[]
+): { group: SearchResultsFacetGroup; facets: SearchResultsFacet[] }[] {
+  const filteredFields = filters.map((filter) =>
+    filter.field.replace(/!$/, "")
+  );
+  const visibleFacets = facets.filter(
+    (facet) => facet.terms.length > 0 || filteredFields.includes(facet.field)
+  );
+  const groupedFields = facetGroups.flatMap((group) => group.facet_fields);
+  const ungroupedFacets = visibleFacets.filter(
+    (facet) => !groupedFields.includes(facet.field)
+  );
+
+  return facetGroups
+    .map((group) => ({
+      group,
+      facets: group.facet_fields
+        .map((field) => visibleFacets.find((facet) => facet.field === field))
+        .filter((facet): facet is SearchResultsFacet => Boolean(facet)),
+    }))
+    .concat(
+      ungroupedFacets.length > 0
+        ? [{ group: OTHER_FACET_GROUP, facets: ungroupedFacets }]
+        : []
+    )
+    .filter(({ facets: groupFacets }) => groupFacets.length > 0);
+}
+
+/**
+ * Get the content of a filter tag. Filters on whether the field exists show that instead of the
+ * `*` term.
+ * @param {string} term Term the filter selects or excludes
+ * @param {boolean} isNegative True if the filter excludes the term
+ * @returns {React.ReactNode} Content of the filter tag
+ */
+function filterTagLabel(term: string, isNegative: boolean): React.ReactNode {
+  if (term === "*") {
+    return isNegative ? "missing" : "exists";
+  }
+  return isNegative ? (
+    <>
+      <span className="font-semibold">NOT</span> {term}
+    </>
+  ) : (
+    term
+  );
+}
+
+/**
+ * Display a tag for each term the query filters on, which clears that filter when clicked.
+ * Excluded terms have their own color.
+ * @param {SearchResultsFilter[]} filters Filters from the search results
+ * @param {SearchResultsFacet[]} facets Facets from the search results, for their titles
+ * @param {function} onClear Called with the query string without the clicked filter
+ */
+function FilterTags({ filters, facets, onClear }: FilterTagsProps) {
+  const taggedFilters = filters.filter(
+    (filter) => !UNTAGGED_FILTER_FIELDS.includes(filter.field)
+  );
+  if (taggedFilters.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mb-2 flex flex-wrap gap-1" data-testid="filter-tags">
+      {taggedFilters.map((filter) => {
+        const isNegative = filter.field.endsWith("!");
+        const title =
+          facetForFilter(filter, facets)?.title ||
+          filter.field.replace(/!$/, "");
+
+        return (
+          <button
+            key={`${filter.field}=${filter.term}`}
+            type="button"
+            className={`flex items-center gap-0.5 rounded-full border px-2 text-xs text-facet-tag ${
+              isNegative
+                ? "border-facet-tag-neg bg-facet-tag-neg"
+                : "border-facet-tag bg-facet-tag"
+            }`}
+            onClick={() => onClear(clearFilterQuery(filter))}
+            aria-label={`Clear ${title} filter for ${filter.term}`}
+          >
+            {filterTagLabel(filter.term, isNegative)}
+            <XMarkIcon className="h-3 w-3" />
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+type FilterTagsProps = {
+  filters: SearchResultsFilter[];
+  facets: SearchResultsFacet[];
+  onClear: (query: string) => void;
+};
+
+/**
+ * Display the facets of a search-results page, with buttons to choose the facet group to display
+ * and tags for the current filters. Every change to the facets navigates to the same page with the
+ * new query string, so the URL always reflects the current filters.
+ * @param {SearchResultsFacet[]} facets Facets from the search results
+ * @param {SearchResultsFacetGroup[]} facetGroups Facet groups from the search results
+ * @param {SearchResultsFilter[]} filters Filters from the search results
+ */
+export function FacetSection({
+  facets,
+  facetGroups = [],
+  filters = [],
+}: FacetSectionProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const [selectedGroupName, setSelectedGroupName] = useState("");
+
+  const query = searchParams.toString();
+  const parameters = new QueryString(query).getParameters();
+  const groups = groupFacets(facets, facetGroups, filters);
+  if (groups.length === 0) {
+    return null;
+  }
+  const selectedGroup =
+    groups.find(({ group }) => group.name === selectedGroupName) || groups[0];
+
+  function navigate(newQuery: string) {
+    router.push(`${pathname}?${newQuery}`);
+  }
+
+  return (
+    <div data-testid="search-facets">
+      <FilterTags filters={filters} facets={facets} onClear={navigate} />
+      {groups.length > 1 && (
+        <div
+          className="mb-2 flex flex-wrap gap-1"
+          data-testid="facetgroup-buttons"
+        >
+          {groups.map(({ group }) => {
+            const isSelected = group.name === selectedGroup.group.name;
+            return (
+              <button
+                key={group.name}
+                type="button"
+                className={`rounded border px-2 py-0.5 text-sm ${
+                  isSelected
+                    ? "border-facet-group-button-selected bg-facet-group-button-selected text-button-facet-group-selected"
+                    : "border-facet-group-button bg-facet-group-button text-button-facet-group"
+                }`}
+                onClick={() => setSelectedGroupName(group.name)}
+                aria-label={`${group.title} filter group`}
+                aria-pressed={isSelected}
+              >
+                {group.title}
+              </button>
+            );
+          })}
+        </div>
+      )}
+      {selectedGroup.facets.map((facet) => (
+        <Facet
+          key={facet.field}
+          facet={facet}
+          parameters={parameters}
+          onTermChange={(term: string, isNegative: boolean) =>
+            navigate(toggleFacetTerm(query, facet.field, term, isNegative))
+          }
+          onExistenceChange={(existence: FacetExistence) =>
+            navigate(setFacetExistence(query, facet.field, existence))
+          }
+        />
+      ))}
+    </div>
+  );
+}
+
+type FacetSectionProps = {
+  facets: SearchResultsFacet[];
+  facetGroups?: SearchResultsFacetGroup[];
+  filters?: SearchResultsFilter[];
+};
@@ -0,0 +1,172 @@
+"use client";
+
+// node_modules
+import {
+  ChevronDownIcon,
+  ChevronRightIcon,
+  MinusCircleIcon,
+} from "@heroicons/react/20/solid";
+import { useState } from "react";
+// components
+import { useSessionStorage } from "@/components/browser-storage";
+// lib
+import {
+  facetExistence,
+  facetTermId,
+  facetTermKey,
+  findTermParameter,
+  type FacetExistence,
+} from "@/lib/facets";
+import type { QueryParameter } from "@/lib/query-string";
+// root
+import type { SearchResultsFacet } from "@/globals.d";
+
+/**
+ * Facets with more terms than this show a text field to filter their terms.
+ */
+const TERM_FILTER_THRESHOLD = 10;
+
+/**
+ * Labels for each existence filter, in display order.
+ */
+const existenceOptions: { existence: FacetExistence; label: string }[] = [
+  { existence: "any", label: "Any" },
+  { existence: "exists", label: "Exists" },
+  { existence: "missing", label: "Missing" },
+];
+
+/**
+ * Display a single facet: a collapsible title, existence toggles, and a checkbox for each term
+ * with its count. Each term also has a button to exclude it from the results. Whether the facet
+ * is open persists in sessionStorage so that it stays open or closed as the user navigates.
+ * @param {SearchResultsFacet} facet Facet to display
+ * @param {QueryParameter[]} parameters Parameters of the current query
+ * @param {function} onTermChange Called with the term and whether to toggle excluding it
+ * @param {function} onExistenceChange Called with the new existence filter for the field
+ */
+export function Facet({
+  facet,
+  parameters,
+  onTermChange,
+  onExistenceChange,
+}: FacetProps) {
+  const [isOpen, setIsOpen] = useSessionStorage(
+    `facet-open-${facet.field}`,
+    true
+  );
+  const [termFilter, setTermFilter] = useState("");
+
+  const existence = facetExistence(parameters, facet.field);
+  const lowerCaseFilter = termFilter.toLowerCase();
+  const visibleTerms = facet.terms.filter((term) =>
+    facetTermKey(term).toLowerCase().includes(lowerCaseFilter)
+  );
+  const contentId = `facet-content-${facet.field}`;
+
+  return (
+    <section
+      className="mb-2 rounded border border-panel"
+      data-testid={`facet-${facet.field}`}
+    >
+      <h2>
+        <button
+          type="button"
+          className="flex w-full items-center gap-1 bg-facet-title px-2 py-1 text-left text-sm font-semibold text-facet-title"
+          onClick={() => setIsOpen(!isOpen)}
+          aria-expanded={isOpen}
+          aria-controls={contentId}
+        >
+          {isOpen ? (
+            <ChevronDownIcon className="h-4 w-4" />
+          ) : (
+            <ChevronRightIcon className="h-4 w-4" />
+          )}
+          {facet.title}
+        </button>
+      </h2>
+      {isOpen && (
+        <div id={contentId} className="p-2 text-sm">
+          <div
+            className="mb-2 flex gap-1"
+            role="group"
+            aria-label={`${facet.title} existence filter`}
+          >
+            {existenceOptions.map((option) => (
+              <button
+                key={option.existence}
+                type="button"
+                className={`rounded border px-1.5 text-xs ${
+                  existence === option.existence
+                    ? "border-facet-group-button-selected bg-facet-group-button-selected"
+                    : "border-facet-group-button bg-facet-group-button"
+                }`}
+                onClick={() => onExistenceChange(option.existence)}
+                aria-pressed={existence === option.existence}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          {facet.terms.length > TERM_FILTER_THRESHOLD && (
+            <input
+              type="text"
+              className="mb-2 w-full rounded border border-facet-filter bg-transparent px-1 text-facet-filter focus:border-facet-filter-focus focus:text-facet-filter-focus"
+              value={termFilter}
+              onChange={(event) => setTermFilter(event.target.value)}
+              placeholder="Filter terms"
+              aria-label={`Filter ${facet.title} terms`}
+            />
+          )}
+          <ul>
+            {visibleTerms.map((term) => {
+              const key = facetTermKey(term);
+              const id = facetTermId(facet.field, key);
+              const selected = findTermParameter(parameters, facet.field, key);
+              const isNegative = Boolean(selected?.isNegative);
+
+              return (
+                <li key={key} className="flex items-center gap-1">
+                  <input
+                    type="checkbox"
+                    id={`${id}-input`}
+                    checked={Boolean(selected) && !isNegative}
+                    onChange={() => onTermChange(key, false)}
+                  />
+                  <label
+                    id={id}
+                    htmlFor={`${id}-input`}
+                    className={`flex grow cursor-pointer justify-between gap-1 ${
+                      isNegative ? "line-through" : ""
+                    }`}
+                  >
+                    <span className="break-all">{key}</span>
+                    <span className="text-gray-500">{term.doc_count}</span>
+                  </label>
+                  <button
+                    type="button"
+                    onClick={() => onTermChange(key, true)}
+                    aria-label={`Exclude ${key} from ${facet.title}`}
+                    aria-pressed={isNegative}
+                  >
+                    <MinusCircleIcon
+                      className={`h-4 w-4 ${
+                        isNegative ? "fill-red-600" : "fill-gray-400"
+                      }`}
+                    />
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </section>
+  );
+}
+
+type FacetProps = {
+  facet: SearchResultsFacet;
+  parameters: QueryParameter[];
+  onTermChange: (term: string, isNegative: boolean) => void;
+  onExistenceChange: (existence: FacetExistence) => void;
+};
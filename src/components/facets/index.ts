@@ -0,0 +1,4 @@
+import { Facet } from "@/components/facets/facet";
+import { FacetSection } from "@/components/facets/facet-section";
+
+export { Facet, FacetSection };
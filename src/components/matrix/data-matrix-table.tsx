@@ -0,0 +1,225 @@
+// node_modules
+import Link from "next/link";
+// lib
+import {
+  matrixCellQuery,
+  type DataMatrix,
+  type MatrixAxes,
+  type MatrixField,
+  type MatrixGroup,
+} from "@/lib/matrix";
+
+/**
+ * Tailwind CSS classes for the backgrounds of matrix cells, from the fewest items to the most.
+ * Keep these as literal strings so that Tailwind CSS generates them.
+ */
+const CELL_SHADES = [
+  "bg-sky-100 text-black dark:bg-sky-950 dark:text-white",
+  "bg-sky-200 text-black dark:bg-sky-900 dark:text-white",
+  "bg-sky-300 text-black dark:bg-sky-800 dark:text-white",
+  "bg-sky-500 text-white dark:bg-sky-700 dark:text-white",
+  "bg-sky-700 text-white dark:bg-sky-600 dark:text-white",
+];
+
+/**
+ * Get the Tailwind CSS classes to shade a matrix cell by its count relative to the largest count
+ * in the matrix.
+ * @param {number} count Number of items in the cell
+ * @param {number} maxCount Largest number of items in any cell of the matrix
+ * @returns {string} Tailwind CSS classes for the cell's background
+ */
+function cellShade(count: number, maxCount: number): string {
+  const index = Math.ceil((count / maxCount) * CELL_SHADES.length) - 1;
+  return CELL_SHADES[Math.max(0, Math.min(index, CELL_SHADES.length - 1))];
+}
+
+/**
+ * Get the title of a group of rows or columns. Terms that no group holds go in a group with an
+ * empty term.
+ * @param {MatrixGroup} group Group to get the title of
+ * @param {MatrixField} [groupField] Facet field that groups the axis
+ * @returns {string} Title of the group
+ */
+function groupTitle(group: MatrixGroup, groupField?: MatrixField): string {
+  return group.term || `No ${groupField?.title || "group"}`;
+}
+
+/**
+ * Display the data matrix as a table, with the terms of one facet field as rows and the terms of
+ * another as columns. Each cell links to the search for the items with its row and column terms,
+ * and gets shaded by its count so that dense and empty areas stand out. Row headers and column
+ * headers link to the search for the items with their term. Grouped rows appear under a header
+ * row for each group, and grouped columns under a header cell spanning the columns of each group.
+ * @param {DataMatrix} matrix Counts of the matrix with its grouped rows and columns
+ * @param {MatrixAxes} axes Facet fields of the rows and columns, and of their groups
+ * @param {MatrixField[]} fields Facet fields of the search, for their titles
+ * @param {string} searchQuery Search query of the matrix that the links filter further
+ */
+export function DataMatrixTable({
+  matrix,
+  axes,
+  fields,
+  searchQuery,
+}: DataMatrixTableProps) {
+  const findField = (field: string) =>
+    fields.find((matrixField) => matrixField.field === field);
+  const rowGroupField = findField(axes.rowGroupField);
+  const columnGroupField = findField(axes.columnGroupField);
+  const columns = matrix.columnGroups.flatMap((group) =>
+    group.headers.map((header) => ({ group: group.term, ...header }))
+  );
+  const maxCount = Math.max(
+    1,
+    ...Object.values(matrix.counts).flatMap((row) => Object.values(row))
+  );
+
+  return (
+    <div className="overflow-x-auto" data-testid="data-matrix">
+      <table className="border-collapse text-sm">
+        <thead>
+          {axes.columnGroupField && (
+            <tr>
+              <th className="bg-panel" />
+              {matrix.columnGroups.map((group) => (
+                <th
+                  key={group.term}
+                  colSpan={group.headers.length}
+                  className="border border-panel bg-panel px-1 py-0.5 text-left font-semibold"
+                >
+                  {groupTitle(group, columnGroupField)}
+                </th>
+              ))}
+            </tr>
+          )}
+          <tr>
+            <th className="border border-panel bg-panel px-1 py-0.5 text-left align-bottom font-semibold">
+              {findField(axes.rowField)?.title} /{" "}
+              {findField(axes.columnField)?.title}
+            </th>
+            {columns.map((column) => (
+              <th
+                key={`${column.group}-${column.term}`}
+                className="border border-panel bg-panel px-1 py-0.5 align-bottom font-normal"
+              >
+                <Link
+                  href={`/search/?${matrixCellQuery(searchQuery, [
+                    [axes.columnField, column.term],
+                  ])}`}
+                  className="block max-h-48 whitespace-nowrap [writing-mode:vertical-rl] rotate-180"
+                >
+                  {column.term}
+                </Link>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {matrix.rowGroups.map((group) => (
+            <RowGroup
+              key={group.term}
+              group={group}
+              groupField={axes.rowGroupField ? rowGroupField : undefined}
+              columns={columns}
+              matrix={matrix}
+              axes={axes}
+              maxCount={maxCount}
+              searchQuery={searchQuery}
+            />
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+type DataMatrixTableProps = {
+  matrix: DataMatrix;
+  axes: MatrixAxes;
+  fields: MatrixField[];
+  searchQuery: string;
+};
+
+/**
+ * Display the rows of one row group of the data matrix, under a header row with the group's title
+ * if the matrix groups its rows.
+ * @param {MatrixGroup} group Group of rows to display
+ * @param {MatrixField} [groupField] Facet field that groups the rows; undefined if not grouped
+ * @param {Array<{term: string}>} columns Columns of the matrix in display order
+ * @param {DataMatrix} matrix Counts of the matrix
+ * @param {MatrixAxes} axes Facet fields of the rows and columns
+ * @param {number} maxCount Largest number of items in any cell of the matrix
+ * @param {string} searchQuery Search query of the matrix that the links filter further
+ */
+function RowGroup({
+  group,
+  groupField,
+  columns,
+  matrix,
+  axes,
+  maxCount,
+  searchQuery,
+}: RowGroupProps) {
+  return (
+    <>
+      {groupField && (
+        <tr>
+          <th
+            colSpan={columns.length + 1}
+            className="border border-panel bg-panel px-1 py-0.5 text-left font-semibold"
+          >
+            {groupTitle(group, groupField)}
+          </th>
+        </tr>
+      )}
+      {group.headers.map((row) => (
+        <tr key={row.term}>
+          <th className="whitespace-nowrap border border-panel px-1 py-0.5 text-left font-normal">
+            <Link
+              href={`/search/?${matrixCellQuery(searchQuery, [
+                [axes.rowField, row.term],
+              ])}`}
+            >
+              {row.term}
+            </Link>
+          </th>
+          {columns.map((column) => {
+            const count = matrix.counts[row.term]?.[column.term] || 0;
+            return (
+              <td
+                key={`${column.group}-${column.term}`}
+                className="border border-panel p-0 text-center"
+              >
+                {count > 0 && (
+                  <Link
+                    href={`/search/?${matrixCellQuery(searchQuery, [
+                      [axes.rowField, row.term],
+                      [axes.columnField, column.term],
+                    ])}`}
+                    className={`block min-w-[2rem] px-1 py-0.5 no-underline ${cellShade(
+                      count,
+                      maxCount
+                    )}`}
+                    aria-label={`${count} items with ${row.term} and ${column.term}`}
+                    data-testid="data-matrix-cell"
+                  >
+                    {count}
+                  </Link>
+                )}
+              </td>
+            );
+          })}
+        </tr>
+      ))}
+    </>
+  );
+}
+
+type RowGroupProps = {
+  group: MatrixGroup;
+  groupField?: MatrixField;
+  columns: { group: string; term: string }[];
+  matrix: DataMatrix;
+  axes: MatrixAxes;
+  maxCount: number;
+  searchQuery: string;
+};
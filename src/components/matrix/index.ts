@@ -0,0 +1,4 @@
+import { DataMatrixTable } from "@/components/matrix/data-matrix-table";
+import { MatrixAxisSelector } from "@/components/matrix/matrix-axis-selector";
+
+export { DataMatrixTable, MatrixAxisSelector };
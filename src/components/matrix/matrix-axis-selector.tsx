@@ -0,0 +1,118 @@
+"use client";
+
+// node_modules
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+// lib
+import {
+  queryWithMatrixAxes,
+  type MatrixAxes,
+  type MatrixField,
+} from "@/lib/matrix";
+
+/**
+ * Tailwind CSS classes for the selects of the axis selector.
+ */
+const selectClasses =
+  "rounded border border-form-element bg-form-element px-1.5 text-sm text-form-element form-element-height-sm";
+
+/**
+ * Display a labeled select of the facet fields for one axis of the matrix.
+ * @param {string} label Label of the select
+ * @param {string} value Currently selected field; empty for none
+ * @param {MatrixField[]} fields Fields to choose from
+ * @param {boolean} hasNone True to offer no field, for the group selects
+ * @param {function} onChange Called with the newly selected field
+ */
+function AxisSelect({
+  label,
+  value,
+  fields,
+  hasNone = false,
+  onChange,
+}: AxisSelectProps) {
+  return (
+    <label className="flex items-center gap-1 text-sm font-semibold">
+      {label}
+      <select
+        className={selectClasses}
+        value={value}
+        onChange={(event) => onChange(event.target.value)}
+      >
+        {hasNone && <option value="">None</option>}
+        {fields.map((field) => (
+          <option key={field.field} value={field.field}>
+            {field.title}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+type AxisSelectProps = {
+  label: string;
+  value: string;
+  fields: MatrixField[];
+  hasNone?: boolean;
+  onChange: (field: string) => void;
+};
+
+/**
+ * Display selects to choose the facet fields of the rows and columns of the data matrix, and the
+ * fields that group them. Choosing a field loads the matrix with the new axes in its query string,
+ * so copying the URL shares the matrix as the user sees it.
+ * @param {MatrixAxes} axes Axes the matrix currently displays
+ * @param {MatrixField[]} fields Facet fields users can choose for the axes
+ */
+export function MatrixAxisSelector({ axes, fields }: MatrixAxisSelectorProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  function onAxisChange(axis: keyof MatrixAxes, field: string) {
+    const query = queryWithMatrixAxes(searchParams.toString(), {
+      ...axes,
+      [axis]: field,
+    });
+    router.push(`${pathname}?${query}`);
+  }
+
+  return (
+    <div
+      className="flex flex-wrap items-center gap-2"
+      data-testid="matrix-axis-selector"
+    >
+      <AxisSelect
+        label="Rows"
+        value={axes.rowField}
+        fields={fields}
+        onChange={(field) => onAxisChange("rowField", field)}
+      />
+      <AxisSelect
+        label="Row groups"
+        value={axes.rowGroupField}
+        fields={fields}
+        hasNone
+        onChange={(field) => onAxisChange("rowGroupField", field)}
+      />
+      <AxisSelect
+        label="Columns"
+        value={axes.columnField}
+        fields={fields}
+        onChange={(field) => onAxisChange("columnField", field)}
+      />
+      <AxisSelect
+        label="Column groups"
+        value={axes.columnGroupField}
+        fields={fields}
+        hasNone
+        onChange={(field) => onAxisChange("columnGroupField", field)}
+      />
+    </div>
+  );
+}
+
+type MatrixAxisSelectorProps = {
+  axes: MatrixAxes;
+  fields: MatrixField[];
+};
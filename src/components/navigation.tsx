@@ -30,6 +30,7 @@ import { GlobalContext } from "@/context/global";
 import { Icon } from "@/components/icon";
 import { SiteLogo } from "@/components/logo";
 import { Modal } from "@/components/modal";
+import { IdSearchTrigger, SiteSearchTrigger } from "@/components/site-search";
 // context
 import { useSessionContext } from "@/context/session";
 // lib
@@ -614,6 +615,10 @@ function NavigationExpanded({
           isNavCollapsed={false}
         />
       )}
+      <div className="flex gap-1 px-4 pt-4">
+        <SiteSearchTrigger />
+        <IdSearchTrigger />
+      </div>
       <NavigationList className="p-4">
         <NavigationGroupItem
           id="data"
@@ -646,6 +651,22 @@ function NavigationExpanded({
           >
             Files
           </NavigationHrefItem>
+          <NavigationHrefItem
+            id="data-matrix"
+            href="/matrix"
+            navigationClick={navigationClick}
+            isChildItem
+          >
+            Data Matrix
+          </NavigationHrefItem>
+          <NavigationHrefItem
+            id="saved-searches"
+            href="/saved-searches"
+            navigationClick={navigationClick}
+            isChildItem
+          >
+            Saved Searches
+          </NavigationHrefItem>
         </NavigationGroupItem>
 
         <NavigationGroupItem
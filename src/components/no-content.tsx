@@ -0,0 +1,35 @@
+"use client";
+
+// node_modules
+import { useAuth0 } from "@auth0/auth0-react";
+
+/**
+ * Display a message in place of content that has nothing to show, like a search with no results.
+ * Signed-out users might see nothing only because they can't view unreleased items, so for them
+ * also suggest signing in.
+ * @param {string} message Message explaining that nothing matched
+ * @param {string} [signInContent] Describes what signing in might reveal, e.g. "list items";
+ *   omit to never suggest signing in
+ */
+export function NoContent({ message, signInContent = "" }: NoContentProps) {
+  const { isAuthenticated, isLoading } = useAuth0();
+
+  return (
+    <div
+      className="my-4 rounded border border-panel bg-panel p-4 text-center"
+      data-testid="no-content"
+    >
+      <div className="text-lg font-semibold">{message}</div>
+      {signInContent && !isLoading && !isAuthenticated && (
+        <div className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+          Please sign in if you believe you should see {signInContent}
+        </div>
+      )}
+    </div>
+  );
+}
+
+type NoContentProps = {
+  message: string;
+  signInContent?: string;
+};
@@ -0,0 +1,156 @@
+"use client";
+
+// node_modules
+import { TableCellsIcon } from "@heroicons/react/20/solid";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { useState } from "react";
+// components
+import { Button } from "@/components/form-elements";
+import { Modal } from "@/components/modal";
+// lib
+import {
+  ID_COLUMN,
+  MAX_VISIBLE_COLUMNS,
+  queryWithColumns,
+  type ReportColumn,
+} from "@/lib/report";
+
+/**
+ * Display the number of visible columns, and the maximum number of columns if the report has
+ * more columns available than it can show.
+ * @param {number} visibleCount Number of columns the report shows
+ * @param {number} availableCount Number of columns the report could show
+ */
+function VisibleColumnCount({
+  visibleCount,
+  availableCount,
+}: VisibleColumnCountProps) {
+  return (
+    <div className="text-sm" data-testid="visible-column-count">
+      {visibleCount} columns shown
+      {availableCount > MAX_VISIBLE_COLUMNS &&
+        ` of ${MAX_VISIBLE_COLUMNS} maximum`}
+    </div>
+  );
+}
+
+type VisibleColumnCountProps = {
+  visibleCount: number;
+  availableCount: number;
+};
+
+/**
+ * Display a button that opens a modal to choose the columns of a report. Each change navigates to
+ * the report with new `field=` query-string parameters, so the URL always reflects the visible
+ * columns. Reports can show at most `MAX_VISIBLE_COLUMNS` columns; once the report shows that
+ * many, the modal disables the checkboxes of hidden columns.
+ * @param {ReportColumn[]} columns All columns the report can show
+ * @param {string[]} visibleColumnIds IDs of the columns the report shows
+ * @param {string[]} defaultColumnIds IDs of the columns the report shows by default
+ */
+export function ColumnSelector({
+  columns,
+  visibleColumnIds,
+  defaultColumnIds,
+}: ColumnSelectorProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const isAtMaximum = visibleColumnIds.length >= MAX_VISIBLE_COLUMNS;
+
+  function showColumns(columnIds: string[]) {
+    const query = queryWithColumns(
+      searchParams.toString(),
+      columnIds,
+      defaultColumnIds
+    );
+    router.push(`${pathname}?${query}`);
+  }
+
+  function toggleColumn(columnId: string) {
+    showColumns(
+      visibleColumnIds.includes(columnId)
+        ? visibleColumnIds.filter((id) => id !== columnId)
+        : [...visibleColumnIds, columnId]
+    );
+  }
+
+  return (
+    <>
+      <Button onClick={() => setIsOpen(true)} size="sm" type="secondary">
+        <TableCellsIcon />
+        Columns
+      </Button>
+      <Modal isOpen={isOpen} onClose={() => setIsOpen(false)}>
+        <Modal.Header onClose={() => setIsOpen(false)}>
+          Show and Hide Columns
+        </Modal.Header>
+        <Modal.Body>
+          <div className="mb-2 flex flex-wrap items-center gap-1">
+            <Button
+              onClick={() =>
+                showColumns(
+                  columns
+                    .slice(0, MAX_VISIBLE_COLUMNS)
+                    .map((column) => column.id)
+                )
+              }
+              size="sm"
+            >
+              Show All
+            </Button>
+            <Button onClick={() => showColumns([ID_COLUMN])} size="sm">
+              Hide All
+            </Button>
+            <Button
+              onClick={() => showColumns(defaultColumnIds)}
+              size="sm"
+              type="secondary"
+            >
+              Reset Defaults
+            </Button>
+            <div className="grow" />
+            <VisibleColumnCount
+              visibleCount={visibleColumnIds.length}
+              availableCount={columns.length}
+            />
+          </div>
+          <fieldset
+            className="grid gap-x-4 gap-y-1 text-sm md:grid-cols-2 lg:grid-cols-3"
+            data-testid="column-checkboxes"
+          >
+            <legend className="sr-only">Visible columns</legend>
+            {columns.map((column) => {
+              const isVisible = visibleColumnIds.includes(column.id);
+              return (
+                <label key={column.id} className="flex items-center gap-1">
+                  <input
+                    type="checkbox"
+                    checked={isVisible}
+                    onChange={() => toggleColumn(column.id)}
+                    disabled={
+                      column.id === ID_COLUMN || (!isVisible && isAtMaximum)
+                    }
+                    aria-label={column.id}
+                  />
+                  {column.title}
+                </label>
+              );
+            })}
+          </fieldset>
+        </Modal.Body>
+        <Modal.Footer>
+          <Button onClick={() => setIsOpen(false)}>Close</Button>
+        </Modal.Footer>
+      </Modal>
+    </>
+  );
+}
+
+type ColumnSelectorProps = {
+  columns: ReportColumn[];
+  visibleColumnIds: string[];
+  defaultColumnIds: string[];
+};
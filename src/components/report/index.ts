@@ -0,0 +1,5 @@
+import { ColumnSelector } from "@/components/report/column-selector";
+import { ReportExportButtons } from "@/components/report/report-export-buttons";
+import { ReportGrid } from "@/components/report/report-grid";
+
+export { ColumnSelector, ReportExportButtons, ReportGrid };
@@ -0,0 +1,64 @@
+"use client";
+
+// node_modules
+import { ArrowDownTrayIcon } from "@heroicons/react/20/solid";
+import { useSearchParams } from "next/navigation";
+// components
+import { AttachedButtons, Button } from "@/components/form-elements";
+// lib
+import { MAX_RESULT_WINDOW } from "@/lib/fetch-request";
+import { exportUrl, type ExportFormat } from "@/lib/report-export";
+
+/**
+ * Display buttons to download every item of the report as tab- or comma-separated text, not just
+ * the current page. The export has the report's filters, sorting, and columns. The export route
+ * responds with an attachment, so the browser downloads it without leaving the report. The data
+ * provider can only sort the first `MAX_RESULT_WINDOW` items, so larger exports come in UUID order
+ * instead, and a note tells the user so.
+ * @param {number} total Number of items the report matches
+ */
+export function ReportExportButtons({ total }: ReportExportButtonsProps) {
+  const searchParams = useSearchParams();
+
+  function download(format: ExportFormat) {
+    window.location.assign(exportUrl(searchParams.toString(), format));
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <AttachedButtons testid="report-export">
+        <Button
+          onClick={() => download("tsv")}
+          label="Download the report as tab-separated text"
+          type="secondary"
+          size="sm"
+        >
+          <ArrowDownTrayIcon />
+          TSV
+        </Button>
+        <Button
+          onClick={() => download("csv")}
+          label="Download the report as comma-separated text"
+          type="secondary"
+          size="sm"
+        >
+          <ArrowDownTrayIcon />
+          CSV
+        </Button>
+      </AttachedButtons>
+      {total > MAX_RESULT_WINDOW && (
+        <p
+          className="text-xs text-gray-500 dark:text-gray-400"
+          data-testid="report-export-order-note"
+        >
+          Downloads of more than {MAX_RESULT_WINDOW.toLocaleString("en-US")}{" "}
+          items ignore the sort order
+        </p>
+      )}
+    </div>
+  );
+}
+
+type ReportExportButtonsProps = {
+  total: number;
+};
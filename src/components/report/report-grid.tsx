@@ -0,0 +1,121 @@
+"use client";
+
+// node_modules
+import Link from "next/link";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+// components
+import {
+  SortableGrid,
+  type DisplayComponentProp,
+  type SortableGridColumn,
+  type SortDirection,
+} from "@/components/sortable-grid";
+// lib
+import {
+  ID_COLUMN,
+  queryWithPage,
+  queryWithSort,
+  reportCellValue,
+  reportSort,
+  type ReportColumn,
+} from "@/lib/report";
+// root
+import type {
+  DatabaseObject,
+  SearchResultsObject,
+  SearchResultsSort,
+} from "@/globals.d";
+
+/**
+ * Display the `@id` of a report row as a link to its item.
+ */
+function IdCell({ source }: DisplayComponentProp) {
+  return <Link href={source["@id"]}>{source["@id"]}</Link>;
+}
+
+/**
+ * Convert report columns to sortable-grid columns. The `@id` column links to each item, and the
+ * others display the values of their properties as text.
+ * @param {ReportColumn[]} columns Columns of the report in display order
+ * @returns {SortableGridColumn[]} Column configurations for `SortableGrid`
+ */
+function reportGridColumns(columns: ReportColumn[]): SortableGridColumn[] {
+  return columns.map((column) =>
+    column.id === ID_COLUMN
+      ? { id: column.id, title: column.title, display: IdCell }
+      : {
+          id: column.id,
+          title: column.title,
+          value: (item: DatabaseObject) => reportCellValue(item, column.id),
+        }
+  );
+}
+
+/**
+ * Display one page of search results as a table with one column per selected property. The server
+ * sorts and pages the results, so clicking a column header loads the report with a new `sort=`
+ * parameter, and selecting a page loads it with a new `from=` parameter.
+ * @param {SearchResultsObject[]} items Search-result items of the current page
+ * @param {ReportColumn[]} columns Columns to display in order
+ * @param {number} total Total number of search results across all pages
+ * @param {number} limit Number of search results per page
+ * @param {SearchResultsSort} [sort] Sorting of the search results from the server
+ * @param {string[]} [nonSortable] Columns the server can't sort by
+ */
+export function ReportGrid({
+  items,
+  columns,
+  total,
+  limit,
+  sort,
+  nonSortable = [],
+}: ReportGridProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  const { columnId, direction } = reportSort(sort);
+  const from = Number(searchParams.get("from")) || 0;
+
+  function onSortChange(sortColumnId: string, sortDirection: SortDirection) {
+    const query = queryWithSort(
+      searchParams.toString(),
+      sortColumnId,
+      sortDirection
+    );
+    router.push(`${pathname}?${query}`);
+  }
+
+  function onPageChange(pageIndex: number) {
+    const query = queryWithPage(searchParams.toString(), pageIndex, limit);
+    router.push(`${pathname}?${query}`);
+  }
+
+  return (
+    <SortableGrid
+      data={items as DatabaseObject[]}
+      columns={reportGridColumns(columns)}
+      keyProp="@id"
+      serverConfig={{
+        total,
+        currentPageIndex: Math.floor(from / limit),
+        maxItemsPerPage: limit,
+        sortBy: columnId,
+        sortDirection: direction,
+        nonSortable,
+        onSortChange,
+        onPageChange,
+      }}
+      isTotalCountHidden
+    />
+  );
+}
+
+type ReportGridProps = {
+  items: SearchResultsObject[];
+  columns: ReportColumn[];
+  total: number;
+  limit: number;
+  sort?: SearchResultsSort;
+  nonSortable?: string[];
+};
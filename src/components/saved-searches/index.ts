@@ -0,0 +1,13 @@
+import { SaveSearchButton } from "@/components/saved-searches/save-search-button";
+import {
+  RecentSearchList,
+  SavedSearchList,
+} from "@/components/saved-searches/saved-search-list";
+import { SearchVisitRecorder } from "@/components/saved-searches/search-visit-recorder";
+
+export {
+  RecentSearchList,
+  SavedSearchList,
+  SaveSearchButton,
+  SearchVisitRecorder,
+};
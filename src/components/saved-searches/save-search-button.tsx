@@ -0,0 +1,120 @@
+"use client";
+
+// node_modules
+import { BookmarkIcon } from "@heroicons/react/20/solid";
+import { useState } from "react";
+// components
+import { Button } from "@/components/form-elements";
+import { Modal } from "@/components/modal";
+// lib
+import { findSavedSearch, type SearchPath } from "@/lib/saved-searches";
+// context
+import { useSearchHistoryContext } from "@/context/search-history";
+
+/**
+ * Display a button that opens a modal to save the current search under a name. Saved searches
+ * keep the whole query string, so saving a report also saves its columns. Saving a search that
+ * the user already saved renames it. The modal stays open with the error if the search couldn't
+ * get stored.
+ * @param {string} title Title of the search page; the default name of the saved search
+ * @param {SearchPath} path Page that displays the search results
+ * @param {string} query Query string of the search
+ * @param {number} count Number of results the search has now
+ */
+export function SaveSearchButton({
+  title,
+  path,
+  query,
+  count,
+}: SaveSearchButtonProps) {
+  const { savedSearches, saveSearch, isLoaded } = useSearchHistoryContext();
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState("");
+  const savedSearch = findSavedSearch(savedSearches, path, query);
+  const trimmedName = name.trim();
+
+  function openModal() {
+    setName(savedSearch?.name || title);
+    setSaveError("");
+    setIsOpen(true);
+  }
+
+  async function onSubmit(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (trimmedName) {
+      setIsSaving(true);
+      const response = await saveSearch(trimmedName, path, query, count);
+      setIsSaving(false);
+      if (response.isErr()) {
+        setSaveError(response.unwrap_err().detail);
+      } else {
+        setIsOpen(false);
+      }
+    }
+  }
+
+  return (
+    <>
+      <Button
+        onClick={openModal}
+        id="save-search"
+        type={savedSearch ? "selected" : "secondary"}
+        size="sm"
+        isDisabled={!isLoaded}
+      >
+        <BookmarkIcon />
+        {savedSearch ? "Saved" : "Save Search"}
+      </Button>
+      <Modal isOpen={isOpen} onClose={() => setIsOpen(false)}>
+        <Modal.Header onClose={() => setIsOpen(false)}>
+          {savedSearch ? "Rename Saved Search" : "Save Search"}
+        </Modal.Header>
+        <form onSubmit={onSubmit}>
+          <Modal.Body>
+            <label
+              className="block text-sm font-semibold"
+              htmlFor="saved-search-name"
+            >
+              Name
+            </label>
+            <input
+              id="saved-search-name"
+              className="mt-1 block w-full rounded border border-form-element bg-form-element px-1.5 text-form-element form-element-height-md"
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+              data-testid="saved-search-name"
+              autoFocus
+            />
+            {saveError && (
+              <p
+                className="mt-2 text-sm text-red-600 dark:text-red-400"
+                role="alert"
+                data-testid="save-search-error"
+              >
+                Couldn&apos;t save the search: {saveError}
+              </p>
+            )}
+          </Modal.Body>
+          <Modal.Footer>
+            <button
+              type="submit"
+              className="rounded border border-button-primary bg-button-primary px-2 py-1 text-sm text-button-primary disabled:border-button-primary-disabled disabled:bg-button-primary-disabled"
+              disabled={!trimmedName || isSaving}
+            >
+              Save
+            </button>
+          </Modal.Footer>
+        </form>
+      </Modal>
+    </>
+  );
+}
+
+type SaveSearchButtonProps = {
+  title: string;
+  path: SearchPath;
+  query: string;
+  count: number;
+};
@@ -0,0 +1,232 @@
+"use client";
+
+// node_modules
+import { CheckIcon, LinkIcon, TrashIcon } from "@heroicons/react/20/solid";
+import Link from "next/link";
+import { useEffect, useState } from "react";
+// components
+import { Button } from "@/components/form-elements";
+import { NoContent } from "@/components/no-content";
+// lib
+import { formatDateTime } from "@/lib/dates";
+import { FetchRequest, type ErrorObject } from "@/lib/fetch-request";
+import {
+  getSearchCount,
+  searchPathTitle,
+  searchUrl,
+  type SavedSearch,
+} from "@/lib/saved-searches";
+// context
+import { useSearchHistoryContext } from "@/context/search-history";
+import { useSessionContext } from "@/context/session";
+
+/**
+ * Display the number of results a saved search has now, and how many it gained or lost since the
+ * user last ran it.
+ * @param {number} [count] Number of results the search has now; not yet known if undefined
+ * @param {number} previousCount Number of results the search had when the user last ran it
+ */
+function CountDelta({ count, previousCount }: CountDeltaProps) {
+  if (count === undefined) {
+    return null;
+  }
+  const delta = count - previousCount;
+
+  return (
+    <div
+      className="shrink-0 text-right text-sm"
+      data-testid="saved-search-count"
+    >
+      <div>{count} results</div>
+      <div
+        className={
+          delta === 0
+            ? "text-gray-500 dark:text-gray-400"
+            : "font-semibold text-green-700 dark:text-green-400"
+        }
+      >
+        {delta === 0
+          ? "No change since last visit"
+          : `${delta > 0 ? "+" : ""}${delta} since last visit`}
+      </div>
+    </div>
+  );
+}
+
+type CountDeltaProps = {
+  count?: number;
+  previousCount: number;
+};
+
+/**
+ * Display a button that copies the full URL of a saved search to the clipboard so that the user
+ * can share it. The URL holds the whole query, including a report's columns, so anyone with the
+ * link sees the same results they have permission to view.
+ * @param {SavedSearch} search Saved search to copy the URL of
+ */
+function ShareButton({ search }: ShareButtonProps) {
+  const [isCopied, setIsCopied] = useState(false);
+
+  function copyLink() {
+    navigator.clipboard
+      .writeText(`${window.location.origin}${searchUrl(search)}`)
+      .then(() => setIsCopied(true));
+  }
+
+  return (
+    <Button
+      onClick={copyLink}
+      label={`Copy link to ${search.name}`}
+      type="secondary"
+      size="sm"
+      hasIconOnly
+    >
+      {isCopied ? <CheckIcon /> : <LinkIcon />}
+    </Button>
+  );
+}
+
+type ShareButtonProps = {
+  search: SavedSearch;
+};
+
+/**
+ * Display the error from loading the user's searches from igvfd, or from the last failed attempt
+ * to store them. A change that failed has already been undone, so the lists show what igvfd has
+ * stored.
+ * @param {ErrorObject | null} error Error from igvfd; null to display nothing
+ * @param {boolean} isLoaded True if the searches loaded, so the error came from storing them
+ */
+function StoreError({ error, isLoaded }: StoreErrorProps) {
+  if (!error) {
+    return null;
+  }
+
+  return (
+    <p
+      className="mb-2 text-sm text-red-600 dark:text-red-400"
+      role="alert"
+      data-testid="saved-search-store-error"
+    >
+      {isLoaded
+        ? "Your last change to your searches couldn't be saved"
+        : "Your searches couldn't be loaded"}
+      : {error.detail}
+    </p>
+  );
+}
+
+type StoreErrorProps = {
+  error: ErrorObject | null;
+  isLoaded: boolean;
+};
+
+/**
+ * Display the user's saved searches with links to rerun them. Each saved search shows how many
+ * results it gained or lost since the user last ran it, so that curators can see at a glance
+ * which of their regular searches have new data.
+ */
+export function SavedSearchList() {
+  const { session } = useSessionContext();
+  const { savedSearches, removeSavedSearch, storeError, isLoaded } =
+    useSearchHistoryContext();
+  // Current number of results of each saved search, keyed by saved-search ID
+  const [counts, setCounts] = useState<Record<string, number>>({});
+  const savedSearchIds = savedSearches.map((search) => search.id).join();
+
+  useEffect(() => {
+    const request = new FetchRequest({ session });
+    Promise.all(
+      savedSearches.map(async (search) => {
+        const response = await getSearchCount(
+          request,
+          search.path,
+          search.query
+        );
+        return [search.id, response.unwrap_or(search.count)] as const;
+      })
+    ).then((entries) => setCounts(Object.fromEntries(entries)));
+  }, [savedSearchIds, session]);
+
+  if (!isLoaded) {
+    return <StoreError error={storeError} isLoaded={false} />;
+  }
+  if (savedSearches.length === 0) {
+    return <NoContent message="No saved searches to display" />;
+  }
+
+  return (
+    <>
+      <StoreError error={storeError} isLoaded />
+      <ul
+        className="divide-y divide-panel rounded border border-panel"
+        data-testid="saved-search-list"
+      >
+        {savedSearches.map((search) => (
+          <li
+            key={search.id}
+            className="flex items-center gap-2 p-2"
+            data-testid={`saved-search-${search.id}`}
+          >
+            <div className="min-w-0 grow">
+              <Link href={searchUrl(search)} className="font-semibold">
+                {search.name}
+              </Link>
+              <div className="text-sm text-gray-500 dark:text-gray-400">
+                {searchPathTitle(search.path)} saved{" "}
+                {formatDateTime(search.savedAt)}
+              </div>
+            </div>
+            <CountDelta
+              count={counts[search.id]}
+              previousCount={search.count}
+            />
+            <ShareButton search={search} />
+            <Button
+              onClick={() => removeSavedSearch(search.id)}
+              label={`Remove saved search ${search.name}`}
+              type="warning"
+              size="sm"
+              hasIconOnly
+            >
+              <TrashIcon />
+            </Button>
+          </li>
+        ))}
+      </ul>
+    </>
+  );
+}
+
+/**
+ * Display the searches the user recently ran, newest first, with links to run them again.
+ */
+export function RecentSearchList() {
+  const { recentSearches, storeError, isLoaded } = useSearchHistoryContext();
+
+  if (!isLoaded) {
+    return <StoreError error={storeError} isLoaded={false} />;
+  }
+  if (recentSearches.length === 0) {
+    return <NoContent message="No recent searches to display" />;
+  }
+
+  return (
+    <ul
+      className="divide-y divide-panel rounded border border-panel"
+      data-testid="recent-search-list"
+    >
+      {recentSearches.map((search) => (
+        <li key={searchUrl(search)} className="p-2">
+          <Link href={searchUrl(search)} className="font-semibold">
+            {search.title}
+          </Link>
+          <div className="text-sm text-gray-500 dark:text-gray-400">
+            {searchPathTitle(search.path)} run{" "}
+            {formatDateTime(search.visitedAt)}
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,47 @@
+"use client";
+
+// node_modules
+import { useEffect } from "react";
+// lib
+import { findSavedSearch, type SearchPath } from "@/lib/saved-searches";
+// context
+import { useSearchHistoryContext } from "@/context/search-history";
+
+/**
+ * Record that the user viewed a search once their search history has loaded. The search goes to
+ * the front of the recent searches, and if the user saved it, its result count becomes the count
+ * that later visits compare against. This renders nothing; place it on pages that display search
+ * results.
+ * @param {string} title Human-readable description of the search
+ * @param {SearchPath} path Page that displays the search results
+ * @param {string} query Query string of the search
+ * @param {number} count Number of results the search has now
+ */
+export function SearchVisitRecorder({
+  title,
+  path,
+  query,
+  count,
+}: SearchVisitRecorderProps) {
+  const { savedSearches, addRecentSearch, visitSavedSearch, isLoaded } =
+    useSearchHistoryContext();
+
+  useEffect(() => {
+    if (isLoaded) {
+      addRecentSearch(title, path, query);
+      const savedSearch = findSavedSearch(savedSearches, path, query);
+      if (savedSearch) {
+        visitSavedSearch(savedSearch.id, count);
+      }
+    }
+  }, [isLoaded, title, path, query, count]);
+
+  return null;
+}
+
+type SearchVisitRecorderProps = {
+  title: string;
+  path: SearchPath;
+  query: string;
+  count: number;
+};
@@ -0,0 +1,403 @@
+"use client";
+
+// node_modules
+import {
+  ChevronDownIcon,
+  ChevronRightIcon,
+  XMarkIcon,
+} from "@heroicons/react/20/solid";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { useEffect, useState } from "react";
+// components
+import { Button } from "@/components/form-elements";
+// lib
+import {
+  advancedQueryFromQuery,
+  emptyAdvancedQueryGroup,
+  parseAdvancedQuery,
+  queryWithAdvancedQuery,
+  serializeAdvancedQuery,
+  type AdvancedQueryField,
+  type AdvancedQueryGroup,
+  type AdvancedQueryNode,
+  type AdvancedQueryOperator,
+  type AdvancedQueryRange,
+  type AdvancedQueryTerm,
+} from "@/lib/advanced-query";
+
+/**
+ * Tailwind CSS classes for the inputs and selects of the builder.
+ */
+const inputClasses =
+  "rounded border border-form-element bg-form-element px-1.5 text-sm text-form-element form-element-height-sm";
+
+/**
+ * Display a checkbox that negates a condition or group of the advanced query.
+ * @param {boolean} isNegated True if the condition is negated
+ * @param {function} onChange Called with the new negation of the condition
+ */
+function NegationCheckbox({ isNegated, onChange }: NegationCheckboxProps) {
+  return (
+    <label className="flex items-center gap-1 text-sm">
+      <input
+        type="checkbox"
+        checked={isNegated}
+        onChange={() => onChange(!isNegated)}
+      />
+      NOT
+    </label>
+  );
+}
+
+type NegationCheckboxProps = {
+  isNegated: boolean;
+  onChange: (isNegated: boolean) => void;
+};
+
+/**
+ * Display the inputs to edit a single term or range condition: the field it tests, whether it
+ * tests for a value or a range, and the value or range bounds. Fields holding dates get date
+ * inputs for their range bounds.
+ * @param {AdvancedQueryTerm | AdvancedQueryRange} condition Term or range condition to edit
+ * @param {AdvancedQueryField[]} fields Fields users can choose from
+ * @param {function} onChange Called with the edited condition
+ * @param {function} onRemove Called when the user removes the condition
+ */
+function ConditionEditor({
+  condition,
+  fields,
+  onChange,
+  onRemove,
+}: ConditionEditorProps) {
+  const field = fields.find((candidate) => candidate.id === condition.field);
+  const rangeInputType = field?.isDate ? "date" : "text";
+
+  function onKindChange(kind: string) {
+    if (kind === "range" && condition.kind === "term") {
+      onChange({ ...condition, kind: "range", start: "", end: "" });
+    } else if (kind === "term" && condition.kind === "range") {
+      onChange({ ...condition, kind: "term", value: "" });
+    }
+  }
+
+  return (
+    <div
+      className="flex flex-wrap items-center gap-1"
+      data-testid="advanced-query-condition"
+    >
+      <NegationCheckbox
+        isNegated={condition.isNegated}
+        onChange={(isNegated) => onChange({ ...condition, isNegated })}
+      />
+      <select
+        className={inputClasses}
+        value={condition.field}
+        onChange={(event) =>
+          onChange({ ...condition, field: event.target.value })
+        }
+        aria-label="Field"
+      >
+        <option value="">Any field</option>
+        {condition.field && !field && (
+          <option value={condition.field}>{condition.field}</option>
+        )}
+        {fields.map((option) => (
+          <option key={option.id} value={option.id}>
+            {option.title}
+          </option>
+        ))}
+      </select>
+      <select
+        className={inputClasses}
+        value={condition.kind}
+        onChange={(event) => onKindChange(event.target.value)}
+        aria-label="Comparison"
+      >
+        <option value="term">is</option>
+        <option value="range">between</option>
+      </select>
+      {condition.kind === "term" ? (
+        <input
+          className={inputClasses}
+          value={condition.value}
+          onChange={(event) =>
+            onChange({ ...condition, value: event.target.value })
+          }
+          aria-label="Value"
+        />
+      ) : (
+        <>
+          <input
+            type={rangeInputType}
+            className={inputClasses}
+            value={condition.start}
+            onChange={(event) =>
+              onChange({ ...condition, start: event.target.value })
+            }
+            aria-label="Start of range"
+          />
+          <span className="text-sm">and</span>
+          <input
+            type={rangeInputType}
+            className={inputClasses}
+            value={condition.end}
+            onChange={(event) =>
+              onChange({ ...condition, end: event.target.value })
+            }
+            aria-label="End of range"
+          />
+        </>
+      )}
+      <Button
+        onClick={onRemove}
+        label="Remove condition"
+        type="secondary"
+        size="sm"
+        hasIconOnly
+      >
+        <XMarkIcon />
+      </Button>
+    </div>
+  );
+}
+
+type ConditionEditorProps = {
+  condition: AdvancedQueryTerm | AdvancedQueryRange;
+  fields: AdvancedQueryField[];
+  onChange: (condition: AdvancedQueryNode) => void;
+  onRemove: () => void;
+};
+
+/**
+ * Display the editor for a group of conditions combined with AND or OR. Groups can contain other
+ * groups to any depth.
+ * @param {AdvancedQueryGroup} group Group to edit
+ * @param {AdvancedQueryField[]} fields Fields users can choose from
+ * @param {function} onChange Called with the edited group
+ * @param {function} [onRemove] Called when the user removes the group; root group if not given
+ */
+function GroupEditor({ group, fields, onChange, onRemove }: GroupEditorProps) {
+  function onClauseChange(index: number, clause: AdvancedQueryNode) {
+    onChange({
+      ...group,
+      clauses: group.clauses.map((existing, i) =>
+        i === index ? clause : existing
+      ),
+    });
+  }
+
+  function onClauseRemove(index: number) {
+    onChange({
+      ...group,
+      clauses: group.clauses.filter((_, i) => i !== index),
+    });
+  }
+
+  function addClause(clause: AdvancedQueryNode) {
+    onChange({ ...group, clauses: [...group.clauses, clause] });
+  }
+
+  return (
+    <div
+      className="flex flex-col gap-1 rounded border border-panel p-2"
+      data-testid="advanced-query-group"
+    >
+      <div className="flex flex-wrap items-center gap-1">
+        <NegationCheckbox
+          isNegated={group.isNegated}
+          onChange={(isNegated) => onChange({ ...group, isNegated })}
+        />
+        <select
+          className={inputClasses}
+          value={group.operator}
+          onChange={(event) =>
+            onChange({
+              ...group,
+              operator: event.target.value as AdvancedQueryOperator,
+            })
+          }
+          aria-label="Combine conditions with"
+        >
+          <option value="AND">All of (AND)</option>
+          <option value="OR">Any of (OR)</option>
+        </select>
+        <div className="grow" />
+        {onRemove && (
+          <Button
+            onClick={onRemove}
+            label="Remove group"
+            type="secondary"
+            size="sm"
+            hasIconOnly
+          >
+            <XMarkIcon />
+          </Button>
+        )}
+      </div>
+      {group.clauses.map((clause, index) =>
+        clause.kind === "group" ? (
+          <GroupEditor
+            key={index}
+            group={clause}
+            fields={fields}
+            onChange={(edited) => onClauseChange(index, edited)}
+            onRemove={() => onClauseRemove(index)}
+          />
+        ) : (
+          <ConditionEditor
+            key={index}
+            condition={clause}
+            fields={fields}
+            onChange={(edited) => onClauseChange(index, edited)}
+            onRemove={() => onClauseRemove(index)}
+          />
+        )
+      )}
+      <div className="flex gap-1">
+        <Button
+          onClick={() =>
+            addClause({ kind: "term", field: "", value: "", isNegated: false })
+          }
+          type="secondary"
+          size="sm"
+        >
+          Add Condition
+        </Button>
+        <Button
+          onClick={() =>
+            addClause(
+              emptyAdvancedQueryGroup(group.operator === "AND" ? "OR" : "AND")
+            )
+          }
+          type="secondary"
+          size="sm"
+        >
+          Add Group
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+type GroupEditorProps = {
+  group: AdvancedQueryGroup;
+  fields: AdvancedQueryField[];
+  onChange: (group: AdvancedQueryGroup) => void;
+  onRemove?: () => void;
+};
+
+/**
+ * Display a panel on search pages to build the `advancedQuery=` parameter visually, with groups of
+ * conditions combined with AND, OR, and NOT, and date ranges for date fields. The panel also shows
+ * the advanced query as text that users can edit directly; valid edits update the builder, and
+ * invalid ones show the syntax error. Applying the query loads the search with the new
+ * `advancedQuery=` parameter, and the builder loads the parameter from the URL, so the builder and
+ * the URL always agree.
+ * @param {AdvancedQueryField[]} fields Fields of the searched types that users can choose from
+ */
+export function AdvancedQueryBuilder({ fields }: AdvancedQueryBuilderProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const appliedQuery = advancedQueryFromQuery(searchParams.toString());
+
+  const [isOpen, setIsOpen] = useState(Boolean(appliedQuery));
+  // Advanced query as text, and as the tree of conditions the builder edits
+  const [text, setText] = useState(appliedQuery);
+  const [root, setRoot] = useState<AdvancedQueryGroup>(() =>
+    parseAdvancedQuery(appliedQuery).unwrap_or(emptyAdvancedQueryGroup())
+  );
+
+  // Load the advanced query whenever navigation changes it.
+  useEffect(() => {
+    setText(appliedQuery);
+    setRoot(
+      parseAdvancedQuery(appliedQuery).unwrap_or(emptyAdvancedQueryGroup())
+    );
+  }, [appliedQuery]);
+
+  const parsed = parseAdvancedQuery(text);
+  const syntaxError = parsed.isErr() ? parsed.unwrap_err() : null;
+
+  function onRootChange(edited: AdvancedQueryGroup) {
+    setRoot(edited);
+    setText(serializeAdvancedQuery(edited));
+  }
+
+  function onTextChange(edited: string) {
+    setText(edited);
+    parseAdvancedQuery(edited).tap(setRoot);
+  }
+
+  function applyQuery(advancedQuery: string) {
+    const query = queryWithAdvancedQuery(
+      searchParams.toString(),
+      advancedQuery.trim()
+    );
+    router.push(`${pathname}?${query}`);
+  }
+
+  return (
+    <div
+      className="mb-2 rounded border border-panel"
+      data-testid="advanced-query-builder"
+    >
+      <button
+        type="button"
+        className="flex w-full items-center gap-1 px-2 py-1 text-left text-sm font-semibold"
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+      >
+        {isOpen ? (
+          <ChevronDownIcon className="h-4 w-4" />
+        ) : (
+          <ChevronRightIcon className="h-4 w-4" />
+        )}
+        Advanced Query
+      </button>
+      {isOpen && (
+        <div className="flex flex-col gap-2 p-2">
+          <GroupEditor group={root} fields={fields} onChange={onRootChange} />
+          <textarea
+            className="rounded border border-form-element bg-form-element p-1.5 font-mono text-sm text-form-element"
+            value={text}
+            onChange={(event) => onTextChange(event.target.value)}
+            rows={2}
+            spellCheck={false}
+            aria-label="Advanced query"
+            aria-invalid={Boolean(syntaxError)}
+          />
+          {syntaxError && (
+            <div
+              className="text-sm text-red-600 dark:text-red-400"
+              data-testid="advanced-query-error"
+            >
+              {syntaxError.message} (character {syntaxError.position + 1})
+            </div>
+          )}
+          <div className="flex gap-1">
+            <Button
+              onClick={() => applyQuery(text)}
+              size="sm"
+              isDisabled={Boolean(syntaxError) || text.trim() === appliedQuery}
+            >
+              Apply
+            </Button>
+            <Button
+              onClick={() => applyQuery("")}
+              type="secondary"
+              size="sm"
+              isDisabled={!appliedQuery}
+            >
+              Clear
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+type AdvancedQueryBuilderProps = {
+  fields: AdvancedQueryField[];
+};
@@ -0,0 +1,16 @@
+import { SearchListItem } from "@/components/search/list-renderers";
+import type { ListRendererProps } from "@/components/search/list-renderers";
+import { SearchList } from "@/components/search/search-list";
+import { SearchPager } from "@/components/search/search-pager";
+import { SearchResultsLayout } from "@/components/search/search-results-layout";
+import { SearchViewToggle } from "@/components/search/search-view-toggle";
+import type { SearchView } from "@/components/search/search-view-toggle";
+
+export {
+  SearchList,
+  SearchListItem,
+  SearchPager,
+  SearchResultsLayout,
+  SearchViewToggle,
+};
+export type { ListRendererProps, SearchView };
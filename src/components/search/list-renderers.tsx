@@ -0,0 +1,259 @@
+// node_modules
+import Link from "next/link";
+// components
+import { AuditStatus } from "@/components/audit";
+import { Status } from "@/components/status";
+// root
+import type {
+  Audits,
+  CollectionTitles,
+  SearchResultsObject,
+} from "@/globals.d";
+
+/**
+ * Get the title of an item's lab, whether the search results embed the lab or only have its path.
+ * @param {SearchResultsObject} item Search-result item with a `lab` property
+ * @returns {string} Title of the lab; empty if the item has no embedded lab
+ */
+function labTitle(item: SearchResultsObject): string {
+  const lab = item.lab as { title?: string } | string | undefined;
+  return typeof lab === "object" ? lab.title || "" : "";
+}
+
+/**
+ * Layout shared by all search-list items. The header shows the item's type and the ID linking to
+ * the item's page, with the item's status and audits on the right. Renderers pass their
+ * type-specific details as children.
+ * @param {SearchResultsObject} item Search-result item to display
+ * @param {string} typeTitle Human-readable title of the item's type
+ * @param {string} uniqueId Identifier to show for the item, e.g. its accession
+ */
+function SearchListItemLayout({
+  item,
+  typeTitle,
+  uniqueId,
+  children,
+}: SearchListItemLayoutProps) {
+  return (
+    <div className="flex justify-between gap-2">
+      <div className="min-w-0">
+        <div className="text-xs text-gray-500 dark:text-gray-400">
+          {typeTitle}
+          {" · "}
+          <Link href={item["@id"]} className="font-semibold">
+            {uniqueId}
+          </Link>
+        </div>
+        <div className="text-sm">{children}</div>
+      </div>
+      <div className="flex shrink-0 flex-col items-end gap-1">
+        {typeof item.status === "string" && <Status status={item.status} />}
+        <AuditStatus audit={item.audit as Audits | undefined} />
+      </div>
+    </div>
+  );
+}
+
+type SearchListItemLayoutProps = {
+  item: SearchResultsObject;
+  typeTitle: string;
+  uniqueId: string;
+  children?: React.ReactNode;
+};
+
+/**
+ * Display a line of a search-list item's details if it has a value.
+ * @param {string} [label] Label to show before the value
+ * @param {string} [value] Value to show; nothing displays if empty
+ */
+function ItemDetail({ label = "", value = "" }: ItemDetailProps) {
+  if (value) {
+    return (
+      <div className="text-gray-600 dark:text-gray-400">
+        {label && <span className="font-semibold">{label}: </span>}
+        {value}
+      </div>
+    );
+  }
+  return null;
+}
+
+type ItemDetailProps = {
+  label?: string;
+  value?: string;
+};
+
+/**
+ * Display a search-list item for any file-set type, e.g. measurement sets and analysis sets.
+ */
+function FileSetItem({ item, typeTitle }: ListRendererProps) {
+  return (
+    <SearchListItemLayout
+      item={item}
+      typeTitle={typeTitle}
+      uniqueId={item.accession as string}
+    >
+      <div>{item.summary as string}</div>
+      <ItemDetail label="Lab" value={labTitle(item)} />
+      <ItemDetail label="Type" value={item.file_set_type as string} />
+    </SearchListItemLayout>
+  );
+}
+
+/**
+ * Display a search-list item for any file type.
+ */
+function FileItem({ item, typeTitle }: ListRendererProps) {
+  const format = [item.content_type, item.file_format]
+    .filter(Boolean)
+    .join(" · ");
+
+  return (
+    <SearchListItemLayout
+      item={item}
+      typeTitle={typeTitle}
+      uniqueId={item.accession as string}
+    >
+      <div>{(item.summary as string) || format}</div>
+      <ItemDetail label="Lab" value={labTitle(item)} />
+      {item.summary ? <ItemDetail label="Format" value={format} /> : null}
+    </SearchListItemLayout>
+  );
+}
+
+/**
+ * Display a search-list item for any sample type, e.g. in vitro systems and tissues.
+ */
+function SampleItem({ item, typeTitle }: ListRendererProps) {
+  const sampleTerms = (
+    (item.sample_terms as { term_name?: string }[] | undefined) || []
+  )
+    .map((term) => term.term_name)
+    .filter(Boolean)
+    .join(", ");
+
+  return (
+    <SearchListItemLayout
+      item={item}
+      typeTitle={typeTitle}
+      uniqueId={item.accession as string}
+    >
+      <div>{item.summary as string}</div>
+      <ItemDetail label="Lab" value={labTitle(item)} />
+      <ItemDetail label="Sample Terms" value={sampleTerms} />
+    </SearchListItemLayout>
+  );
+}
+
+/**
+ * Display a search-list item for a document.
+ */
+function DocumentItem({ item, typeTitle }: ListRendererProps) {
+  return (
+    <SearchListItemLayout
+      item={item}
+      typeTitle={typeTitle}
+      uniqueId={(item.uuid as string) || item["@id"]}
+    >
+      <div>{item.description as string}</div>
+      <ItemDetail label="Lab" value={labTitle(item)} />
+      <ItemDetail label="Type" value={item.document_type as string} />
+    </SearchListItemLayout>
+  );
+}
+
+/**
+ * Display a search-list item for a lab.
+ */
+function LabItem({ item, typeTitle }: ListRendererProps) {
+  return (
+    <SearchListItemLayout
+      item={item}
+      typeTitle={typeTitle}
+      uniqueId={item.name as string}
+    >
+      <div>{item.title as string}</div>
+      <ItemDetail label="Institute" value={item.institute_label as string} />
+    </SearchListItemLayout>
+  );
+}
+
+/**
+ * Display a search-list item for a user.
+ */
+function UserItem({ item, typeTitle }: ListRendererProps) {
+  return (
+    <SearchListItemLayout
+      item={item}
+      typeTitle={typeTitle}
+      uniqueId={item.title as string}
+    >
+      <ItemDetail label="Lab" value={labTitle(item)} />
+      <ItemDetail label="Job Title" value={item.job_title as string} />
+    </SearchListItemLayout>
+  );
+}
+
+/**
+ * Display a search-list item for any type without its own renderer.
+ */
+function FallbackItem({ item, typeTitle }: ListRendererProps) {
+  const uniqueId =
+    (item.accession as string) ||
+    (item.name as string) ||
+    (item.title as string) ||
+    item["@id"];
+
+  return (
+    <SearchListItemLayout item={item} typeTitle={typeTitle} uniqueId={uniqueId}>
+      <div>{(item.summary as string) || (item.description as string)}</div>
+      <ItemDetail label="Lab" value={labTitle(item)} />
+    </SearchListItemLayout>
+  );
+}
+
+/**
+ * Maps `@type`s to the components that render their search-list items. Parent types, like
+ * `Biosample`, cover all their subtypes unless a subtype has its own renderer. Add an entry here
+ * to give a type its own renderer.
+ */
+const listRenderers: Record<string, ListRenderer> = {
+  Document: DocumentItem,
+  File: FileItem,
+  FileSet: FileSetItem,
+  Lab: LabItem,
+  Sample: SampleItem,
+  User: UserItem,
+};
+
+/**
+ * Render the search-list item for any search-result item, choosing the renderer for the most
+ * specific of the item's `@type`s that has one.
+ * @param {SearchResultsObject} item Search-result item to render
+ * @param {CollectionTitles | null} collectionTitles Maps `@type`s to human-readable titles
+ */
+export function SearchListItem({
+  item,
+  collectionTitles,
+}: SearchListItemProps) {
+  const rendererType = item["@type"].find((type) => listRenderers[type]);
+  const Renderer = rendererType ? listRenderers[rendererType] : FallbackItem;
+  const typeTitle = collectionTitles?.[item["@type"][0]] || item["@type"][0];
+
+  return <Renderer item={item} typeTitle={typeTitle} />;
+}
+
+type SearchListItemProps = {
+  item: SearchResultsObject;
+  collectionTitles: CollectionTitles | null;
+};
+
+/**
+ * Props for all search-list item renderers.
+ */
+export type ListRendererProps = {
+  item: SearchResultsObject;
+  typeTitle: string;
+};
+
+type ListRenderer = (props: ListRendererProps) => JSX.Element;
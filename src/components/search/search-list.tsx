@@ -0,0 +1,33 @@
+// components
+import { SearchListItem } from "@/components/search/list-renderers";
+// root
+import type { CollectionTitles, SearchResultsObject } from "@/globals.d";
+
+/**
+ * Display search-result items as a list, rendering each item according to its `@type`.
+ * @param {SearchResultsObject[]} items Search-result items to display
+ * @param {CollectionTitles | null} collectionTitles Maps `@type`s to human-readable titles
+ */
+export function SearchList({ items, collectionTitles }: SearchListProps) {
+  return (
+    <ul
+      className="divide-y divide-panel border border-panel"
+      data-testid="search-list"
+    >
+      {items.map((item) => (
+        <li
+          key={item["@id"]}
+          className="bg-panel px-4 py-2"
+          data-testid={`search-list-item-${item["@id"]}`}
+        >
+          <SearchListItem item={item} collectionTitles={collectionTitles} />
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+type SearchListProps = {
+  items: SearchResultsObject[];
+  collectionTitles: CollectionTitles | null;
+};
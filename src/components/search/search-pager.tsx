@@ -0,0 +1,52 @@
+"use client";
+
+// node_modules
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+// components
+import { Pager } from "@/components/pager";
+
+/**
+ * Display a pager for search results. Selecting a page loads the same search with the `from=`
+ * query-string parameter for that page. Displays nothing if all the results fit on one page.
+ * @param {number} total Total number of search results across all pages
+ * @param {number} limit Number of search results per page; 0 if they're all on one page
+ */
+export function SearchPager({ total, limit }: SearchPagerProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  if (limit <= 0) {
+    return null;
+  }
+  const totalPages = Math.ceil(total / limit);
+  if (totalPages <= 1) {
+    return null;
+  }
+  const from = Number(searchParams.get("from")) || 0;
+  const currentPage = Math.floor(from / limit) + 1;
+
+  function onPageChange(newPage: number) {
+    const params = new URLSearchParams(searchParams.toString());
+    if (newPage > 1) {
+      params.set("from", String((newPage - 1) * limit));
+    } else {
+      params.delete("from");
+    }
+    router.push(`${pathname}?${params.toString()}`);
+  }
+
+  return (
+    <Pager
+      currentPage={currentPage}
+      totalPages={totalPages}
+      onClick={onPageChange}
+      className="my-2"
+    />
+  );
+}
+
+type SearchPagerProps = {
+  total: number;
+  limit: number;
+};
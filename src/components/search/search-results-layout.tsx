@@ -0,0 +1,68 @@
+// components
+import { FacetSection } from "@/components/facets";
+import { AdvancedQueryBuilder } from "@/components/search/advanced-query-builder";
+import { NoContent } from "@/components/no-content";
+import { TableCount } from "@/components/table-count";
+// lib
+import type { AdvancedQueryField } from "@/lib/advanced-query";
+// root
+import type { SearchResults } from "@/globals.d";
+
+/**
+ * Lay out a page of search results: the title, the facets beside the results, and the controls
+ * and count above them. Searches that match nothing show a message in place of the results, below
+ * the advanced-query builder so that users can change a query that matches nothing.
+ * @param {string} title Title of the page
+ * @param {SearchResults} results Search results from the data provider
+ * @param {AdvancedQueryField[]} advancedQueryFields Fields the advanced-query builder offers
+ * @param {React.ReactNode} controls Controls to display above the results, e.g. view toggles
+ */
+export function SearchResultsLayout({
+  title,
+  results,
+  advancedQueryFields,
+  controls,
+  children,
+}: SearchResultsLayoutProps) {
+  return (
+    <>
+      <h1 className="my-4 text-2xl font-semibold">{title}</h1>
+      <div className="md:flex md:gap-4">
+        {results.facets && results.facets.length > 0 && (
+          <div className="shrink-0 md:w-64">
+            <FacetSection
+              facets={results.facets}
+              facetGroups={results.facet_groups}
+              filters={results.filters}
+            />
+          </div>
+        )}
+        <div className="min-w-0 grow">
+          <AdvancedQueryBuilder fields={advancedQueryFields} />
+          {results.total > 0 ? (
+            <>
+              <div className="mb-2 flex flex-wrap items-center gap-1">
+                {controls}
+              </div>
+              <TableCount count={results.total} />
+              {children}
+            </>
+          ) : (
+            <NoContent
+              message="No list items to display"
+              signInContent="list items"
+            />
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
+
+type SearchResultsLayoutProps = {
+  title: string;
+  results: SearchResults;
+  advancedQueryFields: AdvancedQueryField[];
+  controls: React.ReactNode;
+  children: React.ReactNode;
+};
@@ -0,0 +1,63 @@
+// node_modules
+import {
+  Bars4Icon,
+  Squares2X2Icon,
+  TableCellsIcon,
+} from "@heroicons/react/20/solid";
+// components
+import { AttachedButtons, ButtonLink } from "@/components/form-elements";
+// lib
+import { QueryString } from "@/lib/query-string";
+
+/**
+ * Views of search results that the user can switch between.
+ */
+export type SearchView = "list" | "report" | "matrix";
+
+/**
+ * Display buttons to switch between the list, report, and matrix views of the same search results.
+ * The list and matrix views have no columns to choose, so switching to them drops the report's
+ * `field=` parameters. Pass the matrix its search query without the keys that choose its axes.
+ * @param {SearchView} view View the user currently sees
+ * @param {string} query Query string of the current search
+ */
+export function SearchViewToggle({ view, query }: SearchViewToggleProps) {
+  const listQuery = new QueryString(query).setFields([]).format();
+
+  return (
+    <AttachedButtons testid="search-view-toggle">
+      <ButtonLink
+        href={`/search/?${listQuery}`}
+        label="Select list view"
+        type={view === "list" ? "selected" : "secondary"}
+        size="sm"
+        hasIconOnly
+      >
+        <Bars4Icon />
+      </ButtonLink>
+      <ButtonLink
+        href={`/multireport/?${query}`}
+        label="Select report view"
+        type={view === "report" ? "selected" : "secondary"}
+        size="sm"
+        hasIconOnly
+      >
+        <TableCellsIcon />
+      </ButtonLink>
+      <ButtonLink
+        href={`/matrix/?${listQuery}`}
+        label="Select matrix view"
+        type={view === "matrix" ? "selected" : "secondary"}
+        size="sm"
+        hasIconOnly
+      >
+        <Squares2X2Icon />
+      </ButtonLink>
+    </AttachedButtons>
+  );
+}
+
+type SearchViewToggleProps = {
+  view: SearchView;
+  query: string;
+};
@@ -0,0 +1,7 @@
+import {
+  IdSearchTrigger,
+  SiteSearchTrigger,
+} from "@/components/site-search/search-triggers";
+import { SiteSearchTypeSection } from "@/components/site-search/type-section";
+
+export { IdSearchTrigger, SiteSearchTrigger, SiteSearchTypeSection };
@@ -0,0 +1,186 @@
+"use client";
+
+// node_modules
+import {
+  IdentificationIcon,
+  MagnifyingGlassIcon,
+} from "@heroicons/react/20/solid";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+// components
+import { Button } from "@/components/form-elements";
+import { Modal } from "@/components/modal";
+// lib
+import { UC } from "@/lib/constants";
+import { QueryString } from "@/lib/query-string";
+import { recentSearchTerms } from "@/lib/saved-searches";
+// context
+import { useSearchHistoryContext } from "@/context/search-history";
+
+/**
+ * Display a modal with a single input for the user to enter a search term. Submitting the term
+ * calls `onSearch` with it and closes the modal. The user's recent terms appear below the input,
+ * and selecting one enters it into the input.
+ * @param {boolean} isOpen True if the modal is open
+ * @param {function} onClose Called to close the modal
+ * @param {string} title Title of the modal
+ * @param {string} placeholder Placeholder text for the search input
+ * @param {string[]} recentTerms Terms the user recently searched for, newest first
+ * @param {function} onSearch Called with the trimmed term the user submits
+ */
+function SearchModal({
+  isOpen,
+  onClose,
+  title,
+  placeholder,
+  recentTerms,
+  onSearch,
+}: SearchModalProps) {
+  const [term, setTerm] = useState("");
+  const trimmedTerm = term.trim();
+
+  function onSubmit(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (trimmedTerm) {
+      onClose();
+      onSearch(trimmedTerm);
+    }
+  }
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose}>
+      <Modal.Header onClose={onClose}>{title}</Modal.Header>
+      <Modal.Body>
+        <form className="flex gap-1" onSubmit={onSubmit}>
+          <input
+            className="block grow rounded border border-form-element bg-form-element px-1.5 text-form-element form-element-height-md"
+            value={term}
+            onChange={(event) => setTerm(event.target.value)}
+            placeholder={placeholder}
+            aria-label={placeholder}
+            data-testid="search-input"
+            autoFocus
+          />
+          <button
+            type="submit"
+            className="rounded border border-button-primary bg-button-primary px-2 text-button-primary disabled:border-button-primary-disabled disabled:bg-button-primary-disabled"
+            aria-label={`Search for ${trimmedTerm}`}
+            disabled={!trimmedTerm}
+          >
+            <MagnifyingGlassIcon className="h-5 w-5 fill-button-primary" />
+          </button>
+        </form>
+        {recentTerms.length > 0 && (
+          <div className="mt-3">
+            <div className="text-sm font-semibold">Recent Searches</div>
+            <div className="mt-1 flex flex-wrap gap-1">
+              {recentTerms.map((recentTerm) => (
+                <Button
+                  key={recentTerm}
+                  onClick={() => setTerm(recentTerm)}
+                  label={`Enter the recent search, ${recentTerm}, into the search box`}
+                  type="secondary"
+                  size="sm"
+                >
+                  {recentTerm}
+                </Button>
+              ))}
+            </div>
+          </div>
+        )}
+      </Modal.Body>
+    </Modal>
+  );
+}
+
+type SearchModalProps = {
+  isOpen: boolean;
+  onClose: () => void;
+  title: string;
+  placeholder: string;
+  recentTerms: string[];
+  onSearch: (term: string) => void;
+};
+
+/**
+ * Display a button that opens a modal to search the whole site for a term. Submitting the term
+ * loads the site-search page, which groups the matching items by type.
+ */
+export function SiteSearchTrigger() {
+  const router = useRouter();
+  const { recentSearches, addRecentSearch } = useSearchHistoryContext();
+  const [isOpen, setIsOpen] = useState(false);
+
+  function onSearch(term: string) {
+    const query = new QueryString().addKeyValue("term", term).format();
+    addRecentSearch(
+      `Items with ${UC.ldquo}${term}${UC.rdquo}`,
+      "/site-search/",
+      query
+    );
+    router.push(`/site-search/?${query}`);
+  }
+
+  return (
+    <>
+      <Button
+        onClick={() => setIsOpen(true)}
+        id="site-search-trigger"
+        type="secondary"
+        size="sm"
+        className="grow gap-1"
+      >
+        <MagnifyingGlassIcon className="h-4 w-4" />
+        Search
+      </Button>
+      <SearchModal
+        isOpen={isOpen}
+        onClose={() => setIsOpen(false)}
+        title="Search the Site"
+        placeholder="Search all items for a term"
+        recentTerms={recentSearchTerms(recentSearches, "/site-search/", "term")}
+        onSearch={onSearch}
+      />
+    </>
+  );
+}
+
+/**
+ * Display a button that opens a modal to look up an item by its identifier: an accession, UUID, or
+ * alias. Submitting the identifier loads the ID-search page, which goes straight to the item's
+ * page if exactly one item has that identifier.
+ */
+export function IdSearchTrigger() {
+  const router = useRouter();
+  const { recentSearches, addRecentSearch } = useSearchHistoryContext();
+  const [isOpen, setIsOpen] = useState(false);
+
+  function onSearch(id: string) {
+    const query = new QueryString().addKeyValue("id", id).format();
+    addRecentSearch(`Items with the identifier ${id}`, "/id-search/", query);
+    router.push(`/id-search/?${query}`);
+  }
+
+  return (
+    <>
+      <Button
+        onClick={() => setIsOpen(true)}
+        id="id-search-trigger"
+        type="secondary"
+        size="sm"
+        className="grow gap-1"
+      >
+        <IdentificationIcon className="h-4 w-4" />
+        ID
+      </Button>
+      <SearchModal
+        isOpen={isOpen}
+        onClose={() => setIsOpen(false)}
+        title="Find an Item by Identifier"
+        placeholder="Accession, UUID, or alias"
+        recentTerms={recentSearchTerms(recentSearches, "/id-search/", "id")}
+        onSearch={onSearch}
+      />
+    </>
+  );
+}
@@ -0,0 +1,146 @@
+"use client";
+
+// node_modules
+import {
+  Bars4Icon,
+  ChevronDownIcon,
+  ChevronRightIcon,
+  TableCellsIcon,
+} from "@heroicons/react/20/solid";
+import { useState } from "react";
+// components
+import { AttachedButtons, ButtonLink } from "@/components/form-elements";
+import { SearchList } from "@/components/search";
+// lib
+import { FetchRequest, type ErrorObject } from "@/lib/fetch-request";
+import {
+  getSiteSearchTopMatches,
+  siteSearchQuery,
+  type SiteSearchGroup,
+} from "@/lib/site-search";
+// context
+import { useSessionContext } from "@/context/session";
+// root
+import type { CollectionTitles, SearchResultsObject } from "@/globals.d";
+
+/**
+ * Display the matches of a site search within one type: the type's title and number of matches,
+ * buttons to see all its matches in the search list or report, and a button to expand the top
+ * matches into a list. The top matches get requested the first time the user expands the list, so
+ * that the page only searches the types the user looks into.
+ * @param {SiteSearchGroup} group Matches within one type
+ * @param {string} term Term the user searched for
+ * @param {CollectionTitles | null} collectionTitles Maps `@type`s to human-readable titles
+ */
+export function SiteSearchTypeSection({
+  group,
+  term,
+  collectionTitles,
+}: SiteSearchTypeSectionProps) {
+  const { session } = useSessionContext();
+  const [isExpanded, setIsExpanded] = useState(false);
+  // Top matches of the type; null until they've loaded
+  const [items, setItems] = useState<SearchResultsObject[] | null>(null);
+  const [loadError, setLoadError] = useState<ErrorObject | null>(null);
+  const query = siteSearchQuery(term, group.type);
+  const contentId = `site-search-top-matches-${group.type}`;
+
+  function toggleExpanded() {
+    if (!isExpanded && items === null) {
+      setLoadError(null);
+      getSiteSearchTopMatches(
+        new FetchRequest({ session }),
+        term,
+        group.type
+      ).then((response) => {
+        if (response.isErr()) {
+          setLoadError(response.unwrap_err());
+        } else {
+          setItems(response.unwrap());
+        }
+      });
+    }
+    setIsExpanded(!isExpanded);
+  }
+
+  return (
+    <section
+      className="mb-2 rounded border border-panel"
+      data-testid={`site-search-type-section-${group.type}`}
+    >
+      <div className="flex items-center gap-2 bg-panel px-2 py-1">
+        <button
+          type="button"
+          className="flex grow items-center gap-1 text-left font-semibold"
+          onClick={toggleExpanded}
+          aria-label={`${isExpanded ? "Collapse" : "Expand"} top matches for ${
+            group.title
+          }`}
+          aria-expanded={isExpanded}
+          aria-controls={contentId}
+        >
+          {isExpanded ? (
+            <ChevronDownIcon className="h-5 w-5" />
+          ) : (
+            <ChevronRightIcon className="h-5 w-5" />
+          )}
+          {group.title}
+          <span className="text-sm font-normal text-gray-600 dark:text-gray-400">
+            {group.count}
+          </span>
+        </button>
+        <AttachedButtons>
+          <ButtonLink
+            href={`/search/?${query}`}
+            label={`View search list for ${group.title}`}
+            type="secondary"
+            size="sm"
+            hasIconOnly
+          >
+            <Bars4Icon />
+          </ButtonLink>
+          <ButtonLink
+            href={`/multireport/?${query}`}
+            label={`View search report for ${group.title}`}
+            type="secondary"
+            size="sm"
+            hasIconOnly
+          >
+            <TableCellsIcon />
+          </ButtonLink>
+        </AttachedButtons>
+      </div>
+      {isExpanded && (
+        <div id={contentId} className="p-2">
+          {loadError ? (
+            <p className="text-sm text-red-600 dark:text-red-400" role="alert">
+              Couldn&apos;t load the top matches: {loadError.detail}
+            </p>
+          ) : items === null ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Loading top matches&hellip;
+            </p>
+          ) : (
+            <>
+              <SearchList items={items} collectionTitles={collectionTitles} />
+              {group.count > items.length && (
+                <div className="mt-1 text-sm">
+                  Showing the top {items.length} of {group.count}.{" "}
+                  <ButtonLink href={`/search/?${query}`} size="sm" isInline>
+                    See all in /search
+                  </ButtonLink>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
+
+type SiteSearchTypeSectionProps = {
+  group: SiteSearchGroup;
+  term: string;
+  collectionTitles: CollectionTitles | null;
+};
@@ -65,6 +65,31 @@ export type SortingConfig = {
   isSortingSuppressed?: boolean;
 };
 
+/**
+ * Configures a grid that displays one page of data the server already sorted and paged, such as
+ * one page of search results. The grid displays the data in the order given, and reports clicks on
+ * the column headers and the pager through the callbacks instead of sorting and paging the data
+ * itself.
+ * @property {number} total Number of items across all pages
+ * @property {number} currentPageIndex Currently displayed page; 0-based index
+ * @property {number} maxItemsPerPage Number of items the server returns per page
+ * @property {string} sortBy ID of the column the server sorted the data by; empty if none
+ * @property {SortDirection} sortDirection Direction the server sorted the data in
+ * @property {string[]} [nonSortable] IDs of columns the server can't sort by
+ * @property {function} onSortChange Called with the column and direction the user selects
+ * @property {function} onPageChange Called with the 0-based index of the page the user selects
+ */
+export type ServerConfig = {
+  total: number;
+  currentPageIndex: number;
+  maxItemsPerPage: number;
+  sortBy: string;
+  sortDirection: SortDirection;
+  nonSortable?: string[];
+  onSortChange: (columnId: string, direction: SortDirection) => void;
+  onPageChange: (pageIndex: number) => void;
+};
+
 /**
  * Properties passed to the optional display component for a column.
  * @property {DatabaseObject} source The object to display
@@ -365,18 +390,18 @@ function HeaderCell({
 /**
  * Displays a pager control intended for a table, often used with `<SortableGrid>`. The pager only
  * appears when the number of items in the table exceeds the maximum number of items per page.
- * @param {DatabaseObject[]} data Objects to display in the table
+ * @param {number} itemCount Number of items across all pages of the table
  * @param {number} currentPageIndex Currently displayed page; 0-based index
  * @param {function} setCurrentPageIndex Function to call when the user selects a new page
  * @param {number} maxItemsPerPage Maximum number of items to display in the table before the pager
  */
 function TablePager({
-  data,
+  itemCount,
   currentPageIndex,
   setCurrentPageIndex,
   maxItemsPerPage,
 }: TablePagerProps) {
-  const totalPages = Math.ceil(data.length / maxItemsPerPage);
+  const totalPages = Math.ceil(itemCount / maxItemsPerPage);
   if (totalPages > 1) {
     return (
       <div
@@ -395,7 +420,7 @@ function TablePager({
 }
 
 type TablePagerProps = {
-  data: DatabaseObject[];
+  itemCount: number;
   currentPageIndex: number;
   setCurrentPageIndex: (newCurrentPage: number) => void;
   maxItemsPerPage: number;
@@ -412,6 +437,8 @@ type TablePagerProps = {
  * @property {string} [keyProp] Property of each item to use as the React key; index used if
  *     not provided
  * @property {SortingConfig} [sortingConfig] Initial sorting configuration for the grid
+ * @property {ServerConfig} [serverConfig] Sorting and paging done by the server; the grid sorts
+ *     and pages `data` itself if not provided
  * @property {object} [meta] Additional custom information to pass to the grid
  * @property {boolean} [isTotalCountHidden] True if the total count of items is hidden
  * @property {React.ComponentType<RowComponentProps>} [CustomHeaderCell] Custom header cell
@@ -423,32 +450,49 @@ export function SortableGrid({
   keyProp = "",
   pagerConfig = {},
   sortingConfig = {},
+  serverConfig,
   meta = {},
   isTotalCountHidden = false,
   CustomHeaderCell = HeaderCell,
 }: SortableGridProps) {
   // id of the currently sorted column
-  const [sortBy, setSortBy] = useState(
+  const [localSortBy, setSortBy] = useState(
     sortingConfig.initialColumnId || columns[0].id
   );
   // Whether the currently sorted column is sorted in ascending or descending order.
-  const [sortDirection, setSortDirection] = useState<SortDirection>(
+  const [localSortDirection, setSortDirection] = useState<SortDirection>(
     sortingConfig.initialDirection || "asc"
   );
   const gridRef = useRef(null);
+  const sortBy = serverConfig ? serverConfig.sortBy : localSortBy;
+  const sortDirection = serverConfig
+    ? serverConfig.sortDirection
+    : localSortDirection;
 
   // Current page if the table has a pager not managed by the parent.
   const [pageIndex, setPageIndex] = useState(0);
-  const currentPageIndex = pagerConfig?.currentPageIndex ?? pageIndex;
+  const currentPageIndex =
+    serverConfig?.currentPageIndex ??
+    pagerConfig?.currentPageIndex ??
+    pageIndex;
   const maxItemsPerPage =
-    pagerConfig?.maxItemsPerPage || DEFAULT_MAX_ITEMS_PER_PAGE;
+    serverConfig?.maxItemsPerPage ||
+    pagerConfig?.maxItemsPerPage ||
+    DEFAULT_MAX_ITEMS_PER_PAGE;
+  const itemCount = serverConfig ? serverConfig.total : data.length;
 
   /**
    * Called when the user clicks a column header to set its sorting.
    * @param {string} column - id of the column to sort by.
    */
   function handleSortClick(column: string) {
-    if (sortBy === column) {
+    if (serverConfig) {
+      // Let the server sort the data; the sorted column reverses its direction.
+      serverConfig.onSortChange(
+        column,
+        sortBy === column && sortDirection === "asc" ? "desc" : "asc"
+      );
+    } else if (sortBy === column) {
       // Sorted column clicked. Reverse the sort direction.
       setSortDirection(sortDirection === "asc" ? "desc" : "asc");
     } else {
@@ -459,10 +503,16 @@ export function SortableGrid({
   }
 
   // Filter the columns to only include those that have a hide() function that returns false, or
-  // that don't have a hide() function at all.
-  const visibleColumns = columns.filter(
-    (column) => !column.hide || !column.hide(data, columns, meta)
-  );
+  // that don't have a hide() function at all. Columns the server can't sort by become
+  // non-sortable.
+  const nonSortable = serverConfig?.nonSortable || [];
+  const visibleColumns = columns
+    .filter((column) => !column.hide || !column.hide(data, columns, meta))
+    .map((column) =>
+      nonSortable.includes(column.id)
+        ? { ...column, isSortable: false }
+        : column
+    );
 
   // Generate the cells within the header row. The column title can contain a string or a React
   // component.
@@ -485,22 +535,27 @@ export function SortableGrid({
   ];
 
   // Make sure the `sortBy` column actually exists in the columns. Sort by the first column if not.
+  // The server can sort by columns the grid doesn't display, so leave its sorting alone.
   const sortByColumn = visibleColumns.find((column) => column.id === sortBy);
-  if (!sortByColumn) {
+  if (!sortByColumn && !serverConfig) {
     setSortBy(visibleColumns[0].id);
     return null;
   }
 
   // Convert the data (simple array of objects) into a data grid array and render the table.
-  const sortedData = sortingConfig.isSortingSuppressed
-    ? data
-    : sortData(data, meta, visibleColumns, sortBy, sortDirection);
-
-  // Extract the current page of data from sortedData if the table has a pager.
-  const pagedData = sortedData.slice(
-    currentPageIndex * maxItemsPerPage,
-    (currentPageIndex + 1) * maxItemsPerPage
-  );
+  const sortedData =
+    sortingConfig.isSortingSuppressed || serverConfig
+      ? data
+      : sortData(data, meta, visibleColumns, sortBy, sortDirection);
+
+  // Extract the current page of data from sortedData if the table has a pager. Data from the
+  // server only holds the current page.
+  const pagedData = serverConfig
+    ? sortedData
+    : sortedData.slice(
+        currentPageIndex * maxItemsPerPage,
+        (currentPageIndex + 1) * maxItemsPerPage
+      );
   const dataRows = convertObjectArrayToDataGrid(
     pagedData,
     visibleColumns,
@@ -508,11 +563,11 @@ export function SortableGrid({
   );
   return (
     <div>
-      {!isTotalCountHidden && <TableCount count={data.length} />}
+      {!isTotalCountHidden && <TableCount count={itemCount} />}
       <TablePager
-        data={data}
+        itemCount={itemCount}
         currentPageIndex={currentPageIndex}
-        setCurrentPageIndex={setPageIndex}
+        setCurrentPageIndex={serverConfig?.onPageChange || setPageIndex}
         maxItemsPerPage={maxItemsPerPage}
       />
       <DataGridContainer ref={gridRef}>
@@ -524,7 +579,7 @@ export function SortableGrid({
             columns: visibleColumns,
             sortDirection,
             handleSortClick,
-            dataLength: data.length,
+            dataLength: itemCount,
           }}
         />
       </DataGridContainer>
@@ -538,6 +593,7 @@ export type SortableGridProps = {
   keyProp?: string;
   pagerConfig?: PagerConfig;
   sortingConfig?: SortingConfig;
+  serverConfig?: ServerConfig;
   meta?: Record<string, any>;
   isTotalCountHidden?: boolean;
   CustomHeaderCell?: React.ComponentType<RowComponentProps>;
@@ -6,6 +6,7 @@ import { SampleTableClient } from "@/components/sample-table";
 // lib
 import { requestBiosamples } from "@/lib/common-requests";
 import { FetchRequest } from "@/lib/fetch-request";
+import { getRequestId } from "@/lib/request-id";
 // root
 import { DatabaseObject } from "@/globals.d";
 
@@ -18,7 +19,7 @@ async function SampleTableRetriever({
   samplePaths,
   title = "Samples",
 }: SampleTableRetrieverProps) {
-  const request = new FetchRequest();
+  const request = new FetchRequest({ requestId: getRequestId() });
   const samples = (await requestBiosamples(
     samplePaths,
     request
@@ -0,0 +1,244 @@
+"use client";
+
+/**
+ * Establishes the context holding the user's saved and recent searches, so that every component
+ * that shows or changes them -- the search modals, the save buttons, and the saved-searches page
+ * -- works with the same lists. Signed-out users keep these lists in localStorage. Signed-in users
+ * keep them in igvfd so that they follow the user between browsers.
+ */
+
+// node_modules
+import { useAuth0 } from "@auth0/auth0-react";
+import { createContext, useContext, useEffect, useRef, useState } from "react";
+// components
+import { useLocalStorage } from "@/components/browser-storage";
+// lib
+import { FetchRequest, type ErrorObject } from "@/lib/fetch-request";
+import { err, ok, type Result } from "@/lib/result";
+import {
+  getStoredSearches,
+  putStoredSearches,
+  RECENT_SEARCHES_PATH,
+  RECENT_SEARCHES_STORAGE_KEY,
+  SAVED_SEARCHES_PATH,
+  SAVED_SEARCHES_STORAGE_KEY,
+  withoutSavedSearch,
+  withRecentSearch,
+  withSavedSearch,
+  withVisitedSearch,
+  type RecentSearch,
+  type SavedSearch,
+  type SearchPath,
+} from "@/lib/saved-searches";
+// context
+import { useSessionContext } from "@/context/session";
+
+/**
+ * Resolves to the searches after a change, or to the error that kept igvfd from storing them.
+ */
+type SearchChange<T> = Promise<Result<T[], ErrorObject>>;
+
+type SearchHistoryContextProps = {
+  savedSearches: SavedSearch[];
+  recentSearches: RecentSearch[];
+  saveSearch: (
+    name: string,
+    path: SearchPath,
+    query: string,
+    count: number
+  ) => SearchChange<SavedSearch>;
+  removeSavedSearch: (id: string) => SearchChange<SavedSearch>;
+  visitSavedSearch: (id: string, count: number) => SearchChange<SavedSearch>;
+  addRecentSearch: (
+    title: string,
+    path: SearchPath,
+    query: string
+  ) => SearchChange<RecentSearch>;
+  storeError: ErrorObject | null;
+  isLoaded: boolean;
+};
+
+export const SearchHistoryContext = createContext<SearchHistoryContextProps>({
+  savedSearches: [],
+  recentSearches: [],
+  saveSearch: async () => ok([]),
+  removeSavedSearch: async () => ok([]),
+  visitSavedSearch: async () => ok([]),
+  addRecentSearch: async () => ok([]),
+  storeError: null,
+  isLoaded: false,
+});
+
+/**
+ * Initial value for lists with no searches; shared so that `useLocalStorage` gets the same
+ * initial value on every render.
+ */
+const NO_SEARCHES: never[] = [];
+
+/**
+ * Analogous to `useLocalStorage`, but keeps the searches of signed-in users in igvfd instead of
+ * the browser. The returned function changes the searches by passing the latest ones to `update`,
+ * so that quick changes -- like recording a visit while the user saves a search -- each build on
+ * the one before instead of overwriting it. Changes do nothing until the searches have loaded, so
+ * that changes made during page load can't overwrite searches that haven't arrived yet. Searches
+ * that igvfd fails to load never count as loaded, and changes to them fail with the load error;
+ * storing a list rebuilt from nothing would erase the user's searches. Changes that igvfd fails
+ * to store get rolled back, and the error stays available until a change succeeds.
+ * @param {string} storageKey localStorage key of the signed-out user's searches
+ * @param {string} storePath Path of the igvfd store of the signed-in user's searches
+ * @returns {array} [
+ *   0: Stored searches
+ *   1: Function to change the stored searches
+ *   2: True once the stored searches have loaded
+ *   3: Error from loading the searches, or from the last failed attempt to store them; null if
+ *      none
+ * ]
+ */
+function useStoredSearches<T>(
+  storageKey: string,
+  storePath: string
+): [
+  T[],
+  (update: (searches: T[]) => T[]) => SearchChange<T>,
+  boolean,
+  ErrorObject | null,
+] {
+  const { isAuthenticated, isLoading } = useAuth0();
+  const { session } = useSessionContext();
+  const [localSearches, setLocalSearches] = useLocalStorage<T[]>(
+    storageKey,
+    NO_SEARCHES
+  );
+  const [isLocalLoaded, setIsLocalLoaded] = useState(false);
+  const [storedSearches, setStoredSearches] = useState<T[] | null>(null);
+  const [loadError, setLoadError] = useState<ErrorObject | null>(null);
+  const [storeError, setStoreError] = useState<ErrorObject | null>(null);
+  const isStored = isAuthenticated && Boolean(session);
+  const searches = (isStored ? storedSearches : localSearches) || NO_SEARCHES;
+
+  // Latest searches, including changes made since the last render
+  const latestSearches = useRef<T[]>(searches);
+  latestSearches.current = searches;
+
+  // `useLocalStorage` reads localStorage once the component mounts, so the local searches have
+  // loaded by the render after that.
+  useEffect(() => {
+    setIsLocalLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (isStored && storedSearches === null) {
+      const request = new FetchRequest({ session });
+      getStoredSearches<T>(request, storePath).then((response) => {
+        if (response.isErr()) {
+          setLoadError(response.unwrap_err());
+        } else {
+          setLoadError(null);
+          setStoredSearches(response.unwrap());
+        }
+      });
+    }
+  }, [isStored, storedSearches, session, storePath]);
+
+  const isLoaded =
+    !isLoading && (isStored ? storedSearches !== null : isLocalLoaded);
+
+  async function changeSearches(update: (searches: T[]) => T[]) {
+    const previous = latestSearches.current;
+    if (!isLoaded) {
+      return isStored && loadError
+        ? err<T[], ErrorObject>(loadError)
+        : ok<T[], ErrorObject>(previous);
+    }
+    const next = update(previous);
+    latestSearches.current = next;
+    if (!isStored) {
+      setLocalSearches(next);
+      return ok<T[], ErrorObject>(next);
+    }
+
+    setStoredSearches(next);
+    const response = await putStoredSearches(
+      new FetchRequest({ session }),
+      storePath,
+      next
+    );
+    if (response.isErr()) {
+      // Roll back unless a later change has already replaced this one.
+      if (latestSearches.current === next) {
+        latestSearches.current = previous;
+        setStoredSearches(previous);
+      }
+      setStoreError(response.unwrap_err());
+      return response.map(() => previous);
+    }
+    setStoreError(null);
+    return ok<T[], ErrorObject>(next);
+  }
+
+  return [
+    searches,
+    changeSearches,
+    isLoaded,
+    (isStored && loadError) || storeError,
+  ];
+}
+
+/**
+ * Provides the user's saved and recent searches, and the functions to change them, to the
+ * components within it. Place this within <SessionContextProvider> so that it can tell whether
+ * the user has signed in.
+ */
+export function SearchHistoryContextProvider({
+  children,
+}: SearchHistoryContextProviderProps) {
+  const [savedSearches, changeSavedSearches, isSavedLoaded, savedError] =
+    useStoredSearches<SavedSearch>(
+      SAVED_SEARCHES_STORAGE_KEY,
+      SAVED_SEARCHES_PATH
+    );
+  const [recentSearches, changeRecentSearches, isRecentLoaded, recentError] =
+    useStoredSearches<RecentSearch>(
+      RECENT_SEARCHES_STORAGE_KEY,
+      RECENT_SEARCHES_PATH
+    );
+
+  return (
+    <SearchHistoryContext.Provider
+      value={{
+        savedSearches,
+        recentSearches,
+        saveSearch: (name, path, query, count) =>
+          changeSavedSearches((searches) =>
+            withSavedSearch(searches, name, path, query, count)
+          ),
+        removeSavedSearch: (id) =>
+          changeSavedSearches((searches) => withoutSavedSearch(searches, id)),
+        visitSavedSearch: (id, count) =>
+          changeSavedSearches((searches) =>
+            withVisitedSearch(searches, id, count)
+          ),
+        addRecentSearch: (title, path, query) =>
+          changeRecentSearches((searches) =>
+            withRecentSearch(searches, title, path, query)
+          ),
+        storeError: savedError || recentError,
+        isLoaded: isSavedLoaded && isRecentLoaded,
+      }}
+    >
+      {children}
+    </SearchHistoryContext.Provider>
+  );
+}
+
+type SearchHistoryContextProviderProps = {
+  children: React.ReactNode;
+};
+
+/**
+ * Custom hook to access the search-history context.
+ * @returns {SearchHistoryContextProps} The user's saved and recent searches
+ */
+export function useSearchHistoryContext() {
+  return useContext(SearchHistoryContext);
+}
@@ -27,6 +27,7 @@ import {
   logoutDataProvider,
 } from "@/lib/authentication";
 import { getCollectionTitles } from "@/lib/collection-titles";
+import { AUTH_ERROR_URI } from "@/lib/constants";
 import { getProfiles } from "@/lib/profiles";
 // context
 import { useAuthenticationContext } from "@/context/authentication";
@@ -179,23 +180,18 @@ export function SessionContextProvider({
           return loginDataProvider(signedOutSession!, getAccessTokenSilently);
         })
         .then((sessionPropertiesResponse) => {
-          if (
-            !sessionPropertiesResponse ||
-            sessionPropertiesResponse.status === "error"
-          ) {
+          if (!sessionPropertiesResponse) {
             // Auth0 authenticated successfully, but we couldn't authenticate with igvfd. Log back
             // out of Auth0 and go to an error page.
             authenticationContext.setAuthTransitionPath("");
-            logoutAuthProvider(logout, "/auth-error");
+            logoutAuthProvider(logout, AUTH_ERROR_URI);
             return null;
           }
 
           // Auth0 and the server authenticated successfully. Set the session-properties object in
           // the session context so that any downstream component can retrieve it without doing a
           // request to /session-properties.
-          setSessionProperties(
-            sessionPropertiesResponse as SessionPropertiesObject
-          );
+          setSessionProperties(sessionPropertiesResponse);
           return getSession(dataProviderUrl);
         })
         .then((signedInSession) => {
@@ -93,8 +93,10 @@ export interface SchemaProperty {
   items?: SchemaProperty;
   properties?: SchemaProperties;
   enum?: string[];
+  format?: string;
   anyOf?: object[];
   oneOf?: object[];
+  linkTo?: string | string[];
   notSubmittable?: boolean;
   readonly?: boolean;
   permission?: string;
@@ -113,6 +115,7 @@ export interface Schema {
   "@type": string[];
   additionalProperties: boolean;
   changelog?: string;
+  columns?: SearchResultsColumns;
   dependentSchemas?: {
     [key: string]: {
       [key: string]: unknown;
@@ -186,13 +189,24 @@ export interface SearchResultsFacetGroup {
 
 export interface SearchResultsFacet {
   field: string;
-  terms: {
-    doc_count: number;
-    key: string;
-  }[];
+  title: string;
+  terms: SearchResultsFacetTerm[];
+  open_on_load?: boolean;
+  total?: number;
+  type?: string;
   [key: string]: unknown;
 }
 
+/**
+ * Single term of a search-results facet. Boolean and numeric facets have numeric keys along with
+ * their string forms in `key_as_string`.
+ */
+export interface SearchResultsFacetTerm {
+  doc_count: number;
+  key: string | number;
+  key_as_string?: string;
+}
+
 export interface SearchResultsFilter {
   field: string;
   remove: string;
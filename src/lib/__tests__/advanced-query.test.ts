@@ -0,0 +1,143 @@
+import {
+  emptyAdvancedQueryGroup,
+  parseAdvancedQuery,
+  serializeAdvancedQuery,
+  type AdvancedQueryGroup,
+} from "@/lib/advanced-query";
+
+/**
+ * Parse an advanced query that must have valid syntax.
+ * @param {string} query Advanced query to parse
+ * @returns {AdvancedQueryGroup} Root group of the query
+ */
+function parse(query: string): AdvancedQueryGroup {
+  return parseAdvancedQuery(query).unwrap();
+}
+
+describe("Test parsing advanced queries", () => {
+  it("parses an empty query to an empty group", () => {
+    expect(parse("")).toEqual(emptyAdvancedQueryGroup());
+    expect(parse("   ")).toEqual(emptyAdvancedQueryGroup());
+  });
+
+  it("parses terms, ranges, and negation", () => {
+    expect(
+      parse(
+        'lab.title:"Mock Lab" NOT status:deleted creation_timestamp:[2024-01-01 TO *]'
+      )
+    ).toEqual({
+      kind: "group",
+      operator: "AND",
+      isNegated: false,
+      clauses: [
+        {
+          kind: "term",
+          field: "lab.title",
+          value: "Mock Lab",
+          isNegated: false,
+        },
+        { kind: "term", field: "status", value: "deleted", isNegated: true },
+        {
+          kind: "range",
+          field: "creation_timestamp",
+          start: "2024-01-01",
+          end: "",
+          isNegated: false,
+        },
+      ],
+    });
+  });
+
+  it("binds AND more tightly than OR", () => {
+    const root = parse("a:1 AND b:2 OR c:3");
+    expect(root.operator).toBe("OR");
+    expect(root.clauses).toHaveLength(2);
+    expect(root.clauses[0]).toMatchObject({
+      kind: "group",
+      operator: "AND",
+      clauses: [{ value: "1" }, { value: "2" }],
+    });
+    expect(root.clauses[1]).toMatchObject({ kind: "term", value: "3" });
+  });
+
+  it("keeps parenthesized groups and their negation", () => {
+    const root = parse("status:released AND NOT (a:1 OR b:2)");
+    expect(root.clauses[1]).toMatchObject({
+      kind: "group",
+      operator: "OR",
+      isNegated: true,
+    });
+  });
+});
+
+describe("Test advanced-query syntax errors", () => {
+  it.each([
+    ['status:"released', 7, "Missing closing quote"],
+    ["status:released AND", 19, "Expected a condition at the end of the query"],
+    ["(status:released", 16, "Expected ) at the end of the query"],
+    ["status:released)", 15, "Expected AND, OR, or the end of the query"],
+    [":released", 0, "Expected a field name before :"],
+    ["date:[2024 2025]", 11, "Expected TO but found 2025"],
+    ["date:[2024 TO 2025", 18, "Expected ] at the end of the query"],
+    ["OR status:released", 0, "Expected a condition but found OR"],
+  ])("reports the position of the error in %s", (query, position, message) => {
+    const error = parseAdvancedQuery(query).unwrap_err();
+    expect(error.position).toBe(position);
+    expect(error.message).toMatch(message);
+  });
+});
+
+describe("Test serializing advanced queries", () => {
+  it.each([
+    "status:released",
+    'lab.title:"J. Michael Cherry, Stanford" AND status:released',
+    "status:released OR status:archived",
+    "(a:1 OR b:2) AND NOT c:3",
+    "NOT (a:1 AND b:2) OR d:4",
+    "creation_timestamp:[2024-01-01 TO 2024-01-31] AND release_timestamp:[* TO 2024-06-30]",
+    'summary:"has \\"quotes\\" and \\\\ backslashes"',
+    "free-text AND status:released",
+    '"quoted text" OR field:"with (parentheses)"',
+  ])("round-trips %s", (query) => {
+    const root = parse(query);
+    const serialized = serializeAdvancedQuery(root);
+    expect(serialized).toBe(query);
+    expect(parse(serialized)).toEqual(root);
+  });
+
+  it("adds the AND that adjacent conditions imply", () => {
+    expect(serializeAdvancedQuery(parse("a:1 b:2"))).toBe("a:1 AND b:2");
+  });
+
+  it("leaves out empty groups and unfinished conditions", () => {
+    const root: AdvancedQueryGroup = {
+      ...emptyAdvancedQueryGroup(),
+      clauses: [
+        { kind: "term", field: "status", value: "released", isNegated: false },
+        { kind: "term", field: "lab.title", value: "", isNegated: true },
+        {
+          kind: "range",
+          field: "creation_timestamp",
+          start: "",
+          end: "",
+          isNegated: false,
+        },
+        emptyAdvancedQueryGroup("OR"),
+      ],
+    };
+    expect(serializeAdvancedQuery(root)).toBe("status:released");
+    expect(serializeAdvancedQuery(emptyAdvancedQueryGroup())).toBe("");
+  });
+
+  it("quotes values that would change the meaning of the query", () => {
+    const root: AdvancedQueryGroup = {
+      ...emptyAdvancedQueryGroup(),
+      clauses: [
+        { kind: "term", field: "summary", value: "a:b (c)", isNegated: false },
+      ],
+    };
+    const serialized = serializeAdvancedQuery(root);
+    expect(serialized).toBe('summary:"a:b (c)"');
+    expect(parse(serialized)).toEqual(root);
+  });
+});
@@ -0,0 +1,128 @@
+import {
+  clearFilterQuery,
+  facetExistence,
+  facetForFilter,
+  facetTermId,
+  facetTermKey,
+  setFacetExistence,
+  toggleFacetTerm,
+} from "@/lib/facets";
+import { QueryString } from "@/lib/query-string";
+import type { SearchResultsFacet } from "@/globals.d";
+
+describe("Test facetTermKey and facetTermId", () => {
+  it("uses the string form of boolean and numeric terms", () => {
+    expect(facetTermKey({ key: 1, key_as_string: "true", doc_count: 3 })).toBe(
+      "true"
+    );
+    expect(facetTermKey({ key: 25, doc_count: 3 })).toBe("25");
+    expect(facetTermKey({ key: "released", doc_count: 3 })).toBe("released");
+  });
+
+  it("generates checkbox label IDs from the field and term", () => {
+    expect(facetTermId("lab.title", "J. Michael Cherry")).toBe(
+      "facet-checkbox-lab.title-j-michael-cherry"
+    );
+  });
+});
+
+describe("Test toggleFacetTerm", () => {
+  it("selects and deselects terms from the first page", () => {
+    const selected = toggleFacetTerm(
+      "type=File&from=25",
+      "status",
+      "released",
+      false
+    );
+    expect(selected).toBe("type=File&status=released");
+    expect(toggleFacetTerm(selected, "status", "released", false)).toBe(
+      "type=File"
+    );
+  });
+
+  it("switches the polarity of terms the query already has", () => {
+    expect(
+      toggleFacetTerm("type=File&status=released", "status", "released", true)
+    ).toBe("type=File&status!=released");
+    expect(
+      toggleFacetTerm("type=File&status!=released", "status", "released", false)
+    ).toBe("type=File&status=released");
+  });
+
+  it("leaves other terms of the field alone", () => {
+    expect(
+      toggleFacetTerm(
+        "type=File&status=released&status!=deleted",
+        "status",
+        "archived",
+        false
+      )
+    ).toBe("type=File&status=released&status!=deleted&status=archived");
+  });
+});
+
+describe("Test facet existence filters", () => {
+  it("reads the existence filter of a field", () => {
+    const parameters = new QueryString(
+      "type=File&lab.title=*&award!=*"
+    ).getParameters();
+    expect(facetExistence(parameters, "lab.title")).toBe("exists");
+    expect(facetExistence(parameters, "award")).toBe("missing");
+    expect(facetExistence(parameters, "status")).toBe("any");
+  });
+
+  it("keeps selected terms when filtering on existing fields", () => {
+    expect(
+      setFacetExistence("type=File&status=released", "status", "exists")
+    ).toBe("type=File&status=released&status=*");
+  });
+
+  it("replaces selected terms when filtering on missing fields", () => {
+    expect(
+      setFacetExistence(
+        "type=File&status=released&status!=deleted&from=25",
+        "status",
+        "missing"
+      )
+    ).toBe("type=File&status!=deleted&status!=*");
+  });
+
+  it("removes the existence filter", () => {
+    expect(setFacetExistence("type=File&status!=*", "status", "any")).toBe(
+      "type=File"
+    );
+  });
+});
+
+describe("Test filters", () => {
+  it("clears a filter with igvfd's query and starts from the first page", () => {
+    expect(
+      clearFilterQuery({
+        field: "status",
+        term: "released",
+        remove: "/search/?type=File&from=50",
+      })
+    ).toBe("type=File");
+    expect(
+      clearFilterQuery({ field: "type", term: "File", remove: "/search/" })
+    ).toBe("");
+  });
+
+  it("finds the facet of selected and negated filters", () => {
+    const facets = [
+      { field: "type", title: "Object Type", terms: [] },
+      { field: "status", title: "Status", terms: [] },
+    ] as SearchResultsFacet[];
+    const remove = "/search/?type=File";
+    expect(
+      facetForFilter({ field: "status!", term: "deleted", remove }, facets)
+        ?.title
+    ).toBe("Status");
+    expect(
+      facetForFilter({ field: "type", term: "File", remove }, facets)?.title
+    ).toBe("Object Type");
+    expect(
+      facetForFilter({ field: "lab.title", term: "Lab", remove }, facets)
+    ).toBeUndefined();
+  });
+});
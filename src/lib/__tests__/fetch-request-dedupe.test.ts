@@ -0,0 +1,90 @@
+/**
+ * @jest-environment node
+ */
+import { FetchRequest } from "@/lib/fetch-request";
+
+/**
+ * Values that React's `cache()` holds for the current mock server render, keyed by the cached
+ * function. Clearing it starts a new render.
+ */
+const mockRenderCache = new Map<unknown, unknown>();
+
+// The React build jest uses doesn't include `cache()`, so stand in for it with one render at a time.
+jest.mock("react", () => ({
+  ...jest.requireActual("react"),
+  cache: (f: () => unknown) => (): unknown => {
+    if (!mockRenderCache.has(f)) {
+      mockRenderCache.set(f, f());
+    }
+    return mockRenderCache.get(f);
+  },
+}));
+
+describe("Test merging identical requests within a server render", () => {
+  const originalFetch = global.fetch;
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    mockRenderCache.clear();
+    fetchMock = jest.fn(async (url: string) =>
+      Response.json({ "@id": new URL(url, "http://localhost").pathname })
+    );
+    global.fetch = fetchMock;
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    jest.restoreAllMocks();
+  });
+
+  it("sends identical object requests once", async () => {
+    const [first, second] = await Promise.all([
+      new FetchRequest({ cookie: "session=a" }).getObject("/labs/a/"),
+      new FetchRequest({ cookie: "session=a" }).getObject("/labs/a/"),
+    ]);
+    expect(first.unwrap()).toEqual({ "@id": "/labs/a/" });
+    expect(second.unwrap()).toEqual({ "@id": "/labs/a/" });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("sends requests for different objects or users separately", async () => {
+    await Promise.all([
+      new FetchRequest({ cookie: "session=a" }).getObject("/labs/a/"),
+      new FetchRequest({ cookie: "session=a" }).getObject("/labs/b/"),
+      new FetchRequest({ cookie: "session=b" }).getObject("/labs/a/"),
+      new FetchRequest().getObject("/labs/a/"),
+    ]);
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+  });
+
+  it("sends requests with an abort signal separately", async () => {
+    const request = new FetchRequest();
+    await Promise.all([
+      request.getObject("/labs/a/", { signal: new AbortController().signal }),
+      request.getObject("/labs/a/", { signal: new AbortController().signal }),
+    ]);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("sends the requests of each render separately", async () => {
+    const request = new FetchRequest();
+    await request.getObject("/labs/a/");
+    mockRenderCache.clear();
+    await request.getObject("/labs/a/");
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("merges bulk requests only for the same paths and fields", async () => {
+    fetchMock.mockImplementation(async () =>
+      Response.json({ "@graph": [{ "@id": "/labs/a/" }], total: 1 })
+    );
+    const request = new FetchRequest();
+    await Promise.all([
+      request.getMultipleObjectsBulk(["/labs/a/"], ["@id"]),
+      request.getMultipleObjectsBulk(["/labs/a/"], ["@id"]),
+      request.getMultipleObjectsBulk(["/labs/a/"], ["@id", "title"]),
+    ]);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,555 @@
+/**
+ * @jest-environment node
+ */
+import { FetchRequest, type JsonPatchOperation } from "@/lib/fetch-request";
+
+/**
+ * Make a response whose body never finishes arriving, like one from a stalled server. The body
+ * errors once the request's signal aborts, as the body of a real fetch() response does.
+ * @param {AbortSignal} signal Signal of the request
+ * @returns {Response} Response with a stalled body
+ */
+function stalledResponse(signal: AbortSignal): Response {
+  const body = new ReadableStream({
+    start(controller) {
+      controller.enqueue(new TextEncoder().encode('{"@id":'));
+      signal.addEventListener("abort", () =>
+        controller.error(new DOMException("aborted", "AbortError"))
+      );
+    },
+  });
+  return new Response(body, { status: 200 });
+}
+
+describe("Test FetchRequest retries, timeouts, and cancellation", () => {
+  const originalFetch = global.fetch;
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    fetchMock = jest.fn();
+    global.fetch = fetchMock;
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    jest.restoreAllMocks();
+  });
+
+  it("retries transient errors and returns the body of the response that succeeds", async () => {
+    fetchMock
+      .mockResolvedValueOnce(new Response("", { status: 503 }))
+      .mockResolvedValueOnce(Response.json({ "@id": "/labs/a/" }));
+    const response = await new FetchRequest().getObject("/labs/a/", {
+      retry: { maxAttempts: 3, baseDelay: 1 },
+    });
+    expect(response.unwrap()).toEqual({ "@id": "/labs/a/" });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("reports the last attempt when transient errors persist", async () => {
+    fetchMock.mockImplementation(async () => new Response("", { status: 502 }));
+    const response = await new FetchRequest().getObject("/labs/a/", {
+      retry: { maxAttempts: 2, baseDelay: 1 },
+    });
+    expect(response.unwrap_err().code).toBe(502);
+    expect(response.unwrap_err().detail).toMatch(/^Attempt 2 of 2 failed/);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("doesn't retry errors that won't go away by themselves", async () => {
+    fetchMock.mockResolvedValue(
+      Response.json({ title: "Not Found", code: 404 }, { status: 404 })
+    );
+    const response = await new FetchRequest().getObject("/labs/missing/", {
+      retry: { maxAttempts: 3, baseDelay: 1 },
+    });
+    expect(response.unwrap_err().code).toBe(404);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("times out responses whose body stalls", async () => {
+    fetchMock.mockImplementation(async (_url, init: RequestInit) =>
+      stalledResponse(init.signal!)
+    );
+    const response = await new FetchRequest().getObject("/labs/a/", {
+      timeout: 20,
+      retry: { maxAttempts: 2, baseDelay: 1 },
+    });
+    expect(response.unwrap_err().code).toBe(504);
+    expect(response.unwrap_err().detail).toBe(
+      "Attempt 2 of 2 failed: incomplete response within 20 ms"
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("times out text responses whose body stalls", async () => {
+    fetchMock.mockImplementation(async (_url, init: RequestInit) =>
+      stalledResponse(init.signal!)
+    );
+    const response = await new FetchRequest().getText("/robots.txt", {
+      timeout: 20,
+      retry: { maxAttempts: 1, baseDelay: 1 },
+    });
+    expect(response.unwrap_err().code).toBe(504);
+  });
+
+  it("cancels the request while reading the body", async () => {
+    const controller = new AbortController();
+    fetchMock.mockImplementation(async (_url, init: RequestInit) => {
+      setTimeout(() => controller.abort(), 10);
+      return stalledResponse(init.signal!);
+    });
+    const response = await new FetchRequest().getObject("/labs/a/", {
+      timeout: 0,
+      signal: controller.signal,
+    });
+    expect(response.unwrap_err().code).toBe(499);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("skips the backoff once the request has been cancelled", async () => {
+    const controller = new AbortController();
+    // Cancel the request while the failed response gets discarded, just before the backoff.
+    fetchMock.mockImplementation(
+      async () =>
+        new Response(new ReadableStream({ cancel: () => controller.abort() }), {
+          status: 503,
+        })
+    );
+    const start = Date.now();
+    const response = await new FetchRequest().getObject("/labs/a/", {
+      retry: { maxAttempts: 3, baseDelay: 60000 },
+      signal: controller.signal,
+    });
+    expect(response.unwrap_err().code).toBe(499);
+    expect(Date.now() - start).toBeLessThan(1000);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("Test FetchRequest caching", () => {
+  const originalFetch = global.fetch;
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    fetchMock = jest.fn(async () => Response.json({ "@id": "/labs/a/" }));
+    global.fetch = fetchMock;
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    jest.restoreAllMocks();
+  });
+
+  it("skips the shared cache by default", async () => {
+    const request = new FetchRequest();
+    await request.getObject("/labs/a/");
+    await request.getObjectByUrl("http://localhost:8000/session");
+    await request.getText("/robots.txt");
+    fetchMock.mock.calls.forEach(([, init]) => {
+      expect(init.cache).toBe("no-store");
+      expect(init.next).toBeUndefined();
+    });
+  });
+
+  it("tags the responses of requests that opt into the cache", async () => {
+    const request = new FetchRequest();
+    await request.getObject("/labs/a/", { noCache: false });
+    await request.getObject("/search/?type=Lab", { noCache: false });
+    await request.getObjectByUrl("http://localhost:8000/profiles", {
+      noCache: false,
+    });
+    expect(fetchMock.mock.calls.map(([, init]) => init.next)).toEqual([
+      { revalidate: 15, tags: ["id:/labs/a/"] },
+      { revalidate: 15, tags: ["search"] },
+      { revalidate: 15, tags: ["search"] },
+    ]);
+  });
+});
+
+describe("Test FetchRequest bulk requests", () => {
+  const originalFetch = global.fetch;
+  let fetchMock: jest.Mock;
+
+  /**
+   * Answer searches for `@id`s like the data provider, returning at most `maxPage` objects per
+   * request. Paths ending in `MISSING/` match no object.
+   * @param {number} maxPage Most objects the mock returns per request
+   * @returns {jest.Mock} Mock fetch()
+   */
+  function mockBulkFetch(maxPage: number): jest.Mock {
+    return jest.fn(async (url: string) => {
+      const { searchParams } = new URL(url, "http://localhost");
+      const matches = searchParams
+        .getAll("@id")
+        .filter((id) => !id.endsWith("MISSING/"));
+      const from = Number(searchParams.get("from")) || 0;
+      const limit = Math.min(Number(searchParams.get("limit")) || 25, maxPage);
+      if (matches.length === 0) {
+        return Response.json({ code: 404 }, { status: 404 });
+      }
+      return Response.json({
+        "@graph": matches
+          .slice(from, from + limit)
+          .map((id) => ({ "@id": id })),
+        total: matches.length,
+      });
+    });
+  }
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    jest.restoreAllMocks();
+  });
+
+  it("splits the paths into requests whose URLs fit within the maximum length", async () => {
+    fetchMock = mockBulkFetch(1000);
+    global.fetch = fetchMock;
+    const paths = [...Array(400)].map(
+      (_, index) =>
+        `/in-vitro-systems/IGVFSM${String(index).padStart(4, "0")}AAAA/`
+    );
+    const response = await new FetchRequest().getMultipleObjectsBulkWithMissing(
+      [...paths, "/samples/IGVFSM9999MISSING/"],
+      ["@id", "accession"]
+    );
+    const { objects, missingPaths } = response.unwrap();
+    expect(objects.map((object) => object["@id"])).toEqual(paths);
+    expect(missingPaths).toEqual(["/samples/IGVFSM9999MISSING/"]);
+    expect(fetchMock.mock.calls.length).toBeGreaterThan(1);
+    fetchMock.mock.calls.forEach(([url]) => {
+      expect(url.length).toBeLessThanOrEqual(4000);
+      expect(
+        new URL(url, "http://localhost").searchParams.getAll("field")
+      ).toEqual(["@id", "accession"]);
+    });
+  });
+
+  it("pages through groups when the data provider caps its results", async () => {
+    fetchMock = mockBulkFetch(10);
+    global.fetch = fetchMock;
+    const paths = [...Array(25)].map((_, index) => `/labs/lab-${index}/`);
+    const response = await new FetchRequest().getMultipleObjectsBulk(paths, [
+      "@id",
+    ]);
+    expect(response.unwrap()).toHaveLength(25);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("returns the error of any failed request", async () => {
+    global.fetch = jest.fn(async () =>
+      Response.json({ title: "Forbidden", code: 403 }, { status: 403 })
+    );
+    const response = await new FetchRequest().getMultipleObjectsBulk(
+      ["/labs/a/"],
+      ["@id"]
+    );
+    expect(response.unwrap_err().code).toBe(403);
+  });
+});
+
+describe("Test FetchRequest search iteration", () => {
+  const originalFetch = global.fetch;
+  let fetchMock: jest.Mock;
+
+  /**
+   * Answer searches like the data provider, which refuses to page past 10000 results. Objects have
+   * `uuid`s in `@id` order, and searches sorted by `uuid` honor an `advancedQuery=` range after a
+   * `uuid`. Searches of `type=Nothing` match no object.
+   * @param {number} total Number of objects the searches match
+   * @returns {jest.Mock} Mock fetch()
+   */
+  function mockSearchFetch(total: number): jest.Mock {
+    return jest.fn(async (url: string) => {
+      const { searchParams } = new URL(url, "http://localhost");
+      if (searchParams.get("type") === "Nothing") {
+        return Response.json({ code: 404 }, { status: 404 });
+      }
+      const from = Number(searchParams.get("from")) || 0;
+      const limit = Number(searchParams.get("limit")) || 25;
+      if (from + limit > 10000) {
+        return Response.json({ code: 400 }, { status: 400 });
+      }
+      const cursor =
+        searchParams
+          .get("advancedQuery")
+          ?.match(/^uuid:\{(.+) TO \*\}$/)?.[1] || "";
+      const objects = [...Array(total)]
+        .map((_, index) => ({
+          "@id": `/files/${index}/`,
+          uuid: String(index).padStart(6, "0"),
+        }))
+        .filter((object) => object.uuid > cursor);
+      return Response.json({
+        "@graph": objects.slice(from, from + limit),
+        total: objects.length,
+      });
+    });
+  }
+
+  /**
+   * Collect the results of an iteration.
+   * @param {AsyncGenerator<T>} iterator Iterator to collect
+   * @returns {Promise<T[]>} Everything the iterator yields
+   */
+  async function collect<T>(iterator: AsyncGenerator<T>): Promise<T[]> {
+    const results: T[] = [];
+    for await (const result of iterator) {
+      results.push(result);
+    }
+    return results;
+  }
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    jest.restoreAllMocks();
+  });
+
+  it("requests the given fields and yields every object a page at a time", async () => {
+    fetchMock = mockSearchFetch(7);
+    global.fetch = fetchMock;
+    const results = await collect(
+      new FetchRequest().searchObjects("type=File&field=status", {
+        pageSize: 3,
+        fields: ["@id", "uuid"],
+      })
+    );
+    expect(results.map((result) => result.unwrap()["@id"])).toEqual(
+      [...Array(7)].map((_, index) => `/files/${index}/`)
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    fetchMock.mock.calls.forEach(([url]) => {
+      expect(
+        new URL(url, "http://localhost").searchParams.getAll("field")
+      ).toEqual(["@id", "uuid"]);
+    });
+  });
+
+  it("keeps the last page within the result window", async () => {
+    fetchMock = mockSearchFetch(10000);
+    global.fetch = fetchMock;
+    const results = await collect(
+      new FetchRequest().searchObjects("type=File", { pageSize: 3000 })
+    );
+    expect(results).toHaveLength(10000);
+    expect(results.every((result) => result.isOk())).toBe(true);
+    const limits = fetchMock.mock.calls.map(([url]) =>
+      new URL(url, "http://localhost").searchParams.get("limit")
+    );
+    expect(limits).toEqual(["3000", "3000", "3000", "1000"]);
+  });
+
+  it("iterates in uuid order past the result window", async () => {
+    fetchMock = mockSearchFetch(10005);
+    global.fetch = fetchMock;
+    const results = await collect(
+      new FetchRequest().searchObjects("type=File", {
+        pageSize: 4000,
+        fields: ["@id"],
+      })
+    );
+    expect(results).toHaveLength(10005);
+    expect(new Set(results.map((result) => result.unwrap()["@id"])).size).toBe(
+      10005
+    );
+    fetchMock.mock.calls.slice(1).forEach(([url]) => {
+      const { searchParams } = new URL(url, "http://localhost");
+      expect(searchParams.get("sort")).toBe("uuid");
+      expect(searchParams.getAll("field")).toEqual(["@id", "uuid"]);
+    });
+  });
+
+  it("yields nothing for searches that match nothing", async () => {
+    global.fetch = mockSearchFetch(0);
+    const results = await collect(
+      new FetchRequest().searchObjects("type=Nothing")
+    );
+    expect(results).toEqual([]);
+  });
+
+  it("yields the error of a failed page and then ends", async () => {
+    global.fetch = jest.fn(async () =>
+      Response.json({ title: "Forbidden", code: 403 }, { status: 403 })
+    );
+    const results = await collect(
+      new FetchRequest().searchObjects("type=File")
+    );
+    expect(results).toHaveLength(1);
+    expect(results[0].unwrap_err().code).toBe(403);
+  });
+});
+
+describe("Test FetchRequest response bodies that aren't JSON", () => {
+  const originalFetch = global.fetch;
+  const noRetry = { retry: { maxAttempts: 1, baseDelay: 1 } };
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    jest.restoreAllMocks();
+  });
+
+  it("uses the text of HTML error pages as the error details", async () => {
+    global.fetch = jest.fn(
+      async () =>
+        new Response(
+          "<html><head><style>h1 { color: red; }</style></head><body><h1>403 Forbidden</h1><p>nginx</p></body></html>",
+          { status: 403, statusText: "Forbidden" }
+        )
+    );
+    const response = await new FetchRequest().getObject("/labs/a/", noRetry);
+    expect(response.unwrap_err()).toMatchObject({
+      "@type": ["HTTPForbidden", "Error"],
+      code: 403,
+      title: "Forbidden",
+      detail: "403 Forbidden nginx",
+    });
+  });
+
+  it("describes error responses without a body", async () => {
+    global.fetch = jest.fn(async () => new Response(null, { status: 401 }));
+    const response = await new FetchRequest().getObject("/labs/a/", noRetry);
+    expect(response.unwrap_err()).toMatchObject({
+      "@type": ["HTTP401", "Error"],
+      code: 401,
+      title: "HTTP 401",
+      detail: "The server returned an empty response.",
+    });
+  });
+
+  it("keeps the HTTP status of JSON error bodies without a code", async () => {
+    global.fetch = jest.fn(async () =>
+      Response.json(
+        { title: "Conflict", description: "Keys conflict" },
+        { status: 409, statusText: "Conflict" }
+      )
+    );
+    const response = await new FetchRequest().getObject("/labs/a/", noRetry);
+    expect(response.unwrap_err()).toMatchObject({
+      code: 409,
+      title: "Conflict",
+      detail: "Keys conflict",
+      isError: true,
+    });
+  });
+
+  it("reports successful responses whose body isn't JSON", async () => {
+    global.fetch = jest.fn(
+      async () => new Response("<html>Sign in</html>", { status: 200 })
+    );
+    const response = await new FetchRequest().getObject("/labs/a/", noRetry);
+    expect(response.unwrap_err()).toMatchObject({
+      "@type": ["InvalidResponseError", "Error"],
+      code: 502,
+      detail: "Expected JSON with status 200 but got: Sign in",
+    });
+  });
+
+  it("shortens long error bodies", async () => {
+    global.fetch = jest.fn(
+      async () => new Response("x".repeat(1000), { status: 400 })
+    );
+    const response = await new FetchRequest().getObject("/labs/a/", noRetry);
+    const { detail } = response.unwrap_err();
+    expect(detail!.length).toBeLessThan(1000);
+    expect(detail!.endsWith("…")).toBe(true);
+  });
+});
+
+describe("Test FetchRequest patch and delete requests", () => {
+  const originalFetch = global.fetch;
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    fetchMock = jest.fn(async () => new Response(null, { status: 204 }));
+    global.fetch = fetchMock;
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    jest.restoreAllMocks();
+  });
+
+  it("sends JSON Patch operations with their content type", async () => {
+    const operations: JsonPatchOperation[] = [
+      { op: "remove", path: "/aliases/0" },
+      { op: "replace", path: "/summary", value: "New summary" },
+    ];
+    const response = await new FetchRequest().jsonPatchObject(
+      "/labs/a/",
+      operations
+    );
+    expect(response.unwrap().status).toBe("success");
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toMatch(/\/labs\/a\/$/);
+    expect(init.method).toBe("PATCH");
+    expect(init.headers.get("Content-Type")).toBe(
+      "application/json-patch+json"
+    );
+    expect(JSON.parse(init.body)).toEqual(operations);
+  });
+
+  it("sends merge-patch documents with their content type", async () => {
+    await new FetchRequest().mergePatchObject("/labs/a/", {
+      summary: null,
+      title: "Lab A",
+    });
+    const [, init] = fetchMock.mock.calls[0];
+    expect(init.method).toBe("PATCH");
+    expect(init.headers.get("Content-Type")).toBe(
+      "application/json-merge-patch+json"
+    );
+    expect(JSON.parse(init.body)).toEqual({ summary: null, title: "Lab A" });
+  });
+
+  it("deletes objects without a request body and accepts empty responses", async () => {
+    const response = await new FetchRequest().deleteObject("/labs/a/");
+    expect(response.unwrap()).toEqual({
+      "@graph": [],
+      "@type": ["result"],
+      status: "success",
+    });
+    const [, init] = fetchMock.mock.calls[0];
+    expect(init.method).toBe("DELETE");
+    expect(init.body).toBeUndefined();
+  });
+
+  it("returns the write response of the data provider", async () => {
+    fetchMock.mockResolvedValueOnce(
+      Response.json({
+        "@graph": [{ "@id": "/labs/a/" }],
+        "@type": ["result"],
+        status: "success",
+      })
+    );
+    const response = await new FetchRequest().patchObject("/labs/a/", {
+      title: "Lab A",
+    });
+    expect(response.unwrap()["@graph"]).toEqual([{ "@id": "/labs/a/" }]);
+  });
+
+  it("doesn't retry failed writes", async () => {
+    fetchMock.mockResolvedValue(
+      Response.json({ code: 503, title: "Unavailable" }, { status: 503 })
+    );
+    const response = await new FetchRequest().mergePatchObject("/labs/a/", {
+      title: "Lab A",
+    });
+    expect(response.unwrap_err().code).toBe(503);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
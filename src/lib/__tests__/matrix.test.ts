@@ -0,0 +1,295 @@
+import { err, ok } from "@/lib/result";
+import type { FetchRequest } from "@/lib/fetch-request";
+import {
+  getDataMatrix,
+  matrixAxes,
+  matrixCellQuery,
+  matrixSearchQuery,
+} from "@/lib/matrix";
+import { QueryString } from "@/lib/query-string";
+import type { SearchResults } from "@/globals.d";
+
+/**
+ * Items of the mock searches, keyed by facet field. Fields with several values hold arrays.
+ */
+const ITEMS: Record<string, string | string[]>[] = [
+  { assay: "ATAC-seq", sample: "K562", classification: "cell line" },
+  { assay: "ATAC-seq", sample: "liver", classification: "tissue" },
+  { assay: "RNA-seq", sample: "K562", classification: "cell line" },
+  {
+    assay: "RNA-seq",
+    sample: "organoid",
+    classification: ["cell line", "tissue"],
+  },
+  { assay: "STARR-seq", sample: "HepG2", classification: [] },
+  { assay: "DNase-seq", sample: "liver", classification: "tissue" },
+];
+const FIELDS = ["assay", "sample", "classification"];
+
+/**
+ * Find the mock items matching a query the way the data provider does: values of the same field
+ * get ORed, and different fields get ANDed.
+ * @param {QueryString} queryString Query of the search
+ * @param {string} ignoredField Field whose selected terms don't filter the items
+ * @returns {Record<string, string | string[]>[]} Matching items
+ */
+function matchingItems(
+  queryString: QueryString,
+  ignoredField = ""
+): Record<string, string | string[]>[] {
+  return ITEMS.filter((item) =>
+    FIELDS.every((field) => {
+      const selected = queryString.getKeyValues(field);
+      const values = [item[field]].flat();
+      return (
+        field === ignoredField ||
+        selected.length === 0 ||
+        selected.some((term) => values.includes(term))
+      );
+    })
+  );
+}
+
+/**
+ * Search the mock items. Like the data provider's, each facet counts its terms in the items that
+ * match every selection except those of its own field.
+ * @param {string} query Query string of the search
+ * @returns {SearchResults} Mock search results
+ */
+function mockSearch(query: string): SearchResults {
+  const queryString = new QueryString(query);
+  const matches = matchingItems(queryString);
+  const facets = FIELDS.map((field) => {
+    const counts = new Map<string, number>();
+    matchingItems(queryString, field).forEach((item) =>
+      [item[field]]
+        .flat()
+        .forEach((term) => counts.set(term, (counts.get(term) || 0) + 1))
+    );
+    return {
+      field,
+      title: field,
+      terms: [...counts].map(([key, doc_count]) => ({ key, doc_count })),
+    };
+  });
+  return {
+    "@graph": [],
+    facets,
+    total: matches.length,
+  } as unknown as SearchResults;
+}
+
+/**
+ * Make a request object whose `getMultipleObjects()` runs the mock searches, with a 404 error for
+ * searches that match nothing.
+ * @returns {FetchRequest} Mock request object
+ */
+function mockRequest(): FetchRequest {
+  return {
+    getMultipleObjects: jest.fn(async (paths: string[]) =>
+      paths.map((path) => {
+        const results = mockSearch(path.split("?")[1]);
+        return results.total > 0
+          ? ok(results)
+          : err({ isError: true, "@type": ["HTTPNotFound"], code: 404 });
+      })
+    ),
+  } as unknown as FetchRequest;
+}
+
+describe("Test matrixSearchQuery", () => {
+  it("removes the axis keys and paging", () => {
+    expect(
+      matrixSearchQuery(
+        "type=File&rows=assay&columns=sample&row_group=none&column_group=classification&from=25&limit=25&status=released"
+      )
+    ).toBe("type=File&status=released");
+  });
+
+  it("adds the default type to queries without one", () => {
+    expect(matrixSearchQuery("status=released&type!=File")).toBe(
+      "status=released&type!=File&type=MeasurementSet"
+    );
+  });
+});
+
+describe("Test matrixAxes", () => {
+  const fields = [
+    { field: "status", title: "Status" },
+    { field: "assay_term.term_name", title: "Assay" },
+    { field: "samples.sample_terms.term_name", title: "Sample" },
+    { field: "samples.classifications", title: "Classification" },
+  ];
+
+  it("uses the default axes for queries that don't choose them", () => {
+    expect(matrixAxes("type=MeasurementSet", fields)).toEqual({
+      rowField: "assay_term.term_name",
+      rowGroupField: "",
+      columnField: "samples.sample_terms.term_name",
+      columnGroupField: "samples.classifications",
+    });
+  });
+
+  it("uses the axes the query chooses", () => {
+    expect(
+      matrixAxes(
+        "rows=status&row_group=samples.classifications&columns=assay_term.term_name&column_group=none",
+        fields
+      )
+    ).toEqual({
+      rowField: "status",
+      rowGroupField: "samples.classifications",
+      columnField: "assay_term.term_name",
+      columnGroupField: "",
+    });
+  });
+
+  it("falls back to fields with facets", () => {
+    expect(
+      matrixAxes("rows=lab.title&column_group=lab.title", [
+        { field: "status", title: "Status" },
+        { field: "lab.title", title: "Lab" },
+      ]).rowField
+    ).toBe("lab.title");
+    expect(
+      matrixAxes("rows=unknown&columns=unknown", [
+        { field: "status", title: "Status" },
+        { field: "lab.title", title: "Lab" },
+      ])
+    ).toEqual({
+      rowField: "status",
+      rowGroupField: "",
+      columnField: "lab.title",
+      columnGroupField: "",
+    });
+  });
+});
+
+describe("Test matrixCellQuery", () => {
+  it("adds the terms of each field", () => {
+    expect(
+      matrixCellQuery("type=MeasurementSet", [
+        ["assay", "ATAC-seq"],
+        ["sample", "K562"],
+      ])
+    ).toBe("type=MeasurementSet&assay=ATAC-seq&sample=K562");
+  });
+
+  it("replaces the terms the search already selects for the field", () => {
+    expect(
+      matrixCellQuery(
+        "type=MeasurementSet&assay=ATAC-seq&assay=RNA-seq&assay!=STARR-seq",
+        [["assay", "RNA-seq"]]
+      )
+    ).toBe("type=MeasurementSet&assay!=STARR-seq&assay=RNA-seq");
+  });
+});
+
+describe("Test getDataMatrix", () => {
+  const axes = {
+    rowField: "assay",
+    rowGroupField: "",
+    columnField: "sample",
+    columnGroupField: "classification",
+  };
+
+  it("counts the items of each cell and groups the columns", async () => {
+    const searchQuery = "type=MeasurementSet";
+    const matrix = await getDataMatrix(
+      mockRequest(),
+      searchQuery,
+      mockSearch(searchQuery),
+      axes
+    );
+    expect(matrix.unwrap()).toEqual({
+      rowGroups: [
+        {
+          term: "",
+          headers: [
+            { term: "ATAC-seq", count: 2 },
+            { term: "RNA-seq", count: 2 },
+            { term: "STARR-seq", count: 1 },
+            { term: "DNase-seq", count: 1 },
+          ],
+        },
+      ],
+      columnGroups: [
+        {
+          term: "cell line",
+          headers: [
+            { term: "K562", count: 2 },
+            { term: "organoid", count: 1 },
+          ],
+        },
+        {
+          term: "tissue",
+          headers: [
+            { term: "liver", count: 2 },
+            { term: "organoid", count: 1 },
+          ],
+        },
+        { term: "", headers: [{ term: "HepG2", count: 1 }] },
+      ],
+      counts: {
+        "ATAC-seq": { K562: 1, liver: 1 },
+        "RNA-seq": { K562: 1, organoid: 1 },
+        "STARR-seq": { HepG2: 1 },
+        "DNase-seq": { liver: 1 },
+      },
+    });
+  });
+
+  it("only shows the terms the search selects on each axis", async () => {
+    const searchQuery =
+      "type=MeasurementSet&assay=ATAC-seq&assay=RNA-seq&classification=tissue";
+    const matrix = await getDataMatrix(
+      mockRequest(),
+      searchQuery,
+      mockSearch(searchQuery),
+      axes
+    );
+    expect(matrix.unwrap()).toEqual({
+      rowGroups: [
+        {
+          term: "",
+          headers: [
+            { term: "ATAC-seq", count: 1 },
+            { term: "RNA-seq", count: 1 },
+          ],
+        },
+      ],
+      columnGroups: [
+        {
+          term: "tissue",
+          headers: [
+            { term: "liver", count: 1 },
+            { term: "organoid", count: 1 },
+          ],
+        },
+      ],
+      counts: {
+        "ATAC-seq": { liver: 1 },
+        "RNA-seq": { organoid: 1 },
+      },
+    });
+  });
+
+  it("reports errors other than 404 from the searches", async () => {
+    const request = {
+      getMultipleObjects: jest.fn(async (paths: string[]) =>
+        paths.map(() =>
+          err({ isError: true, "@type": ["HTTPBadGateway"], code: 502 })
+        )
+      ),
+    } as unknown as FetchRequest;
+    const searchQuery = "type=MeasurementSet";
+    const matrix = await getDataMatrix(
+      request,
+      searchQuery,
+      mockSearch(searchQuery),
+      axes
+    );
+    expect(matrix.isErr()).toBe(true);
+    expect(matrix.unwrap_err().code).toBe(502);
+  });
+});
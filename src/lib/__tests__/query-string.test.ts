@@ -0,0 +1,148 @@
+import { decodeUriElement } from "@/lib/query-encoding";
+import { QueryString } from "@/lib/query-string";
+
+describe("Test QueryString parsing and formatting", () => {
+  it("round-trips a simple query string", () => {
+    const query = "type=File&status=released";
+    expect(new QueryString(query).format()).toBe(query);
+  });
+
+  it("strips a leading question mark", () => {
+    expect(new QueryString("?type=File").format()).toBe("type=File");
+  });
+
+  it("round-trips encoded values and decodes them with decodeUriElement", () => {
+    const query =
+      "type=InVitroSystem&lab.title=J.+Michael+Cherry%2C+Stanford&summary=a%26b%3Dc%28d%29";
+    const queryString = new QueryString(query);
+    expect(queryString.getKeyValues("lab.title")).toEqual([
+      decodeUriElement("J.+Michael+Cherry%2C+Stanford"),
+    ]);
+    expect(queryString.getKeyValues("summary")).toEqual(["a&b=c(d)"]);
+    expect(queryString.format()).toBe(query);
+  });
+
+  it("accepts URLSearchParams encoding", () => {
+    const params = new URLSearchParams();
+    params.append("lab.title", "J. Michael Cherry, Stanford");
+    params.append("summary", "(a:b)");
+    const queryString = new QueryString(params.toString());
+    expect(queryString.getKeyValues("lab.title")).toEqual([
+      "J. Michael Cherry, Stanford",
+    ]);
+    expect(queryString.getKeyValues("summary")).toEqual(["(a:b)"]);
+  });
+
+  it("round-trips negated keys", () => {
+    const query = "type=File&status!=deleted&status!=revoked";
+    const queryString = new QueryString(query);
+    expect(queryString.getKeyValues("status")).toEqual([]);
+    expect(queryString.getKeyValues("status", "negative")).toEqual([
+      "deleted",
+      "revoked",
+    ]);
+    expect(queryString.hasKeyValue("status", "deleted")).toBe(true);
+    expect(queryString.format()).toBe(query);
+  });
+
+  it("keeps the order of repeated keys and their values", () => {
+    const query = "type=File&status=released&type=Sample&status=archived";
+    const queryString = new QueryString(query);
+    expect(queryString.getKeyValues("type")).toEqual(["File", "Sample"]);
+    expect(queryString.getKeyValues("status")).toEqual([
+      "released",
+      "archived",
+    ]);
+    expect(queryString.format()).toBe(query);
+  });
+
+  it("round-trips advancedQuery", () => {
+    const advancedQuery =
+      'lab.title:"Mock Lab" AND release_timestamp:[2024-01-01 TO 2024-01-31]';
+    const queryString = new QueryString("type=File").setAdvancedQuery(
+      advancedQuery
+    );
+    const formatted = queryString.format();
+    expect(formatted).toBe(
+      "type=File&advancedQuery=lab.title:%22Mock+Lab%22+AND+release_timestamp:%5B2024-01-01+TO+2024-01-31%5D"
+    );
+    expect(new QueryString(formatted).getAdvancedQuery()).toBe(advancedQuery);
+    expect(new QueryString(formatted).format()).toBe(formatted);
+  });
+
+  it("encodes keys as well as values", () => {
+    const queryString = QueryString.fromParameters([
+      { field: "a b&c", term: "d e", isNegative: false },
+      { field: "@id", term: "/files/IGVFFI0000AAAA/", isNegative: false },
+    ]);
+    const formatted = queryString.format();
+    expect(formatted).toBe("a+b%26c=d+e&@id=%2Ffiles%2FIGVFFI0000AAAA%2F");
+    expect(new QueryString(formatted).getParameters()).toEqual(
+      queryString.getParameters()
+    );
+  });
+
+  it("keeps malformed encoding as is instead of throwing", () => {
+    const queryString = new QueryString("type=File&summary=100%&bad%key=x");
+    expect(queryString.getKeyValues("summary")).toEqual(["100%"]);
+    expect(queryString.getKeyValues("bad%key")).toEqual(["x"]);
+  });
+});
+
+describe("Test QueryString changes", () => {
+  it("adds values without duplicating them", () => {
+    const queryString = new QueryString("type=File")
+      .addKeyValue("status", "released")
+      .addKeyValue("status", "released")
+      .addKeyValue("status", "deleted", true);
+    expect(queryString.format()).toBe(
+      "type=File&status=released&status!=deleted"
+    );
+  });
+
+  it("sets and deletes values", () => {
+    const queryString = new QueryString(
+      "type=File&status=released&status!=deleted"
+    );
+    expect(queryString.clone().setKeyValue("status", "archived").format()).toBe(
+      "type=File&status=archived"
+    );
+    expect(queryString.clone().setKeyValue("status", "").format()).toBe(
+      "type=File"
+    );
+    expect(
+      queryString.clone().deleteKeyValue("status", "deleted").format()
+    ).toBe("type=File&status=released");
+    expect(
+      queryString
+        .clone()
+        .deleteKeyValue("status", undefined, "positive")
+        .format()
+    ).toBe("type=File&status!=deleted");
+  });
+
+  it("reads and writes paging, sorting, and fields", () => {
+    const queryString = new QueryString(
+      "type=File&from=25&limit=25&sort=-date"
+    );
+    expect(queryString.getFrom()).toBe(25);
+    expect(queryString.getLimit()).toBe(25);
+    expect(queryString.getSort()).toEqual({ field: "date", direction: "desc" });
+
+    queryString
+      .setFrom(0)
+      .setLimit(null)
+      .setSort({ field: "accession", direction: "asc" })
+      .setFields(["@id", "accession"]);
+    expect(queryString.format()).toBe(
+      "type=File&sort=accession&field=%40id&field=accession"
+    );
+    expect(queryString.getFields()).toEqual(["@id", "accession"]);
+  });
+
+  it("doesn't change the original when changing a clone", () => {
+    const queryString = new QueryString("type=File");
+    queryString.clone().addKeyValue("status", "released");
+    expect(queryString.format()).toBe("type=File");
+  });
+});
@@ -0,0 +1,77 @@
+import {
+  exportErrorRow,
+  exportFilename,
+  exportFormat,
+  exportQuery,
+  exportRow,
+  exportUrl,
+} from "@/lib/report-export";
+
+describe("Test exportRow", () => {
+  it("separates TSV fields with tabs and turns their tabs and line breaks into spaces", () => {
+    expect(exportRow(["a", "b\tc", "d\r\ne\nf", 'g,"h"'], "tsv")).toBe(
+      'a\tb c\td e f\tg,"h"\n'
+    );
+  });
+
+  it("quotes CSV fields with commas, quotes, or line breaks", () => {
+    expect(
+      exportRow(["plain", "a,b", 'say "hi"', "two\nlines", "tab\there"], "csv")
+    ).toBe('plain,"a,b","say ""hi""","two\nlines",tab\there\n');
+  });
+
+  it("keeps empty fields", () => {
+    expect(exportRow(["", "a", ""], "csv")).toBe(",a,\n");
+    expect(exportRow(["", "a", ""], "tsv")).toBe("\ta\t\n");
+  });
+});
+
+describe("Test exportErrorRow", () => {
+  it("marks the export as incomplete", () => {
+    expect(exportErrorRow("Network error, retry", "csv")).toBe(
+      '"EXPORT INCOMPLETE: Network error, retry"\n'
+    );
+    expect(exportErrorRow("Network error", "tsv")).toBe(
+      "EXPORT INCOMPLETE: Network error\n"
+    );
+  });
+});
+
+describe("Test exportFilename", () => {
+  it("names the file after the types", () => {
+    expect(exportFilename(["InVitroSystem", "Tissue"], "csv")).toBe(
+      "InVitroSystem-Tissue-report.csv"
+    );
+    expect(exportFilename([], "tsv")).toBe("search-report.tsv");
+  });
+
+  it("keeps only letters, digits, and hyphens from the types", () => {
+    expect(exportFilename(['a"; filename="evil.exe', "../x\r\n"], "tsv")).toBe(
+      "afilenameevilexe-x-report.tsv"
+    );
+    expect(exportFilename(['"', "/"], "csv")).toBe("search-report.csv");
+  });
+});
+
+describe("Test export queries", () => {
+  it("supports TSV and CSV, defaulting to TSV", () => {
+    expect(exportFormat("csv")).toBe("csv");
+    expect(exportFormat("tsv")).toBe("tsv");
+    expect(exportFormat("xlsx")).toBe("tsv");
+    expect(exportFormat(null)).toBe("tsv");
+  });
+
+  it("removes paging and the format from the query", () => {
+    expect(
+      exportQuery(
+        "type=File&from=25&limit=25&format=csv&sort=-date&field=%40id"
+      )
+    ).toBe("type=File&sort=-date&field=%40id");
+  });
+
+  it("builds the export URL of a report", () => {
+    expect(exportUrl("type=File&from=25&field=lab.title", "csv")).toBe(
+      "/api/report-export/?type=File&field=lab.title&format=csv"
+    );
+  });
+});
@@ -0,0 +1,215 @@
+import {
+  columnIdsFromQuery,
+  defaultColumnIds,
+  getReportColumns,
+  MAX_VISIBLE_COLUMNS,
+  queryWithColumns,
+  queryWithPage,
+  queryWithSort,
+  reportableColumns,
+  reportCellValue,
+  reportSchemas,
+  reportSort,
+} from "@/lib/report";
+import type { Profiles, SearchResultsObject } from "@/globals.d";
+
+/**
+ * Schemas of the mock types, with only the parts reports use. `Biosample` is an abstract type
+ * with two concrete subtypes.
+ */
+const PROFILES = {
+  Tissue: {
+    title: "Tissue",
+    properties: {
+      accession: { title: "Accession", type: "string" },
+      status: { title: "Status", type: "string" },
+      pmi: { title: "Post-mortem Interval", type: "integer" },
+    },
+    columns: { accession: { title: "Accession" }, pmi: { title: "PMI" } },
+  },
+  PrimaryCell: {
+    title: "Primary Cell",
+    properties: {
+      accession: { title: "Accession", type: "string" },
+      status: { title: "Status", type: "string" },
+      passage_number: { title: "Passage Number", type: "integer" },
+    },
+  },
+  _subtypes: { Biosample: ["Tissue", "PrimaryCell"] },
+  "@type": ["JSONSchemas"],
+} as unknown as Profiles;
+
+describe("Test reportSchemas and reportableColumns", () => {
+  it("uses the schemas of the subtypes of abstract types", () => {
+    expect(
+      reportSchemas(["Biosample"], PROFILES).map((schema) => schema.title)
+    ).toEqual(["Tissue", "Primary Cell"]);
+    expect(
+      reportSchemas(["Item"], PROFILES).map((schema) => schema.title)
+    ).toEqual(["Tissue", "Primary Cell"]);
+    expect(reportSchemas(["Unknown"], PROFILES)).toEqual([]);
+  });
+
+  it("lists the columns of all the schemas once, after the @id column", () => {
+    expect(reportableColumns(["Biosample"], PROFILES)).toEqual([
+      { id: "@id", title: "ID" },
+      { id: "accession", title: "Accession" },
+      { id: "status", title: "Status" },
+      { id: "pmi", title: "Post-mortem Interval" },
+      { id: "passage_number", title: "Passage Number" },
+    ]);
+    expect(reportableColumns(["Tissue"], null)).toEqual([
+      { id: "@id", title: "ID" },
+    ]);
+  });
+});
+
+describe("Test the default columns", () => {
+  it("uses the schema's columns for reports of one type", () => {
+    expect(
+      defaultColumnIds(["Tissue"], PROFILES, { status: { title: "Status" } })
+    ).toEqual(["@id", "accession", "pmi"]);
+  });
+
+  it("uses the search results' columns otherwise", () => {
+    expect(
+      defaultColumnIds(["Tissue", "PrimaryCell"], PROFILES, {
+        "@id": { title: "ID" },
+        status: { title: "Status" },
+      })
+    ).toEqual(["@id", "status"]);
+  });
+});
+
+describe("Test getReportColumns", () => {
+  const resultColumns = {
+    "@id": { title: "ID" },
+    accession: { title: "Accession" },
+    "lab.title": { title: "Lab" },
+  };
+
+  it("shows the default columns for queries without field=", () => {
+    const { defaultIds, visibleColumns } = getReportColumns(
+      "type=Tissue",
+      ["Tissue"],
+      PROFILES,
+      resultColumns
+    );
+    expect(defaultIds).toEqual(["@id", "accession", "pmi"]);
+    expect(visibleColumns).toEqual([
+      { id: "@id", title: "ID" },
+      { id: "accession", title: "Accession" },
+      { id: "pmi", title: "Post-mortem Interval" },
+    ]);
+  });
+
+  it("shows the columns the query selects, with the @id column first", () => {
+    const query = "type=Tissue&field=lab.title&field=status&field=@id";
+    expect(columnIdsFromQuery(query)).toEqual(["lab.title", "status", "@id"]);
+    const { visibleColumns, availableColumns } = getReportColumns(
+      query,
+      ["Tissue"],
+      PROFILES,
+      resultColumns
+    );
+    expect(visibleColumns.map((column) => column.id)).toEqual([
+      "@id",
+      "lab.title",
+      "status",
+    ]);
+    expect(availableColumns.map((column) => column.id)).toEqual([
+      "@id",
+      "accession",
+      "status",
+      "pmi",
+      "lab.title",
+    ]);
+  });
+});
+
+describe("Test the report query strings", () => {
+  const defaultIds = ["@id", "accession", "pmi"];
+
+  it("omits field= for the default columns", () => {
+    expect(
+      queryWithColumns(
+        "type=Tissue&field=status",
+        ["pmi", "accession"],
+        defaultIds
+      )
+    ).toBe("type=Tissue");
+  });
+
+  it("selects other columns with field=, keeping the @id column", () => {
+    expect(queryWithColumns("type=Tissue", ["status"], defaultIds)).toBe(
+      "type=Tissue&field=%40id&field=status"
+    );
+    expect(queryWithColumns("type=Tissue", [], defaultIds)).toBe(
+      "type=Tissue&field=%40id"
+    );
+  });
+
+  it("limits the number of columns", () => {
+    const columnIds = [...Array(MAX_VISIBLE_COLUMNS + 10)].map(
+      (_, index) => `property_${index}`
+    );
+    expect(
+      columnIdsFromQuery(queryWithColumns("type=Tissue", columnIds, defaultIds))
+    ).toHaveLength(MAX_VISIBLE_COLUMNS);
+  });
+
+  it("sorts from the first page and pages with from=", () => {
+    expect(queryWithSort("type=Tissue&from=50", "pmi", "desc")).toBe(
+      "type=Tissue&sort=-pmi"
+    );
+    expect(queryWithSort("type=Tissue&sort=-pmi", "pmi", "asc")).toBe(
+      "type=Tissue&sort=pmi"
+    );
+    expect(queryWithPage("type=Tissue&limit=25", 2, 25)).toBe(
+      "type=Tissue&limit=25&from=50"
+    );
+    expect(queryWithPage("type=Tissue&from=50", 0, 25)).toBe("type=Tissue");
+  });
+
+  it("gets the primary sort of the search results", () => {
+    expect(
+      reportSort({
+        pmi: { order: "desc", unmapped_type: "keyword" },
+        accession: { order: "asc", unmapped_type: "keyword" },
+      })
+    ).toEqual({ columnId: "pmi", direction: "desc" });
+    expect(reportSort()).toEqual({ columnId: "", direction: "asc" });
+  });
+});
+
+describe("Test reportCellValue", () => {
+  const item = {
+    "@id": "/tissues/a/",
+    "@type": ["Tissue", "Biosample", "Item"],
+    pmi: 0,
+    lab: { title: "Lab A" },
+    donors: [{ accession: "D1" }, { accession: "D2" }, { sex: "female" }],
+    aliases: [],
+    notes: null,
+    treatment: { amount: 5, units: "mM" },
+  } as unknown as SearchResultsObject;
+
+  it("follows embedded objects and arrays", () => {
+    expect(reportCellValue(item, "lab.title")).toBe("Lab A");
+    expect(reportCellValue(item, "donors.accession")).toBe("D1, D2");
+    expect(reportCellValue(item, "pmi")).toBe("0");
+  });
+
+  it("returns an empty string for missing values", () => {
+    expect(reportCellValue(item, "aliases")).toBe("");
+    expect(reportCellValue(item, "notes")).toBe("");
+    expect(reportCellValue(item, "lab.name")).toBe("");
+    expect(reportCellValue(item, "missing.title")).toBe("");
+  });
+
+  it("shows objects as JSON", () => {
+    expect(reportCellValue(item, "treatment")).toBe(
+      '{"amount":5,"units":"mM"}'
+    );
+  });
+});
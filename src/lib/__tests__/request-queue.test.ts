@@ -0,0 +1,100 @@
+import { RequestQueue } from "@/lib/request-queue";
+
+/**
+ * A task that runs until the test finishes it, recording when it starts.
+ */
+type ControlledTask = {
+  // Queues the task; pass to a lane
+  run: () => Promise<string>;
+  // Resolves the task's promise with its name
+  finish: () => void;
+};
+
+/**
+ * Make a task that records its name in `started` when it runs and waits for the test to finish it.
+ * @param {string} name Name of the task, recorded when it starts and resolved when it finishes
+ * @param {string[]} started Names of the tasks that have started, in order
+ * @returns {ControlledTask} The task and the function to finish it
+ */
+function controlledTask(name: string, started: string[]): ControlledTask {
+  let finish = () => {};
+  const run = () =>
+    new Promise<string>((resolve) => {
+      started.push(name);
+      finish = () => resolve(name);
+    });
+  return { run, finish: () => finish() };
+}
+
+/**
+ * Let queued promise callbacks run.
+ */
+async function flushPromises(): Promise<void> {
+  await new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+describe("Test RequestQueue", () => {
+  it("runs no more tasks at once than the queue and the lane allow", async () => {
+    const started: string[] = [];
+    const queue = new RequestQueue(3);
+    const lane = queue.createLane(2);
+    const tasks = ["a", "b", "c"].map((name) => controlledTask(name, started));
+    const results = Promise.all(tasks.map((task) => lane(task.run)));
+    await flushPromises();
+    expect(started).toEqual(["a", "b"]);
+
+    tasks[0].finish();
+    await flushPromises();
+    expect(started).toEqual(["a", "b", "c"]);
+
+    tasks[1].finish();
+    tasks[2].finish();
+    expect(await results).toEqual(["a", "b", "c"]);
+  });
+
+  it("takes turns starting tasks from each lane", async () => {
+    const started: string[] = [];
+    const queue = new RequestQueue(1);
+    const busyLane = queue.createLane(4);
+    const quietLane = queue.createLane(4);
+    const busyTasks = ["busy1", "busy2", "busy3"].map((name) =>
+      controlledTask(name, started)
+    );
+    const quietTask = controlledTask("quiet", started);
+    busyTasks.forEach((task) => busyLane(task.run));
+    quietLane(quietTask.run);
+
+    for (const task of [busyTasks[0], quietTask, busyTasks[1], busyTasks[2]]) {
+      await flushPromises();
+      task.finish();
+    }
+    await flushPromises();
+    expect(started).toEqual(["busy1", "quiet", "busy2", "busy3"]);
+  });
+
+  it("settles tasks that throw and frees their slots", async () => {
+    const started: string[] = [];
+    const queue = new RequestQueue(1);
+    const lane = queue.createLane(1);
+    const failing = lane((): Promise<string> => {
+      throw new Error("failed to start");
+    });
+    const next = controlledTask("next", started);
+    const result = lane(next.run);
+
+    await expect(failing).rejects.toThrow("failed to start");
+    await flushPromises();
+    expect(started).toEqual(["next"]);
+    next.finish();
+    expect(await result).toBe("next");
+  });
+
+  it("passes along the rejections of tasks", async () => {
+    const queue = new RequestQueue(2);
+    const lane = queue.createLane(2);
+    await expect(
+      lane(() => Promise.reject(new Error("request failed")))
+    ).rejects.toThrow("request failed");
+    expect(await lane(() => Promise.resolve("ok"))).toBe("ok");
+  });
+});
@@ -0,0 +1,117 @@
+import {
+  fromNullable,
+  fromResult,
+  none,
+  some,
+  type Option,
+} from "@/lib/option";
+import { combine, err, ok, tryAsync, type Result } from "@/lib/result";
+
+describe("Test combine", () => {
+  it("joins the values of Ok results in order", () => {
+    const combined = combine([
+      ok<number, string>(1),
+      ok<string, string>("lab"),
+      ok<boolean, string>(true),
+    ]);
+    expect(combined.unwrap()).toEqual([1, "lab", true]);
+  });
+
+  it("returns the first Err", () => {
+    const combined = combine([
+      ok<number, string>(1),
+      err<number, string>("first"),
+      err<number, string>("second"),
+    ]);
+    expect(combined.unwrap_err()).toBe("first");
+  });
+
+  it("returns an empty Ok for no results", () => {
+    expect(combine([]).unwrap()).toEqual([]);
+  });
+});
+
+describe("Test tryAsync", () => {
+  it("wraps the resolved value in an Ok", async () => {
+    const result = await tryAsync(
+      async () => "done",
+      () => "failed"
+    );
+    expect(result.unwrap()).toBe("done");
+  });
+
+  it("converts rejections and throws into an Err", async () => {
+    const rejected = await tryAsync(
+      () => Promise.reject(new Error("rejected")),
+      (e) => (e as Error).message
+    );
+    expect(rejected.unwrap_err()).toBe("rejected");
+
+    const thrown = await tryAsync(
+      (): Promise<string> => {
+        throw new Error("thrown");
+      },
+      (e) => (e as Error).message
+    );
+    expect(thrown.unwrap_err()).toBe("thrown");
+  });
+});
+
+describe("Test Result match and tap", () => {
+  it("calls the handler of the result's variant", () => {
+    const matcher = {
+      ok: (x: number) => `ok ${x}`,
+      err: (x: string) => `err ${x}`,
+    };
+    expect(ok<number, string>(1).match(matcher)).toBe("ok 1");
+    expect(err<number, string>("bad").match(matcher)).toBe("err bad");
+  });
+
+  it("taps only the result's variant and returns the result", () => {
+    const onOk = jest.fn();
+    const onErr = jest.fn();
+    const success: Result<number, string> = ok(1);
+    const failure: Result<number, string> = err("bad");
+    expect(success.tap(onOk).tap_err(onErr)).toBe(success);
+    expect(failure.tap(onOk).tap_err(onErr)).toBe(failure);
+    expect(onOk).toHaveBeenCalledTimes(1);
+    expect(onOk).toHaveBeenCalledWith(1);
+    expect(onErr).toHaveBeenCalledTimes(1);
+    expect(onErr).toHaveBeenCalledWith("bad");
+  });
+});
+
+describe("Test Option", () => {
+  it("converts nullable values", () => {
+    expect(fromNullable("lab").unwrap()).toBe("lab");
+    expect(fromNullable(0).isSome()).toBe(true);
+    expect(fromNullable(null).isNone()).toBe(true);
+    expect(fromNullable(undefined).isNone()).toBe(true);
+  });
+
+  it("converts to and from Results", () => {
+    expect(fromResult(ok<string, number>("lab")).unwrap()).toBe("lab");
+    expect(fromResult(err<string, number>(404)).isNone()).toBe(true);
+    expect(some("lab").ok_or(404).unwrap()).toBe("lab");
+    expect(none<string>().ok_or(404).unwrap_err()).toBe(404);
+  });
+
+  it("maps, chains, and filters only Some values", () => {
+    const title = (option: Option<string>) =>
+      option
+        .map((value) => value.trim())
+        .filter((value) => value !== "")
+        .and_then((value) => some(value.toUpperCase()))
+        .unwrap_or("Unknown");
+    expect(title(some(" lab "))).toBe("LAB");
+    expect(title(some("  "))).toBe("Unknown");
+    expect(title(none())).toBe("Unknown");
+  });
+
+  it("calls the handler of the option's variant", () => {
+    const matcher = { some: (x: number) => x * 2, none: () => -1 };
+    expect(some(2).match(matcher)).toBe(4);
+    expect(none<number>().match(matcher)).toBe(-1);
+    expect(none<number>().optional()).toBeNull();
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * @jest-environment node
+ */
+import {
+  isSameQuery,
+  MAX_RECENT_SEARCHES,
+  searchQueryForPath,
+  withRecentSearch,
+  withSavedSearch,
+  type RecentSearch,
+  type SavedSearch,
+} from "@/lib/saved-searches";
+
+describe("Test isSameQuery", () => {
+  it("ignores the page of results", () => {
+    expect(isSameQuery("type=File&from=25", "type=File")).toBe(true);
+    expect(isSameQuery("type=File&from=25", "type=File&from=50")).toBe(true);
+  });
+
+  it("ignores the encoding", () => {
+    expect(
+      isSameQuery(
+        "lab.title=J.%20Michael%20Cherry",
+        "lab.title=J.+Michael+Cherry"
+      )
+    ).toBe(true);
+  });
+
+  it("distinguishes different filters and page sizes", () => {
+    expect(isSameQuery("type=File", "type=Sample")).toBe(false);
+    expect(isSameQuery("type=File", "type=File&status=released")).toBe(false);
+    expect(isSameQuery("type=File", "type=File&limit=100")).toBe(false);
+  });
+});
+
+describe("Test withSavedSearch", () => {
+  it("adds a new saved search first without its page", () => {
+    const existing: SavedSearch = {
+      id: "1",
+      name: "Files",
+      path: "/search/",
+      query: "type=File",
+      savedAt: "2024-01-01T00:00:00.000Z",
+      visitedAt: "2024-01-01T00:00:00.000Z",
+      count: 10,
+    };
+    const searches = withSavedSearch(
+      [existing],
+      "Samples",
+      "/search/",
+      "type=Sample&from=25",
+      5
+    );
+    expect(searches).toHaveLength(2);
+    expect(searches[0]).toMatchObject({
+      name: "Samples",
+      path: "/search/",
+      query: "type=Sample",
+      count: 5,
+    });
+    expect(searches[0].id).not.toBe(existing.id);
+    expect(searches[1]).toBe(existing);
+  });
+
+  it("renames a search saved again, keeping its ID and save date", () => {
+    const existing: SavedSearch = {
+      id: "1",
+      name: "Files",
+      path: "/search/",
+      query: "type=File",
+      savedAt: "2024-01-01T00:00:00.000Z",
+      visitedAt: "2024-01-01T00:00:00.000Z",
+      count: 10,
+    };
+    const searches = withSavedSearch(
+      [existing],
+      "All files",
+      "/search/",
+      "type=File&from=50",
+      12
+    );
+    expect(searches).toEqual([
+      {
+        ...existing,
+        name: "All files",
+        visitedAt: expect.any(String),
+        count: 12,
+      },
+    ]);
+    expect(searches[0].visitedAt).not.toBe(existing.visitedAt);
+  });
+
+  it("keeps the same query on different pages apart", () => {
+    const searches = withSavedSearch(
+      withSavedSearch([], "Files", "/search/", "type=File", 10),
+      "File report",
+      "/multireport/",
+      "type=File",
+      10
+    );
+    expect(searches.map((search) => search.name)).toEqual([
+      "File report",
+      "Files",
+    ]);
+  });
+});
+
+describe("Test withRecentSearch", () => {
+  it("moves a search run again to the front instead of repeating it", () => {
+    let searches: RecentSearch[] = [];
+    searches = withRecentSearch(searches, "Files", "/search/", "type=File");
+    searches = withRecentSearch(searches, "Samples", "/search/", "type=Sample");
+    searches = withRecentSearch(
+      searches,
+      "Files",
+      "/search/",
+      "type=File&from=25"
+    );
+    expect(searches.map(({ path, query }) => [path, query])).toEqual([
+      ["/search/", "type=File"],
+      ["/search/", "type=Sample"],
+    ]);
+  });
+
+  it("only remembers the newest searches", () => {
+    let searches: RecentSearch[] = [];
+    for (let index = 0; index <= MAX_RECENT_SEARCHES; ++index) {
+      searches = withRecentSearch(
+        searches,
+        `Search ${index}`,
+        "/site-search/",
+        `query=term${index}`
+      );
+    }
+    expect(searches).toHaveLength(MAX_RECENT_SEARCHES);
+    expect(searches[0].title).toBe(`Search ${MAX_RECENT_SEARCHES}`);
+    expect(searches.at(-1)?.title).toBe("Search 1");
+  });
+});
+
+describe("Test searchQueryForPath", () => {
+  it("gives matrix queries the search the matrix page runs", () => {
+    expect(
+      searchQueryForPath(
+        "/matrix/",
+        "rows=assay_term.term_name&columns=lab.title&row_group=none&status=released"
+      )
+    ).toBe("status=released&type=MeasurementSet");
+  });
+
+  it("leaves the queries of other pages alone", () => {
+    expect(searchQueryForPath("/multireport/", "type=File&field=@id")).toBe(
+      "type=File&field=@id"
+    );
+  });
+});
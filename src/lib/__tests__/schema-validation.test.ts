@@ -0,0 +1,111 @@
+import { validateObject, validateObjectType } from "@/lib/schema-validation";
+import type { Profiles, Schema } from "@/globals.d";
+
+/**
+ * Schema of the mock objects, shaped like a trimmed-down igvfd schema.
+ */
+const SCHEMA = {
+  $id: "/profiles/crispr_modification.json",
+  $schema: "https://json-schema.org/draft/2020-12/schema",
+  "@type": ["JSONSchema"],
+  additionalProperties: false,
+  mixinProperties: [],
+  title: "CRISPR Modification",
+  type: "object",
+  required: ["cas", "modality"],
+  properties: {
+    cas: { title: "Cas", type: "string", enum: ["dCas9", "Cas9"] },
+    modality: { title: "Modality", type: "string" },
+    lab: { title: "Lab", type: "string", linkTo: "Lab" },
+    tags: {
+      title: "Tags",
+      type: "array",
+      items: { title: "Tag", type: "string" },
+    },
+    quantity: { title: "Quantity", type: "number" },
+    sources: {
+      title: "Sources",
+      type: "array",
+      items: {
+        title: "Source",
+        type: "object",
+        properties: {
+          lot_id: { title: "Lot ID", type: "string" },
+        },
+      },
+    },
+  },
+} as unknown as Schema;
+
+describe("Test validateObject", () => {
+  it("accepts objects that match their schema", () => {
+    const object = {
+      "@id": "/crispr-modifications/a/",
+      cas: "dCas9",
+      modality: "activation",
+      lab: { "@id": "/labs/a/", title: "Lab A" },
+      tags: ["a", "b"],
+      quantity: 2,
+      sources: [{ lot_id: "12" }],
+      unknown_property: { anything: true },
+    };
+    expect(validateObject(object, SCHEMA).unwrap()).toBe(object);
+  });
+
+  it("reports each problem with its property path", () => {
+    const object = {
+      "@id": "/crispr-modifications/a/",
+      cas: "Cas12",
+      lab: 3,
+      tags: ["a", 2],
+      quantity: 1.5,
+      sources: [{ lot_id: "12" }, { lot_id: 12 }],
+    };
+    const error = validateObject(object, SCHEMA).unwrap_err();
+    expect(error.title).toBe(
+      "/crispr-modifications/a/ doesn't match its schema"
+    );
+    expect(error.code).toBe(502);
+    expect(error.issues).toEqual([
+      { path: "modality", message: "missing" },
+      { path: "cas", message: 'unexpected value "Cas12"' },
+      { path: "lab", message: "expected string but got integer" },
+      { path: "tags[1]", message: "expected string but got integer" },
+      { path: "sources[1].lot_id", message: "expected string but got integer" },
+    ]);
+    expect(error.detail).toBe(
+      'modality: missing; cas: unexpected value "Cas12"; lab: expected string but got integer; tags[1]: expected string but got integer; sources[1].lot_id: expected string but got integer'
+    );
+  });
+
+  it("requires the extra properties the caller relies on", () => {
+    const object = { cas: "Cas9", modality: "cutting" };
+    const error = validateObject(object, SCHEMA, {
+      required: ["lab"],
+    }).unwrap_err();
+    expect(error.issues).toEqual([{ path: "lab", message: "missing" }]);
+  });
+});
+
+describe("Test validateObjectType", () => {
+  const profiles = { CrisprModification: SCHEMA } as unknown as Profiles;
+
+  it("validates objects against the schema of their type", () => {
+    const object = {
+      "@type": ["CrisprModification", "Item"],
+      cas: "Cas9",
+    };
+    const error = validateObjectType(object, profiles).unwrap_err();
+    expect(error.issues).toEqual([{ path: "modality", message: "missing" }]);
+  });
+
+  it("rejects objects without a known type", () => {
+    expect(
+      validateObjectType({ "@type": ["Lab", "Item"] }, profiles).unwrap_err()
+        .issues
+    ).toEqual([{ path: "@type", message: "no schema for Lab" }]);
+    expect(validateObjectType({}, profiles).unwrap_err().title).toBe(
+      "No schema for untyped objects"
+    );
+  });
+});
@@ -0,0 +1,488 @@
+/**
+ * Utility functions for the `advancedQuery=` search parameter, which igvfd passes to Elasticsearch
+ * as a query string, e.g. `advancedQuery=lab.title:"Mock Lab" AND release_timestamp:[2024-01-01
+ * TO 2024-01-31]`. This module parses that syntax into a tree of conditions that the advanced-query
+ * builder can edit, and serializes the edited tree back into the parameter. Only the subset of the
+ * syntax the builder can edit parses without errors: `field:value` terms, `field:[start TO end]`
+ * ranges, `AND`, `OR`, and `NOT` operators, and parentheses. Adjacent conditions without an
+ * operator between them combine with `AND`, as igvfd does.
+ */
+
+// lib
+import { QueryString } from "@/lib/query-string";
+import { reportSchemas } from "@/lib/report";
+import { err, ok, type Result } from "@/lib/result";
+// root
+import type { Profiles } from "@/globals.d";
+
+/**
+ * Value of a range that has no bound on one side.
+ */
+const OPEN_RANGE_VALUE = "*";
+
+/**
+ * Schema property formats that the builder offers date inputs for.
+ */
+const DATE_FORMATS = ["date", "date-time"];
+
+/**
+ * Operators that combine the conditions of a group.
+ */
+export type AdvancedQueryOperator = "AND" | "OR";
+
+/**
+ * Condition matching items with a field containing a value, e.g. `status:released`. Terms with an
+ * empty `field` match the value in any field.
+ */
+export type AdvancedQueryTerm = {
+  kind: "term";
+  field: string;
+  value: string;
+  isNegated: boolean;
+};
+
+/**
+ * Condition matching items with a field between two values, e.g.
+ * `creation_timestamp:[2024-01-01 TO 2024-01-31]`. Empty bounds leave that side of the range open.
+ */
+export type AdvancedQueryRange = {
+  kind: "range";
+  field: string;
+  start: string;
+  end: string;
+  isNegated: boolean;
+};
+
+/**
+ * Conditions combined with a single operator, e.g. `(status:released OR status:archived)`.
+ */
+export type AdvancedQueryGroup = {
+  kind: "group";
+  operator: AdvancedQueryOperator;
+  clauses: AdvancedQueryNode[];
+  isNegated: boolean;
+};
+
+/**
+ * Any condition of an advanced query.
+ */
+export type AdvancedQueryNode =
+  | AdvancedQueryTerm
+  | AdvancedQueryRange
+  | AdvancedQueryGroup;
+
+/**
+ * Describes why an advanced query has invalid syntax.
+ * @property {string} message Description of the problem for users
+ * @property {number} position 0-based index of the character in the query with the problem
+ */
+export type AdvancedQuerySyntaxError = {
+  message: string;
+  position: number;
+};
+
+/**
+ * Field that the advanced-query builder offers in its field pickers.
+ * @property {string} id Property name of the field, as it appears in queries
+ * @property {string} title Title of the field for the picker
+ * @property {boolean} isDate True if the field holds dates, so the builder offers date inputs
+ */
+export type AdvancedQueryField = {
+  id: string;
+  title: string;
+  isDate: boolean;
+};
+
+/**
+ * Token of an advanced query, with its position in the query for error messages.
+ */
+type Token = {
+  kind: "word" | "quoted" | "(" | ")" | "[" | "]";
+  text: string;
+  position: number;
+};
+
+/**
+ * Thrown within the parser to abandon parsing at the first syntax error.
+ */
+class QuerySyntaxError extends Error {
+  position: number;
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.position = position;
+  }
+}
+
+/**
+ * Create a new empty group, the starting point for building an advanced query.
+ * @param {AdvancedQueryOperator} [operator] Operator that combines the group's conditions
+ * @returns {AdvancedQueryGroup} Group with no conditions
+ */
+export function emptyAdvancedQueryGroup(
+  operator: AdvancedQueryOperator = "AND"
+): AdvancedQueryGroup {
+  return { kind: "group", operator, clauses: [], isNegated: false };
+}
+
+/**
+ * Split an advanced query into tokens. Words run until whitespace, a parenthesis, a bracket, or a
+ * quote, so `field:value` becomes a single word that the parser splits at its colon.
+ * @param {string} query Advanced query to split
+ * @returns {Token[]} Tokens of the query in order
+ */
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+  while (index < query.length) {
+    const character = query[index];
+    if (/\s/.test(character)) {
+      index += 1;
+    } else if ("()[]".includes(character)) {
+      tokens.push({
+        kind: character as Token["kind"],
+        text: character,
+        position: index,
+      });
+      index += 1;
+    } else if (character === '"') {
+      let text = "";
+      let end = index + 1;
+      while (end < query.length && query[end] !== '"') {
+        if (query[end] === "\\" && end + 1 < query.length) {
+          end += 1;
+        }
+        text += query[end];
+        end += 1;
+      }
+      if (end >= query.length) {
+        throw new QuerySyntaxError("Missing closing quote", index);
+      }
+      tokens.push({ kind: "quoted", text, position: index });
+      index = end + 1;
+    } else {
+      const match = query.slice(index).match(/^[^\s()[\]"]+/);
+      const text = match ? match[0] : character;
+      tokens.push({ kind: "word", text, position: index });
+      index += text.length;
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Combine parsed conditions with an operator. A single condition needs no group, so it gets
+ * returned as is.
+ * @param {AdvancedQueryOperator} operator Operator combining the conditions
+ * @param {AdvancedQueryNode[]} clauses Conditions to combine
+ * @returns {AdvancedQueryNode} The only condition, or a group of all of them
+ */
+function combineClauses(
+  operator: AdvancedQueryOperator,
+  clauses: AdvancedQueryNode[]
+): AdvancedQueryNode {
+  if (clauses.length === 1) {
+    return clauses[0];
+  }
+  return { kind: "group", operator, clauses, isNegated: false };
+}
+
+/**
+ * Parse the tokens of an advanced query into a tree of conditions. `OR` binds less tightly than
+ * `AND`, which binds less tightly than `NOT`.
+ * @param {Token[]} tokens Tokens of the query
+ * @param {number} queryLength Length of the query, for errors at its end
+ * @returns {AdvancedQueryNode | null} Root condition of the query; null if the query is empty
+ */
+function parseTokens(
+  tokens: Token[],
+  queryLength: number
+): AdvancedQueryNode | null {
+  let index = 0;
+
+  function peek(): Token | undefined {
+    return tokens[index];
+  }
+
+  function isKeyword(token: Token | undefined, keyword: string): boolean {
+    return token?.kind === "word" && token.text === keyword;
+  }
+
+  function expected(description: string): QuerySyntaxError {
+    const token = peek();
+    return token
+      ? new QuerySyntaxError(
+          `Expected ${description} but found ${token.text}`,
+          token.position
+        )
+      : new QuerySyntaxError(
+          `Expected ${description} at the end of the query`,
+          queryLength
+        );
+  }
+
+  function parseValue(description: string): string {
+    const token = peek();
+    if (
+      (token?.kind === "word" || token?.kind === "quoted") &&
+      !(
+        token.kind === "word" && ["AND", "OR", "NOT", "TO"].includes(token.text)
+      )
+    ) {
+      index += 1;
+      return token.text;
+    }
+    throw expected(description);
+  }
+
+  function parseRange(field: string, isNegated: boolean): AdvancedQueryRange {
+    index += 1;
+    const start = parseValue("the start of the range");
+    if (!isKeyword(peek(), "TO")) {
+      throw expected("TO");
+    }
+    index += 1;
+    const end = parseValue("the end of the range");
+    if (peek()?.kind !== "]") {
+      throw expected("]");
+    }
+    index += 1;
+    return {
+      kind: "range",
+      field,
+      start: start === OPEN_RANGE_VALUE ? "" : start,
+      end: end === OPEN_RANGE_VALUE ? "" : end,
+      isNegated,
+    };
+  }
+
+  function parseCondition(isNegated: boolean): AdvancedQueryNode {
+    const token = peek();
+    if (token?.kind === "(") {
+      index += 1;
+      const node = parseOr();
+      if (peek()?.kind !== ")") {
+        throw expected(")");
+      }
+      index += 1;
+      const group =
+        node.kind === "group" && !node.isNegated
+          ? node
+          : { ...emptyAdvancedQueryGroup(), clauses: [node] };
+      return { ...group, isNegated };
+    }
+    if (token?.kind === "quoted") {
+      index += 1;
+      return { kind: "term", field: "", value: token.text, isNegated };
+    }
+    if (token?.kind !== "word" || ["AND", "OR", "TO"].includes(token.text)) {
+      throw expected("a condition");
+    }
+
+    index += 1;
+    const colonIndex = token.text.indexOf(":");
+    if (colonIndex === -1) {
+      return { kind: "term", field: "", value: token.text, isNegated };
+    }
+    if (colonIndex === 0) {
+      throw new QuerySyntaxError(
+        "Expected a field name before :",
+        token.position
+      );
+    }
+    const field = token.text.slice(0, colonIndex);
+    const value = token.text.slice(colonIndex + 1);
+    if (value) {
+      return { kind: "term", field, value, isNegated };
+    }
+    if (peek()?.kind === "[") {
+      return parseRange(field, isNegated);
+    }
+    return {
+      kind: "term",
+      field,
+      value: parseValue(`a value for ${field}`),
+      isNegated,
+    };
+  }
+
+  function parseNot(): AdvancedQueryNode {
+    let isNegated = false;
+    while (isKeyword(peek(), "NOT")) {
+      isNegated = !isNegated;
+      index += 1;
+    }
+    return parseCondition(isNegated);
+  }
+
+  function parseAnd(): AdvancedQueryNode {
+    const clauses = [parseNot()];
+    while (peek() && peek()?.kind !== ")" && !isKeyword(peek(), "OR")) {
+      if (isKeyword(peek(), "AND")) {
+        index += 1;
+      }
+      clauses.push(parseNot());
+    }
+    return combineClauses("AND", clauses);
+  }
+
+  function parseOr(): AdvancedQueryNode {
+    const clauses = [parseAnd()];
+    while (isKeyword(peek(), "OR")) {
+      index += 1;
+      clauses.push(parseAnd());
+    }
+    return combineClauses("OR", clauses);
+  }
+
+  if (tokens.length === 0) {
+    return null;
+  }
+  const root = parseOr();
+  if (peek()) {
+    throw expected("AND, OR, or the end of the query");
+  }
+  return root;
+}
+
+/**
+ * Parse an advanced query into a group of conditions that the advanced-query builder can edit.
+ * @param {string} query Advanced query to parse
+ * @returns {Result<AdvancedQueryGroup, AdvancedQuerySyntaxError>} Root group of the query, or the
+ *     first syntax error in the query
+ */
+export function parseAdvancedQuery(
+  query: string
+): Result<AdvancedQueryGroup, AdvancedQuerySyntaxError> {
+  try {
+    const root = parseTokens(tokenize(query), query.length);
+    if (!root) {
+      return ok(emptyAdvancedQueryGroup());
+    }
+    return ok(
+      root.kind === "group" && !root.isNegated
+        ? root
+        : { ...emptyAdvancedQueryGroup(), clauses: [root] }
+    );
+  } catch (error) {
+    if (error instanceof QuerySyntaxError) {
+      return err({ message: error.message, position: error.position });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Quote a value if it has characters that would otherwise change the meaning of the query.
+ * @param {string} value Value of a term or range bound
+ * @returns {string} Value as it appears in the query
+ */
+function queryValue(value: string): string {
+  if (value && !/[\s()[\]":]/.test(value)) {
+    return value;
+  }
+  return `"${value.replace(/(["\\])/g, "\\$1")}"`;
+}
+
+/**
+ * Serialize a single condition of an advanced query. Conditions the user hasn't finished, like
+ * terms without a value or ranges without bounds, get left out, as they would match nothing.
+ * @param {AdvancedQueryNode} node Condition to serialize
+ * @param {boolean} isNested True if the condition is within a group, so groups need parentheses
+ * @returns {string} Condition in advanced-query syntax; empty for empty groups and unfinished
+ *     conditions
+ */
+function serializeNode(node: AdvancedQueryNode, isNested: boolean): string {
+  let condition = "";
+  if (node.kind === "term") {
+    if (!node.value) {
+      return "";
+    }
+    condition = `${node.field ? `${node.field}:` : ""}${queryValue(node.value)}`;
+  } else if (node.kind === "range") {
+    if (!node.start && !node.end) {
+      return "";
+    }
+    const start = node.start ? queryValue(node.start) : OPEN_RANGE_VALUE;
+    const end = node.end ? queryValue(node.end) : OPEN_RANGE_VALUE;
+    condition = `${node.field}:[${start} TO ${end}]`;
+  } else {
+    const clauses = node.clauses
+      .map((clause) => serializeNode(clause, true))
+      .filter(Boolean);
+    if (clauses.length === 0) {
+      return "";
+    }
+    condition = clauses.join(` ${node.operator} `);
+    if ((isNested && clauses.length > 1) || node.isNegated) {
+      condition = `(${condition})`;
+    }
+  }
+  return node.isNegated ? `NOT ${condition}` : condition;
+}
+
+/**
+ * Serialize the root group of an advanced query. Parsing the result gives back an equivalent
+ * group. Groups with no conditions, and unfinished conditions, get left out.
+ * @param {AdvancedQueryGroup} root Root group of the query
+ * @returns {string} Advanced query; empty if the query has no conditions
+ */
+export function serializeAdvancedQuery(root: AdvancedQueryGroup): string {
+  return serializeNode(root, false);
+}
+
+/**
+ * Get the advanced query from a search query string.
+ * @param {string} query Search query string without the leading question mark
+ * @returns {string} Value of the `advancedQuery` parameter; empty if the query has none
+ */
+export function advancedQueryFromQuery(query: string): string {
+  return new QueryString(query).getAdvancedQuery();
+}
+
+/**
+ * Build the search query string with the given advanced query, replacing any existing one.
+ * Changing the query changes the results, so the search goes back to the first page.
+ * @param {string} query Current search query string
+ * @param {string} advancedQuery New advanced query; empty to remove it from the query
+ * @returns {string} Search query string with the new advanced query
+ */
+export function queryWithAdvancedQuery(
+  query: string,
+  advancedQuery: string
+): string {
+  return new QueryString(query)
+    .setFrom(0)
+    .setAdvancedQuery(advancedQuery)
+    .format();
+}
+
+/**
+ * Get the fields the advanced-query builder offers for searches of the given types, from the
+ * properties in their schemas. Searches without types offer the properties of all types.
+ * @param {string[]} types `@type`s being searched
+ * @param {Profiles | null} profiles Schemas of all types from /profiles
+ * @returns {AdvancedQueryField[]} Fields sorted by title
+ */
+export function advancedQueryFields(
+  types: string[],
+  profiles: Profiles | null
+): AdvancedQueryField[] {
+  if (!profiles) {
+    return [];
+  }
+  const fields = new Map<string, AdvancedQueryField>();
+  const schemas = reportSchemas(types.length > 0 ? types : ["Item"], profiles);
+  schemas.forEach((schema) => {
+    Object.entries(schema.properties).forEach(([id, property]) => {
+      if (!fields.has(id) && !id.startsWith("@")) {
+        fields.set(id, {
+          id,
+          title: property.title || id,
+          isDate: DATE_FORMATS.includes(property.format || ""),
+        });
+      }
+    });
+  });
+  return [...fields.values()].sort((a, b) => a.title.localeCompare(b.title));
+}
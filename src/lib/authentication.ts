@@ -71,15 +71,15 @@ export async function getDataProviderUrl(): Promise<string | null> {
  * Log the current user into the data provider.
  * @param {object} loggedOutSession Logged-out /session object from the server
  * @param {function} getAccessTokenSilently Auth0-react function to get the current access token
- * @returns {object} session-properties object for the signed-in user
+ * @returns {object} session-properties object for the signed-in user; null if login failed
  */
 export async function loginDataProvider(
   loggedOutSession: { _csrft_: string },
   getAccessTokenSilently: (o?: GetTokenSilentlyOptions) => Promise<string>
-) {
+): Promise<SessionPropertiesObject | null> {
   const accessToken = await getAccessTokenSilently();
   const request = new FetchRequest({ session: loggedOutSession });
-  return request.postObject("/login", { accessToken });
+  return (await request.postLogin(accessToken)).optional();
 }
 
 /**
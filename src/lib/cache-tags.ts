@@ -0,0 +1,45 @@
+// lib
+import { pathToType } from "./general";
+
+/**
+ * Tag for every cached search-like request -- searches, reports, collection listings, and any
+ * other request not for a single object. Any object edit could change the results of these.
+ */
+export const SEARCH_CACHE_TAG = "search";
+
+/**
+ * Get the cache tag for the object with the given `@id`.
+ * @param {string} id `@id` of the object
+ * @returns {string} Cache tag for the object
+ */
+export function idCacheTag(id: string): string {
+  return `id:${id}`;
+}
+
+/**
+ * Get the cache tags for a data-provider request for the given path. Requests for single objects
+ * get tagged with the object's `@id`, while all other requests get tagged as searches. NextJS
+ * fixes the tags of a cached response when the request starts, before the object's `@type`
+ * arrives, and paths don't reliably name the type -- e.g. `/profiles/sample/` -- so responses
+ * don't get tagged by type. igvfd's indexer sends the `@id`s of every object that embeds a changed
+ * one, which purges all of them.
+ * @param {string} path Path of the request, including any query string
+ * @returns {string[]} Cache tags for the request
+ */
+export function cacheTagsForPath(path: string): string[] {
+  const [pathname] = path.split("?");
+  return pathToType(pathname) ? [idCacheTag(pathname)] : [SEARCH_CACHE_TAG];
+}
+
+/**
+ * Get the cache tags to invalidate when the objects with the given `@id`s change. Besides the
+ * objects themselves, all cached searches could include the changed objects, so they get
+ * invalidated too.
+ * @param {string[]} ids `@id`s of the changed objects
+ * @returns {string[]} Cache tags to invalidate
+ */
+export function cacheTagsForChangedIds(ids: string[]): string[] {
+  return ids.length > 0
+    ? [...new Set(ids)].map((id) => idCacheTag(id)).concat(SEARCH_CACHE_TAG)
+    : [];
+}
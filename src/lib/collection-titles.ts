@@ -4,7 +4,8 @@ import { FetchRequest } from "@/lib/fetch-request";
 import { DataProviderObject } from "@/globals.d";
 
 /**
- * Loads the mapping of schema name, @type, and collection names to human-readable titles.
+ * Loads the mapping of schema name, @type, and collection names to human-readable titles. The
+ * titles don't depend on the user, so they can come from the shared NextJS fetch cache.
  * @param {string} session Authentication session object
  * @returns {Promise<DataProviderObject | null>} Promise that resolves to the /collection-titles/ object
  */
@@ -13,6 +14,8 @@ export async function getCollectionTitles(
 ): Promise<DataProviderObject | null> {
   const request = new FetchRequest();
   return (
-    await request.getObjectByUrl(`${dataProviderUrl}/collection-titles/`)
+    await request.getObjectByUrl(`${dataProviderUrl}/collection-titles/`, {
+      noCache: false,
+    })
   ).optional();
 }
@@ -18,6 +18,12 @@ export const API_URL = publicRuntimeConfig.PUBLIC_BACKEND_URL as string;
  */
 export const BACKEND_URL = serverRuntimeConfig.BACKEND_URL as string;
 
+/**
+ * Shared secret that callers of /api/revalidate must send as a bearer token; empty to disable
+ */
+export const REVALIDATE_SECRET =
+  serverRuntimeConfig.REVALIDATE_SECRET as string;
+
 /**
  * igvf-ui version number
  */
@@ -26,6 +26,17 @@ export function formatDate(date?: string): string {
   return "";
 }
 
+/**
+ * Convert an ISO 8601 date and time string to a human-readable date and time in the local time
+ * zone. Unlike `formatDate`, this keeps the time, so use it for moments the browser recorded
+ * rather than for dates the data provider stores.
+ * @param dateTime ISO 8601 date and time string
+ * @returns Human-readable date and time string
+ */
+export function formatDateTime(dateTime: string): string {
+  return dateFns.format(new Date(dateTime), "MMMM d, yyyy h:mm a");
+}
+
 /**
  * Convert the given date to the APA date style -- (yyyy, MMMM d). This is useful for citing dates
  * in APA format.
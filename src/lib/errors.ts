@@ -2,10 +2,31 @@
  * Utility functions to handle errors.
  */
 
+// node_modules
+import { notFound } from "next/navigation";
 // lib
 import { type ErrorObject, HttpStatusCode } from "@/lib/fetch-request";
-// root
-import type { ServerSideProps } from "@/globals.d";
+
+/**
+ * Kinds of errors that need different guidance for the user. Access errors might go away if the
+ * user signs in, missing errors mean nothing exists at the URL, and server errors mean something
+ * broke and should get reported.
+ */
+export type ErrorCategory = "access" | "missing" | "server";
+
+/**
+ * Error object for pages that don't exist.
+ */
+export const NOT_FOUND_ERROR: ErrorObject = {
+  isError: true,
+  "@type": ["HTTPNotFound", "Error"],
+  code: HttpStatusCode.NOT_FOUND,
+  description: "This page could not be found",
+  detail: "Check the URL, or follow a link from another page to get here.",
+  status: "error",
+  title: "Not Found",
+};
+Object.freeze(NOT_FOUND_ERROR);
 
 /**
  * Log the error to the console with a timestamp.
@@ -18,21 +39,64 @@ export function logError(statusCode: string | number, title: string): void {
 }
 
 /**
- * Given an object from data-provider requests containing error information, return an error object
- * expected by the UI. This gets called at the end of most getServerSideProps functions.
- * @param error Retrieved object containing data-provider error information
- * @returns Error object with message and status code, or notFound for 404
+ * Determine the category of the given error from its status code.
+ * @param {ErrorObject} errorObject Error to categorize
+ * @returns {ErrorCategory} Category of the error
  */
-export function errorObjectToProps(errorObject: ErrorObject): ServerSideProps {
-  // NextJS handles 404 separately.
+export function errorCategory(errorObject: ErrorObject): ErrorCategory {
+  if (
+    errorObject.code === HttpStatusCode.UNAUTHORIZED ||
+    errorObject.code === HttpStatusCode.FORBIDDEN
+  ) {
+    return "access";
+  }
+  if (
+    errorObject.code === HttpStatusCode.NOT_FOUND ||
+    errorObject.code === HttpStatusCode.GONE
+  ) {
+    return "missing";
+  }
+  return "server";
+}
+
+/**
+ * Handle an error object from data-provider requests that a page can't render without. NextJS
+ * renders its not-found page for 404 errors, so this function doesn't return for those. For all
+ * other errors, it logs the error and returns it so that the page can render it with
+ * `<ErrorPage>`:
+ *
+ * if (response.isErr()) {
+ *   return <ErrorPage error={handlePageError(response.unwrap_err())} />;
+ * }
+ * @param {ErrorObject} errorObject Error from a data-provider request
+ * @returns {ErrorObject} The same error object, for non-404 errors
+ */
+export function handlePageError(errorObject: ErrorObject): ErrorObject {
   if (errorObject.code === HttpStatusCode.NOT_FOUND) {
-    return { notFound: true };
+    notFound();
   }
+  logError(errorObject.code, `${errorObject.title}: ${errorObject.detail}`);
+  return errorObject;
+}
 
-  // For all other errors, return an object to get rendered as an error page.
+/**
+ * Convert an exception caught by an App Router error boundary into an error object to render. In
+ * production builds, NextJS strips the messages from exceptions thrown on the server and only
+ * passes a digest that matches the server log entry, so include that in the details.
+ * @param {Error} error Exception the error boundary caught
+ * @returns {ErrorObject} Error object describing the exception
+ */
+export function exceptionToErrorObject(
+  error: Error & { digest?: string }
+): ErrorObject {
+  const digest = error.digest ? ` (error digest ${error.digest})` : "";
   return {
-    props: {
-      serverSideError: errorObject,
-    },
+    isError: true,
+    "@type": [error.name || "Error", "Error"],
+    code: HttpStatusCode.INTERNAL_SERVER_ERROR,
+    description: "An unexpected error occurred",
+    detail: `${error.message || "Unknown error"}${digest}`,
+    status: "error",
+    title: "Internal Server Error",
   };
 }
@@ -0,0 +1,157 @@
+/**
+ * Utility functions for the facets on search pages. Facets filter search results through the
+ * query string: `field=term` includes items with the term, `field!=term` excludes them, and the
+ * term `*` matches any value, so `field=*` includes items that have the field and `field!=*`
+ * includes items missing it. Every change to the facets produces a new query string so that the
+ * URL always reflects the current filters. Changing the filters changes the number of results, so
+ * each new query string starts at the first page.
+ */
+
+// lib
+import { toShishkebabCase } from "@/lib/general";
+import { type QueryParameter, QueryString } from "@/lib/query-string";
+// root
+import type {
+  SearchResultsFacet,
+  SearchResultsFacetTerm,
+  SearchResultsFilter,
+} from "@/globals.d";
+
+/**
+ * Term that matches any value of a field.
+ */
+const ANY_TERM = "*";
+
+/**
+ * Whether a facet filters on the existence of its field: `any` doesn't filter, `exists` keeps items
+ * with the field, and `missing` keeps items without it.
+ */
+export type FacetExistence = "any" | "exists" | "missing";
+
+/**
+ * Get the string form of a facet term, for displaying and for query strings.
+ * @param {SearchResultsFacetTerm} term Facet term to get the string form of
+ * @returns {string} String form of the term
+ */
+export function facetTermKey(term: SearchResultsFacetTerm): string {
+  return term.key_as_string ?? String(term.key);
+}
+
+/**
+ * Generate the ID of the label for a facet term's checkbox. Cypress tests rely on these.
+ * @param {string} field Field of the facet
+ * @param {string} term Term within the facet
+ * @returns {string} ID for the term's checkbox label
+ */
+export function facetTermId(field: string, term: string): string {
+  return `facet-checkbox-${field}-${toShishkebabCase(term)}`;
+}
+
+/**
+ * Find whether the query selects or excludes a term of a facet.
+ * @param {QueryParameter[]} parameters Parameters of the current query
+ * @param {string} field Field of the facet
+ * @param {string} term Term within the facet
+ * @returns {QueryParameter | undefined} Parameter selecting or excluding the term, if any
+ */
+export function findTermParameter(
+  parameters: QueryParameter[],
+  field: string,
+  term: string
+): QueryParameter | undefined {
+  return parameters.find(
+    (parameter) => parameter.field === field && parameter.term === term
+  );
+}
+
+/**
+ * Toggle a facet term in the query. Selecting a term that the query already excludes, or
+ * excluding a term that the query already selects, switches the term's polarity.
+ * @param {string} query Current query string
+ * @param {string} field Field of the facet
+ * @param {string} term Term to toggle
+ * @param {boolean} isNegative True to toggle excluding the term; false to toggle selecting it
+ * @returns {string} Query string with the term toggled
+ */
+export function toggleFacetTerm(
+  query: string,
+  field: string,
+  term: string,
+  isNegative: boolean
+): string {
+  const queryString = new QueryString(query).setFrom(0);
+  const existing = findTermParameter(queryString.getParameters(), field, term);
+  queryString.deleteKeyValue(field, term);
+  if (existing?.isNegative !== isNegative) {
+    queryString.addKeyValue(field, term, isNegative);
+  }
+  return queryString.format();
+}
+
+/**
+ * Determine whether the query filters a facet's field by existence.
+ * @param {QueryParameter[]} parameters Parameters of the current query
+ * @param {string} field Field of the facet
+ * @returns {FacetExistence} Existence filter of the field
+ */
+export function facetExistence(
+  parameters: QueryParameter[],
+  field: string
+): FacetExistence {
+  const existing = findTermParameter(parameters, field, ANY_TERM);
+  if (existing) {
+    return existing.isNegative ? "missing" : "exists";
+  }
+  return "any";
+}
+
+/**
+ * Set the existence filter for a facet's field in the query. Filtering on missing fields replaces
+ * any selected terms of the field, as no item missing the field can match them.
+ * @param {string} query Current query string
+ * @param {string} field Field of the facet
+ * @param {FacetExistence} existence Existence filter to set
+ * @returns {string} Query string with the new existence filter
+ */
+export function setFacetExistence(
+  query: string,
+  field: string,
+  existence: FacetExistence
+): string {
+  const queryString = new QueryString(query)
+    .setFrom(0)
+    .deleteKeyValue(field, ANY_TERM);
+  if (existence === "missing") {
+    queryString.deleteKeyValue(field, undefined, "positive");
+  }
+  if (existence !== "any") {
+    queryString.addKeyValue(field, ANY_TERM, existence === "missing");
+  }
+  return queryString.format();
+}
+
+/**
+ * Get the query string to use after clearing a filter. igvfd includes the path and query string
+ * for this in each filter, but the path might not match the current page.
+ * @param {SearchResultsFilter} filter Filter from the search results to clear
+ * @returns {string} Query string without the filter
+ */
+export function clearFilterQuery(filter: SearchResultsFilter): string {
+  const [, query = ""] = filter.remove.split("?");
+  return new QueryString(query).setFrom(0).format();
+}
+
+/**
+ * Get the facet a filter applies to. Filters of negated terms have a `!` at the end of their
+ * fields.
+ * @param {SearchResultsFilter} filter Filter from the search results
+ * @param {SearchResultsFacet[]} facets Facets from the search results
+ * @returns {SearchResultsFacet | undefined} Facet the filter applies to, if any
+ */
+export function facetForFilter(
+  filter: SearchResultsFilter,
+  facets: SearchResultsFacet[]
+): SearchResultsFacet | undefined {
+  const field = filter.field.replace(/!$/, "");
+  return facets.find((facet) => facet.field === field);
+}
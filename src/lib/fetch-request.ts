@@ -20,19 +20,44 @@
  *
  * You can also pass nothing to the constructor for requests not requiring authentication.
  *
- * Many methods accept an optional `defaultErrorValue` parameter. If the request fails, this value
- * gets returned. If you instead want requests that fail to return an error object, don't pass
- * `defaultErrorValue`.
+ * Server-side requests can also pass the ID the middleware assigned to the current page request,
+ * which gets included in each log entry, and sent to the data provider in the `X-Request-Id`
+ * header of requests that bypass the NextJS fetch cache:
+ *
+ * const request = new FetchRequest({ cookie, requestId: getRequestId() });
+ *
+ * All request methods resolve to a `Result`. Successful requests resolve to an `Ok` wrapping the
+ * requested data, while requests that fail -- whether the server returned an HTTP error or a
+ * network error occurred -- resolve to an `Err` wrapping an `ErrorObject`:
+ *
+ * const result = await request.patchObject(path, { status: "released" });
+ * if (result.isErr()) {
+ *   console.log(result.unwrap_err().detail);
+ * }
  */
 
+// node_modules
+import { cache } from "react";
 // lib
 import { API_URL, SERVER_URL, BACKEND_URL, MAX_URL_LENGTH } from "./constants";
+import { cacheTagsForPath } from "@/lib/cache-tags";
+import { QueryString } from "@/lib/query-string";
+import { RequestQueue } from "@/lib/request-queue";
+import {
+  logJson,
+  REQUEST_ID_HEADER,
+  type CacheStatus,
+} from "@/lib/request-log";
 import { ok, err, Result, Ok } from "@/lib/result";
 // root
 import type {
   DatabaseObject,
+  DatabaseWriteResponse,
   DataProviderObject,
+  SearchResults,
+  SearchResultsObject,
   SessionObject,
+  SessionPropertiesObject,
 } from "@/globals.d";
 
 /**
@@ -67,6 +92,7 @@ export interface FetchRequestInitializer {
   cookie?: string;
   session?: SessionObject;
   backend?: boolean;
+  requestId?: string;
 }
 
 /**
@@ -87,18 +113,150 @@ export interface ErrorObject {
  */
 const DEFAULT_REVALIDATE_TIME = 15;
 
+/**
+ * Default time in milliseconds to wait for each request attempt before aborting it.
+ */
+const DEFAULT_TIMEOUT = 30000;
+
+/**
+ * Controls how requests that fail with a transient error get retried. The delay before each retry
+ * doubles from `baseDelay`, up to `maxDelay`.
+ */
+export type RetryPolicy = {
+  // Maximum number of attempts, including the first one
+  maxAttempts: number;
+  // Delay in milliseconds before the first retry
+  baseDelay: number;
+  // Maximum delay in milliseconds between attempts
+  maxDelay?: number;
+};
+
+/**
+ * Retry policy for read requests, which we can safely repeat.
+ */
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelay: 250,
+  maxDelay: 4000,
+};
+Object.freeze(DEFAULT_RETRY_POLICY);
+
+/**
+ * Retry policy for write requests, which might not be safe to repeat.
+ */
+const NO_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 1,
+  baseDelay: 0,
+};
+Object.freeze(NO_RETRY_POLICY);
+
+/**
+ * Options that control the timeout, retries, and cancellation of every request.
+ */
+export type RequestControlOptions = {
+  // Time in milliseconds to wait for each attempt before aborting it; 0 to wait forever
+  timeout?: number;
+  // How to retry requests that fail with a transient error
+  retry?: RetryPolicy;
+  // Lets the caller cancel the request, e.g. when the user navigates away
+  signal?: AbortSignal;
+};
+
 /**
  * Options for methods to request data from the data provider.
  */
-type FetchOptions = {
+export type FetchOptions = RequestControlOptions & {
   // True to get data from database instead of search engine
   isDbRequest?: boolean;
   // Time in seconds to revalidate the data from the data provider
   revalidateTime?: number;
-  // True to not use the NextJS fetch cache, and assure we get fresh data from the data provider
+  // True to not use the NextJS fetch cache, and assure we get fresh data from the data provider.
+  // Defaults to true, as all users share the cache; set false only for data that doesn't depend
+  // on the user
   noCache?: boolean;
 };
 
+/**
+ * Options for iterating over search results with `searchObjects()`.
+ */
+export type SearchIterationOptions = FetchOptions & {
+  // Number of objects to request with each page of search results, up to `MAX_RESULT_WINDOW`
+  pageSize?: number;
+  // Properties of each object to retrieve, replacing any `field=` in the query; empty to keep the
+  // query's fields, or get the default search-result properties if it has none
+  fields?: string[];
+};
+
+/**
+ * One page of search results that `searchObjects()` iterates over.
+ */
+type SearchPage = {
+  // Objects of the page; empty if the search matched nothing
+  objects: SearchResultsObject[];
+  // Total number of objects the search matches across all pages
+  total: number;
+};
+
+/**
+ * Progress of a `getMultipleObjects()` call, reported after each object request completes.
+ */
+export type MultipleObjectsProgress = {
+  // Number of requests completed so far, successful or not
+  completed: number;
+  // Total number of requests
+  total: number;
+  // Index of the just-completed request within the requested paths
+  index: number;
+  // Result of the just-completed request
+  result: Result<DataProviderObject, ErrorObject>;
+};
+
+/**
+ * Options for requesting multiple objects with `getMultipleObjects()`.
+ */
+export type MultipleObjectsOptions = FetchOptions & {
+  // True to leave failed requests out of the results
+  filterErrors?: boolean;
+  // Maximum number of this call's requests to have in flight at once
+  concurrency?: number;
+  // Called after each object request completes
+  onProgress?: (progress: MultipleObjectsProgress) => void;
+};
+
+/**
+ * Default maximum number of requests a single `getMultipleObjects()` call has in flight at once.
+ */
+const DEFAULT_MULTIPLE_OBJECTS_CONCURRENCY = 6;
+
+/**
+ * Maximum number of `getMultipleObjects()` requests in flight at once across all calls. On the
+ * server, this covers all users.
+ */
+const MAX_CONCURRENT_OBJECT_REQUESTS = 24;
+
+/**
+ * Queue shared by all `getMultipleObjects()` calls, so that concurrent calls share the available
+ * requests fairly.
+ */
+const objectRequestQueue = new RequestQueue(MAX_CONCURRENT_OBJECT_REQUESTS);
+
+/**
+ * Default number of objects to request per page when iterating over search results.
+ */
+const DEFAULT_SEARCH_PAGE_SIZE = 500;
+
+/**
+ * The search engine's `max_result_window`: the data provider rejects searches whose `from` plus
+ * `limit` exceeds this, so `from` can't page through searches with more results than this.
+ */
+export const MAX_RESULT_WINDOW = 10000;
+
+/**
+ * Property that orders cursor-based iteration over search results. Every object has a unique one,
+ * and the search engine indexes it as a keyword, so it can sort by it and filter by its range.
+ */
+const SEARCH_CURSOR_FIELD = "uuid";
+
 /**
  * Default option values for methods to request data from the data provider. Provide any of these
  * properties explicitly in the request methods to override these defaults.
@@ -106,7 +264,7 @@ type FetchOptions = {
 const defaultFetchOptions: FetchOptions = {
   isDbRequest: false,
   revalidateTime: DEFAULT_REVALIDATE_TIME,
-  noCache: false,
+  noCache: true,
 };
 
 /**
@@ -119,6 +277,22 @@ interface NextRequestInit extends RequestInit {
   };
 }
 
+/**
+ * Single RFC 6902 JSON Patch operation. `path` holds a JSON Pointer, e.g. `/aliases/2`.
+ */
+export type JsonPatchOperation =
+  | { op: "add" | "replace" | "test"; path: string; value: unknown }
+  | { op: "remove"; path: string }
+  | { op: "move" | "copy"; from: string; path: string };
+
+/**
+ * RFC 7396 JSON merge-patch document. Properties with `null` values get removed from the patched
+ * object, while other properties get merged into it.
+ */
+export type JsonMergePatch = {
+  [key: string]: unknown;
+};
+
 /**
  * fetch() methods that allow a `body` in the options object.
  */
@@ -176,6 +350,7 @@ export const enum HttpStatusCode {
   IM_A_TEAPOT = 418,
   UNPROCESSABLE_ENTITY = 422,
   TOO_MANY_REQUESTS = 429,
+  CLIENT_CLOSED_REQUEST = 499, // Non-standard nginx code for requests the client cancelled
   INTERNAL_SERVER_ERROR = 500,
   NOT_IMPLEMENTED = 501,
   BAD_GATEWAY = 502,
@@ -184,6 +359,17 @@ export const enum HttpStatusCode {
   HTTP_VERSION_NOT_SUPPORTED = 505,
 }
 
+/**
+ * HTTP status codes indicating a transient failure worth retrying.
+ */
+const RETRYABLE_STATUS_CODES: HttpStatusCode[] = [
+  HttpStatusCode.TOO_MANY_REQUESTS,
+  HttpStatusCode.BAD_GATEWAY,
+  HttpStatusCode.SERVICE_UNAVAILABLE,
+  HttpStatusCode.GATEWAY_TIMEOUT,
+];
+Object.freeze(RETRYABLE_STATUS_CODES);
+
 /**
  * Standard returned response for a network error.
  */
@@ -199,21 +385,267 @@ const NETWORK_ERROR_RESPONSE: ErrorObject = {
 Object.freeze(NETWORK_ERROR_RESPONSE);
 
 /**
- * Estimate of the maximum size of an @id=path query-string element.
+ * Room to reserve in bulk-request URLs for the `from` and `limit` query-string elements.
+ */
+const PAGING_QUERY_LENGTH = "&from=000000&limit=000000".length;
+
+/**
+ * Objects that `getMultipleObjectsBulkWithMissing()` retrieved, along with the requested paths
+ * that didn't match any object, e.g. because the object doesn't exist or the user can't view it.
+ */
+export type BulkObjects = {
+  objects: DataProviderObject[];
+  missingPaths: string[];
+};
+
+/**
+ * Successful write response to return when the data provider responds without a body.
+ */
+const NO_CONTENT_WRITE_RESPONSE: DatabaseWriteResponse = {
+  "@graph": [],
+  "@type": ["result"],
+  status: "success",
+};
+Object.freeze(NO_CONTENT_WRITE_RESPONSE);
+
+/**
+ * Determine whether a response from `fetch()` came from the NextJS fetch cache. NextJS builds
+ * cached responses with the `Response` constructor, giving them the `default` type, while actual
+ * network responses have the `basic` or `cors` type.
+ * @param {NextRequestInit} init Options passed to `fetch()`
+ * @param {Response} response Response from `fetch()`
+ * @returns {CacheStatus} Whether the response came from the cache; null in the browser
+ */
+function responseCacheStatus(
+  init: NextRequestInit,
+  response: Response
+): CacheStatus {
+  if (typeof window !== "undefined") {
+    return null;
+  }
+  if (init.method !== FetchMethod.GET || init.cache === "no-store") {
+    return "bypass";
+  }
+  return response.type === "default" ? "hit" : "miss";
+}
+
+/**
+ * Maximum number of characters of a response body to include in error details.
+ */
+const BODY_EXCERPT_LENGTH = 200;
+
+/**
+ * Read the body of a response as text, treating an unreadable body as empty.
+ * @param {Response} response Response from fetch()
+ * @returns {Promise<string>} Body of the response; empty string if none or unreadable
+ */
+async function readBodyText(response: Response): Promise<string> {
+  try {
+    return await response.text();
+  } catch {
+    return "";
+  }
+}
+
+/**
+ * Parse a response body as JSON.
+ * @param {string} text Body of the response
+ * @returns {unknown} Parsed body; undefined if the body isn't valid JSON
+ */
+function parseJsonText(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Get a short, readable excerpt of a response body for error details. HTML bodies, like the error
+ * pages load balancers return, get their tags stripped so that only their text remains.
+ * @param {string} text Body of the response
+ * @returns {string} Excerpt of the body; empty string for empty bodies
+ */
+function bodyExcerpt(text: string): string {
+  const plainText = /^\s*</.test(text)
+    ? text
+        .replace(/<(script|style)[\s\S]*?<\/\1>/gi, " ")
+        .replace(/<[^>]*>/g, " ")
+    : text;
+  const collapsed = plainText.replace(/\s+/g, " ").trim();
+  return collapsed.length > BODY_EXCERPT_LENGTH
+    ? `${collapsed.slice(0, BODY_EXCERPT_LENGTH)}…`
+    : collapsed;
+}
+
+/**
+ * Convert a non-OK response from the data provider into an error object. The data provider
+ * normally returns its error details as JSON in the response body, but proxies and load balancers
+ * in front of it can return HTML, plain text, or nothing at all. Keep the HTTP status of the
+ * response as the error code if the body doesn't include one, and use an excerpt of any non-JSON
+ * body as the error details.
+ * @param {Response} response Non-OK response from fetch()
+ * @returns {Promise<ErrorObject>} Error object describing the failed request
+ */
+async function responseToErrorObject(response: Response): Promise<ErrorObject> {
+  const text = await readBodyText(response);
+  const title = response.statusText || `HTTP ${response.status}`;
+  const errorType = response.statusText
+    ? `HTTP${response.statusText.replace(/\W/g, "")}`
+    : `HTTP${response.status}`;
+
+  const body = parseJsonText(text);
+  if (body && typeof body === "object" && !Array.isArray(body)) {
+    const error = body as Partial<ErrorObject>;
+    return {
+      "@type": [errorType, "Error"],
+      description: error.title || title,
+      detail: error.description || error.title || title,
+      status: "error",
+      title,
+      ...error,
+      code: error.code ?? response.status,
+      isError: true,
+    };
+  }
+
+  return {
+    isError: true,
+    "@type": [errorType, "Error"],
+    code: response.status,
+    description: title,
+    detail: bodyExcerpt(text) || "The server returned an empty response.",
+    status: "error",
+    title,
+  };
+}
+
+/**
+ * Parse the JSON body of a successful response. An empty body (e.g. from a 204 response) parses
+ * to `emptyValue`, while a body that isn't JSON, like an HTML page from a misconfigured proxy,
+ * becomes an error object with an excerpt of the body.
+ * @param {Response} response Successful response from fetch()
+ * @param {T} emptyValue Value to return for an empty body
+ * @returns {Promise<Result<T, ErrorObject>>} Parsed body, or an error object
+ */
+async function responseToJson<T>(
+  response: Response,
+  emptyValue: T
+): Promise<Result<T, ErrorObject>> {
+  const text = await readBodyText(response);
+  if (text.trim() === "") {
+    return ok(emptyValue);
+  }
+
+  const body = parseJsonText(text);
+  if (body === undefined) {
+    return err({
+      isError: true,
+      "@type": ["InvalidResponseError", "Error"],
+      code: HttpStatusCode.BAD_GATEWAY,
+      description: "Invalid response",
+      detail: `Expected JSON with status ${response.status} but got: ${bodyExcerpt(text)}`,
+      status: "error",
+      title: "Invalid response",
+    });
+  }
+  return ok(body as T);
+}
+
+/**
+ * Generate the error object for a request that failed without a response from the server, noting
+ * the attempt that failed and why.
+ * @param {string} type Error type to include in the `@type` of the error object
+ * @param {number} code HTTP status code that best describes the failure
+ * @param {string} title Short description of the failure
+ * @param {number} attempt 1-based attempt that failed
+ * @param {number} maxAttempts Maximum number of attempts allowed for the request
+ * @param {string} reason Why the attempt failed
+ * @returns {ErrorObject} Error object describing the failed request
+ */
+function requestFailureError(
+  type: string,
+  code: number,
+  title: string,
+  attempt: number,
+  maxAttempts: number,
+  reason: string
+): ErrorObject {
+  return {
+    ...NETWORK_ERROR_RESPONSE,
+    "@type": [type, "Error"],
+    code,
+    title,
+    description: title,
+    detail: `Attempt ${attempt} of ${maxAttempts} failed: ${reason}`,
+  };
+}
+
+/**
+ * Calculate the delay before the next attempt of a failed request. Honor the `Retry-After` header
+ * of the failed response if it specifies a delay in seconds, and otherwise back off exponentially.
+ * @param {RetryPolicy} retry Retry policy for the request
+ * @param {number} attempt 1-based attempt that just failed
+ * @param {Response} [response] Response from the failed attempt, if the server responded
+ * @returns {number} Delay in milliseconds before the next attempt
+ */
+function retryDelay(
+  retry: RetryPolicy,
+  attempt: number,
+  response?: Response
+): number {
+  const maxDelay = retry.maxDelay ?? Number.POSITIVE_INFINITY;
+  const retryAfter = Number(response?.headers.get("Retry-After"));
+  if (retryAfter > 0) {
+    return Math.min(retryAfter * 1000, maxDelay);
+  }
+  return Math.min(retry.baseDelay * 2 ** (attempt - 1), maxDelay);
+}
+
+/**
+ * Wait for the given number of milliseconds, or until the given signal aborts.
+ * @param {number} delay Time in milliseconds to wait
+ * @param {AbortSignal} [signal] Ends the wait early when aborted
+ * @returns {Promise<void>} Resolves when the wait ends
  */
-const MAX_PATH_QUERY_LENGTH_ESTIMATE = 50;
+function wait(delay: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    // An already-aborted signal never fires "abort" again.
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const timer = setTimeout(done, delay);
+    signal?.addEventListener("abort", done, { once: true });
+
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    }
+  });
+}
 
 /**
- * Log a request from the NextJS server to igvfd.
- * @param {string} method FetchRequest method that performs the request
- * @param {string} path Path or paths to requested resource
- * @returns {void}
+ * Create an empty map of pending requests for a single server render.
+ * @returns {Map<string, Promise<unknown>>} Empty map of pending requests keyed by request
  */
-function logRequest(method: string, path: string): void {
-  const date = new Date().toISOString();
-  console.log(`SVRREQ [${date}] ${method} ${path}`);
+function createRenderRequests(): Map<string, Promise<unknown>> {
+  return new Map();
 }
 
+/**
+ * Get the pending requests of the current server render. React's `cache()` gives each server
+ * render its own map, so identical requests within one render can share a single request to the
+ * data provider, while separate renders -- potentially for different users -- never share data.
+ * Outside a server render, each call returns a new empty map, so no requests get shared. React
+ * builds without `cache()`, like the one jest uses, never share requests either.
+ */
+const getRenderRequests =
+  typeof cache === "function"
+    ? cache(createRenderRequests)
+    : createRenderRequests;
+
 /**
  * Make requests to the server or data provider.
  * @param {object} {
@@ -224,6 +656,7 @@ function logRequest(method: string, path: string): void {
 export class FetchRequest {
   private headers = new Headers();
   private backend = false;
+  private requestId = "";
   private revalidateSeconds: number | undefined;
 
   /**
@@ -251,9 +684,10 @@ export class FetchRequest {
     let cookie: string | undefined;
     let session: SessionObject | undefined;
     let backend: boolean | undefined;
+    let requestId: string | undefined;
 
     if (initializer) {
-      ({ cookie, session, backend } = initializer);
+      ({ cookie, session, backend, requestId } = initializer);
       if (cookie && session) {
         throw new Error(
           "Must authenticate with either cookie (server-side requests) or session (client-side requests) but not both"
@@ -280,47 +714,67 @@ export class FetchRequest {
     if (session && !this.isServer && !backend) {
       this.headers.append("X-CSRF-Token", session._csrft_);
     }
+    if (requestId && this.isServer) {
+      this.requestId = requestId;
+    }
 
     if (backend) {
       this.backend = true;
     }
   }
 
+  /**
+   * Log a request from the NextJS server to igvfd.
+   * @param {string} method FetchRequest method that performs the request
+   * @param {string} path Path or paths to requested resource
+   */
+  private logRequest(method: string, path: string): void {
+    logJson({
+      event: "fetch-request",
+      requestId: this.requestId || undefined,
+      method,
+      path,
+    });
+  }
+
   /**
    * Take an array of paths to database objects, and break it into groups of paths to fit within
-   * the maximum size of a query string -- each group an array of paths with a maximum calculated
-   * size. This function returns an array of these groups -- an array of arrays of paths, with no
-   * sub-array having a length greater than the amount that would fit within a URL.
+   * the maximum size of a URL -- each group an array of paths whose encoded `@id=path` query-string
+   * elements fit within the URL along with the rest of its query string. This function returns an
+   * array of these groups -- an array of arrays of paths. A path too long to fit in a URL with any
+   * other path gets a group to itself.
    * @param {string[]} paths Path of each object to request
-   * @param {number} adjustment Number of characters to subtract from the URL length for other
-   *     query-string elements
+   * @param {number} baseLength Number of characters in the URL before the path elements, plus
+   *     room for any query-string elements after them
    * @returns {Array<string[]>} Array of arrays (groups) of paths
    */
   private pathsIntoPathGroups(
     paths: string[],
-    adjustment: number
+    baseLength: number
   ): Array<string[]> {
-    // Calculate the maximum number of paths that can fit into a query string.
-    const maxGroupSize = Math.floor(
-      (MAX_URL_LENGTH - adjustment) / MAX_PATH_QUERY_LENGTH_ESTIMATE
-    );
-
-    // Break the paths into groups of maxGroupSize. Each group gets converted to a query string
-    // and sent as a single request.
-    const pathGroups = paths.reduce(
-      (groups: Array<string[]>, path: string) => {
-        const lastGroup = groups[groups.length - 1];
-        if (lastGroup.length < maxGroupSize) {
-          // The last group in the array of groups still has room for a new path.
-          lastGroup.push(path);
-          return groups;
-        }
-
-        // No room for another path in the last group. Make a new last group at the end.
-        return [...groups, [path]];
-      },
-      [[]]
-    );
+    const maxPathsLength = MAX_URL_LENGTH - baseLength;
+    const pathGroups: Array<string[]> = [];
+    let currentGroup: string[] = [];
+    let currentLength = 0;
+    paths.forEach((path) => {
+      // Count the "&" that separates this element from the previous one.
+      const elementLength =
+        `&${new QueryString().addKeyValue("@id", path).format()}`.length;
+      if (
+        currentGroup.length > 0 &&
+        currentLength + elementLength > maxPathsLength
+      ) {
+        // No room for another path in the current group. Start a new one.
+        pathGroups.push(currentGroup);
+        currentGroup = [];
+        currentLength = 0;
+      }
+      currentGroup.push(path);
+      currentLength += elementLength;
+    });
+    if (currentGroup.length > 0) {
+      pathGroups.push(currentGroup);
+    }
     return pathGroups;
   }
 
@@ -365,6 +819,10 @@ export class FetchRequest {
    * @param {object} [additional.payload] Object to send as the request body
    * @param {string} [additional.accept] Accept header to send with the request
    * @param {string} [additional.contentType] Content-Type header to send with the request
+   * @param {number} [additional.revalidateTime] Seconds to cache the response on the server
+   * @param {boolean} [additional.noCache] True to bypass the NextJS fetch cache
+   * @param {string[]} [additional.tags] Tags that `/api/revalidate` can use to purge the response
+   *     from the NextJS fetch cache
    * @returns {NextRequestInit} Options object for fetch()
    */
   private buildOptions(
@@ -375,6 +833,7 @@ export class FetchRequest {
       contentType?: string;
       revalidateTime?: number;
       noCache?: boolean;
+      tags?: string[];
     }
   ): NextRequestInit {
     if (additional.accept) {
@@ -383,15 +842,27 @@ export class FetchRequest {
     if (additional.contentType) {
       this.headers.set("Content-Type", additional.contentType);
     }
+    // NextJS includes every request header in the fetch-cache key, so sending the request ID with
+    // cacheable requests would make each of them a cache miss that adds a new cache entry. Only
+    // requests that can't come from the cache send it; the log entries of all requests record it.
+    const headers = new Headers(this.headers);
+    if (this.requestId && (additional.noCache || method !== FetchMethod.GET)) {
+      headers.set(REQUEST_ID_HEADER, this.requestId);
+    }
     const options: NextRequestInit = {
       method,
       credentials: "include",
       redirect: "follow",
-      headers: this.headers,
+      headers,
       cache: additional.noCache ? "no-store" : "default",
     };
-    if (additional.revalidateTime && additional.revalidateTime > 0) {
-      options.next = { revalidate: additional.revalidateTime } as any;
+    if (!additional.noCache) {
+      options.next = {
+        ...(additional.revalidateTime && additional.revalidateTime > 0
+          ? { revalidate: additional.revalidateTime }
+          : {}),
+        ...(additional.tags ? { tags: additional.tags } : {}),
+      };
     }
     if (additional.payload && METHODS_ALLOWING_BODY.includes(method)) {
       options.body = JSON.stringify(additional.payload);
@@ -400,66 +871,295 @@ export class FetchRequest {
   }
 
   /**
-   * Request the object with the given path.
+   * Merge identical requests made within the same server render. The first request with a given
+   * key gets sent, and later requests with the same key within the same render share its promise.
+   * Requests with an abort signal don't get merged, because cancelling one would cancel the
+   * others. Client requests never get merged.
+   * @param {string} key Identifies the request; includes everything that affects its response
+   * @param {AbortSignal} [signal] Abort signal for the request, if any
+   * @param {() => Promise<T>} sendRequest Sends the request if no identical request is pending
+   * @returns {Promise<T>} Response shared by all identical requests within the render
+   */
+  private deduplicate<T>(
+    key: string,
+    signal: AbortSignal | undefined,
+    sendRequest: () => Promise<T>
+  ): Promise<T> {
+    if (!this.isServer || signal) {
+      return sendRequest();
+    }
+
+    // Include the cookie in the key so that requests from different users never get merged.
+    const renderRequests = getRenderRequests();
+    const renderKey = `${key}|${this.headers.get("Cookie") || ""}`;
+    let pendingRequest = renderRequests.get(renderKey) as
+      | Promise<T>
+      | undefined;
+    if (!pendingRequest) {
+      pendingRequest = sendRequest();
+      renderRequests.set(renderKey, pendingRequest);
+    }
+    return pendingRequest;
+  }
+
+  /**
+   * Log the outcome of a single attempt to fetch from the data provider, including how long it
+   * took, its size, and whether it came from the NextJS fetch cache.
+   * @param {string} url URL of the request
+   * @param {NextRequestInit} init Options passed to `fetch()`
+   * @param {number} attempt 1-based attempt number
+   * @param {number} duration Time in milliseconds the attempt took
+   * @param {Response} [response] Response to the attempt, if the server responded
+   * @param {string} [reason] Why the attempt failed without a response
+   */
+  private logResponse(
+    url: string,
+    init: NextRequestInit,
+    attempt: number,
+    duration: number,
+    response?: Response,
+    reason?: string
+  ): void {
+    const size = response?.headers.get("Content-Length");
+    logJson({
+      event: "fetch-response",
+      requestId: this.requestId || undefined,
+      method: init.method,
+      url,
+      attempt,
+      status: response?.status ?? null,
+      durationMs: duration,
+      size: size ? Number(size) : null,
+      cache: response ? responseCacheStatus(init, response) : null,
+      ...(reason ? { error: reason } : {}),
+    });
+  }
+
+  /**
+   * Send a request with fetch(), retrying it according to the retry policy if it fails with a
+   * transient error -- a network failure, a timeout, or a retryable HTTP status -- and read the
+   * body of its response. Each attempt, including reading its body, gets aborted if it takes
+   * longer than the timeout. The caller can cancel the request at any time with the `signal`
+   * option. The final error object notes which attempt failed and why.
+   * @param {string} url Complete URL to request
+   * @param {NextRequestInit} init Options object for fetch()
+   * @param {RequestControlOptions} control Timeout, retry, and cancellation options
+   * @param {RetryPolicy} defaultRetry Retry policy if `control` doesn't specify one
+   * @param {(response: Response) => Promise<Result<T, ErrorObject>>} readBody Reads the body of
+   *     a successful response
+   * @returns {Promise<Result<T, ErrorObject>>} Body of the successful response, or error object
+   */
+  private async sendRequest<T>(
+    url: string,
+    init: NextRequestInit,
+    control: RequestControlOptions,
+    defaultRetry: RetryPolicy,
+    readBody: (response: Response) => Promise<Result<T, ErrorObject>>
+  ): Promise<Result<T, ErrorObject>> {
+    const retry = control.retry || defaultRetry;
+    const maxAttempts = Math.max(retry.maxAttempts, 1);
+    const timeout = control.timeout ?? DEFAULT_TIMEOUT;
+    const { signal } = control;
+
+    // Error to return if the caller cancels the request during the given attempt.
+    function cancelledError(attempt: number): ErrorObject {
+      return requestFailureError(
+        "AbortError",
+        HttpStatusCode.CLIENT_CLOSED_REQUEST,
+        "Request cancelled",
+        attempt,
+        maxAttempts,
+        "the request was cancelled"
+      );
+    }
+
+    for (let attempt = 1; ; attempt += 1) {
+      if (signal?.aborted) {
+        return err(cancelledError(attempt));
+      }
+
+      // Abort this attempt if it times out, or if the caller cancels the request. Both stay in
+      // effect until the body has been read, so that a stalled body can't hang the request.
+      const controller = new AbortController();
+      let isTimedOut = false;
+      const timer =
+        timeout > 0
+          ? setTimeout(() => {
+              isTimedOut = true;
+              controller.abort();
+            }, timeout)
+          : undefined;
+      const onAbort = () => controller.abort();
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      let response: Response | undefined;
+      let body: Result<T, ErrorObject> | undefined;
+      let error: ErrorObject | undefined;
+      let reason = "";
+      const isRetryable = (status: number) =>
+        RETRYABLE_STATUS_CODES.includes(status) && attempt < maxAttempts;
+      const start = Date.now();
+      try {
+        response = await fetch(url, { ...init, signal: controller.signal });
+        if (response.ok) {
+          body = await readBody(response);
+        } else if (!isRetryable(response.status)) {
+          error = await responseToErrorObject(response);
+        }
+        // Body readers treat an unreadable body as empty, so check whether an abort cut it off.
+        if (controller.signal.aborted) {
+          throw new Error("the response body was cut off");
+        }
+      } catch (caught) {
+        if (signal?.aborted) {
+          return err(cancelledError(attempt));
+        }
+        if (isTimedOut) {
+          reason = response
+            ? `incomplete response within ${timeout} ms`
+            : `no response within ${timeout} ms`;
+        } else {
+          reason =
+            (caught instanceof Error && caught.message) ||
+            String(caught) ||
+            "unknown network failure";
+        }
+        response = undefined;
+      } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+      }
+      this.logResponse(
+        url,
+        init,
+        attempt,
+        Date.now() - start,
+        response,
+        reason
+      );
+
+      if (response) {
+        if (body) {
+          return body;
+        }
+
+        // Don't retry errors that won't go away by themselves, e.g. 404.
+        if (error) {
+          return err(
+            RETRYABLE_STATUS_CODES.includes(response.status)
+              ? {
+                  ...error,
+                  detail: `Attempt ${attempt} of ${maxAttempts} failed with status ${response.status}: ${error.detail || response.statusText}`,
+                }
+              : error
+          );
+        }
+      } else if (reason && attempt >= maxAttempts) {
+        return err(
+          isTimedOut
+            ? requestFailureError(
+                "TimeoutError",
+                HttpStatusCode.GATEWAY_TIMEOUT,
+                "Request timed out",
+                attempt,
+                maxAttempts,
+                reason
+              )
+            : requestFailureError(
+                "NetworkError",
+                HttpStatusCode.SERVICE_UNAVAILABLE,
+                "Network error",
+                attempt,
+                maxAttempts,
+                reason
+              )
+        );
+      }
+
+      // Back off before the next attempt. Cancelling the request ends the wait early.
+      await response?.body?.cancel();
+      logJson({
+        event: "fetch-retry",
+        requestId: this.requestId || undefined,
+        url,
+        attempt,
+        maxAttempts,
+        reason: reason || `status ${response!.status}`,
+      });
+      await wait(retryDelay(retry, attempt, response), signal);
+      if (signal?.aborted) {
+        return err(cancelledError(attempt));
+      }
+    }
+  }
+
+  /**
+   * Request the object with the given path. Identical requests within the same server render share
+   * a single request to the data provider. Responses skip the NextJS fetch cache unless the caller
+   * opts in with `options.noCache` set to false, because the cache is shared between users and
+   * the object might have restricted visibility. Cached responses get tagged with the object's
+   * `@id`, or as a search for other paths, so `/api/revalidate` can purge them once the object
+   * changes.
    * @param {string} path Path to requested resource
    * @param {FetchOptions} [options] indicating request options
-   * @returns {Promise<Result<DataProviderObject, ErrorObject>>} Requested object or error object,
-   *     or `defaultErrorValue` if given and the request fails
+   * @returns {Promise<Result<DataProviderObject, ErrorObject>>} Requested object or error object
    */
   public async getObject(
     path: string,
     options = {} as FetchOptions
   ): Promise<Result<DataProviderObject, ErrorObject>> {
     const requestOptions = { ...defaultFetchOptions, ...options };
-    const headerOptions = this.buildOptions(FetchMethod.GET, {
-      accept: PayloadFormat.JSON,
-      revalidateTime: requestOptions.revalidateTime,
-      noCache: true,
-    });
-    try {
-      logRequest("getObject", path);
-      const response = await fetch(
-        this.pathUrl(path, options.isDbRequest),
-        headerOptions
-      );
-      if (!response.ok) {
-        const error = {
-          ...(await response.json()),
-          isError: true,
-        } as ErrorObject;
-        return err(error);
+    const url = this.pathUrl(path, options.isDbRequest);
+    return this.deduplicate(`getObject|${url}`, options.signal, async () => {
+      const headerOptions = this.buildOptions(FetchMethod.GET, {
+        accept: PayloadFormat.JSON,
+        revalidateTime: requestOptions.revalidateTime,
+        noCache: requestOptions.noCache,
+        tags: cacheTagsForPath(path),
+      });
+      try {
+        this.logRequest("getObject", path);
+        return await this.sendRequest(
+          url,
+          headerOptions,
+          requestOptions,
+          DEFAULT_RETRY_POLICY,
+          (r) => responseToJson<DataProviderObject>(r, {})
+        );
+      } catch (error) {
+        console.log("NETWORK ERROR: ", error);
+        return err<DataProviderObject, ErrorObject>(NETWORK_ERROR_RESPONSE);
       }
-      const results = (await response.json()) as DataProviderObject;
-      return ok(results);
-    } catch (error) {
-      console.log("NETWORK ERROR: ", error);
-      return err(NETWORK_ERROR_RESPONSE);
-    }
+    });
   }
 
   /**
-   * Request the object with the given URL, including protocol and domain.
+   * Request the object with the given URL, including protocol and domain. Like `getObject()`,
+   * responses only use the NextJS fetch cache if the caller opts in.
    * @param {string} url Full URL to requested resource
-   * @returns {Promise<DataProviderObject|ErrorObject>} Requested object or error object
+   * @param {FetchOptions} [options] Caching, timeout, retry, and cancellation options
+   * @returns {Promise<Result<DataProviderObject, ErrorObject>>} Requested object or error object
    */
   public async getObjectByUrl(
-    url: string
+    url: string,
+    options: Omit<FetchOptions, "isDbRequest"> = {}
   ): Promise<Result<DataProviderObject, ErrorObject>> {
+    const requestOptions = { ...defaultFetchOptions, ...options };
     const headerOptions = this.buildOptions(FetchMethod.GET, {
       accept: PayloadFormat.JSON,
+      revalidateTime: requestOptions.revalidateTime,
+      noCache: requestOptions.noCache,
+      tags: cacheTagsForPath(new URL(url).pathname),
     });
     try {
-      logRequest("getObjectByUrl", url);
-      const response = await fetch(url, headerOptions);
-      if (!response.ok) {
-        const error = {
-          ...(await response.json()),
-          isError: true,
-        } as ErrorObject;
-        return err(error);
-      }
-      const results = (await response.json()) as DataProviderObject;
-      return ok(results);
+      this.logRequest("getObjectByUrl", url);
+      return await this.sendRequest(
+        url,
+        headerOptions,
+        options,
+        DEFAULT_RETRY_POLICY,
+        (r) => responseToJson<DataProviderObject>(r, {})
+      );
     } catch (error) {
       console.log(error);
       return err(NETWORK_ERROR_RESPONSE);
@@ -469,24 +1169,40 @@ export class FetchRequest {
   /**
    * Request a number of objects with the given paths, returning each path's resource in an array
    * in the same order as their paths in the given array. Any paths that result in an error
-   * get placed that array entry.
+   * get placed that array entry. To avoid flooding the data provider, only `options.concurrency`
+   * requests from this call run at once, and all calls share a limited number of requests in
+   * flight, taking turns so that calls with many paths don't hold up calls with few. Pass
+   * `options.onProgress` to hear about each completed request, e.g. to show partial loading.
    * @param {string[]} paths Array of paths to requested resources
-   * @param {object} [options] indicating request options
-   * @returns {Promise<Array<DataProviderObject|ErrorObject|T>>} Array of requested objects
+   * @param {MultipleObjectsOptions} [options] indicating request options
+   * @returns {Promise<Array<Result<DataProviderObject, ErrorObject>>>} Array of requested objects
    */
   public async getMultipleObjects(
     paths: string[],
-    options = { filterErrors: false }
+    options: MultipleObjectsOptions = {}
   ): Promise<Array<Result<DataProviderObject, ErrorObject>>> {
-    logRequest("getMultipleObjects", `[${paths.join(", ")}]`);
-    const results =
-      paths.length > 0
-        ? await Promise.all(paths.map((path) => this.getObject(path)))
-        : await Promise.resolve([]);
+    const {
+      filterErrors = false,
+      concurrency = DEFAULT_MULTIPLE_OBJECTS_CONCURRENCY,
+      onProgress,
+      ...fetchOptions
+    } = options;
+    this.logRequest("getMultipleObjects", `[${paths.join(", ")}]`);
 
-    return options.filterErrors
-      ? results.filter((result) => result.isOk())
-      : results;
+    const queueRequest = objectRequestQueue.createLane(concurrency);
+    let completed = 0;
+    const results = await Promise.all(
+      paths.map((path, index) =>
+        queueRequest(async () => {
+          const result = await this.getObject(path, fetchOptions);
+          completed += 1;
+          onProgress?.({ completed, total: paths.length, index, result });
+          return result;
+        })
+      )
+    );
+
+    return filterErrors ? results.filter((result) => result.isOk()) : results;
   }
 
   /**
@@ -494,58 +1210,162 @@ export class FetchRequest {
    * parallel, it instead requests a `/search`, passing in the `@id` of every requested object, as
    * well as the fields needed for each object. This can cause a query string too long to fit in a
    * URL, so break the paths into groups of paths, each group mapping to an individual request.
-   * request. Unlike `getMultipleObjects()`, this method never returns an array that could contain
-   * entries for failed requests. It instead either returns an array of successfully requested
-   * objects, or a single error value.
+   * Unlike `getMultipleObjects()`, this method never returns an array that could contain entries
+   * for failed requests. It instead either returns an array of successfully requested objects, or
+   * a single error value. Paths that match no object get left out of the array; use
+   * `getMultipleObjectsBulkWithMissing()` to find out which ones. Identical requests within the
+   * same server render share a single set of requests to the data provider.
    * @param {string[]} paths Path of each object to request
    * @param {string[]} fields Properties of each object to retrieve
+   * @param {FetchOptions} [options] Request options passed to each search request
    * @returns {Promise<Result<DataProviderObject[], ErrorObject>>} Array of requested objects
    */
   async getMultipleObjectsBulk(
     paths: Array<string>,
-    fields: Array<string>
+    fields: Array<string>,
+    options: FetchOptions = {}
   ): Promise<Result<Array<DataProviderObject>, ErrorObject>> {
-    logRequest("getMultipleObjectsBulk", `[${paths.join(", ")}]`);
+    const response = await this.getMultipleObjectsBulkWithMissing(
+      paths,
+      fields,
+      options
+    );
+    return response.map((bulkObjects) => bulkObjects.objects);
+  }
 
-    if (paths.length === 0) {
-      return ok([]);
+  /**
+   * Same as `getMultipleObjectsBulk()`, but also reports the requested paths that didn't match
+   * any object, whether because the object doesn't exist or the user doesn't have permission to
+   * view it. Paths have to match the `@id` of the requested objects to count as found.
+   * @param {string[]} paths Path of each object to request
+   * @param {string[]} fields Properties of each object to retrieve
+   * @param {FetchOptions} [options] Request options passed to each search request
+   * @returns {Promise<Result<BulkObjects, ErrorObject>>} Requested objects and missing paths
+   */
+  async getMultipleObjectsBulkWithMissing(
+    paths: Array<string>,
+    fields: Array<string>,
+    options: FetchOptions = {}
+  ): Promise<Result<BulkObjects, ErrorObject>> {
+    const uniquePaths = [...new Set(paths)];
+    if (uniquePaths.length === 0) {
+      return ok({ objects: [], missingPaths: [] });
     }
 
+    return this.deduplicate(
+      `getMultipleObjectsBulk|${fields.join(",")}|${uniquePaths.join(",")}|${options.isDbRequest || false}`,
+      options.signal,
+      () => this.requestObjectsBulk(uniquePaths, fields, options)
+    );
+  }
+
+  /**
+   * Does the work of `getMultipleObjectsBulkWithMissing()` without merging identical requests.
+   * @param {string[]} paths Path of each object to request; no duplicates
+   * @param {string[]} fields Properties of each object to retrieve
+   * @param {FetchOptions} options Request options passed to each search request
+   * @returns {Promise<Result<BulkObjects, ErrorObject>>} Requested objects and missing paths
+   */
+  private async requestObjectsBulk(
+    paths: Array<string>,
+    fields: Array<string>,
+    options: FetchOptions
+  ): Promise<Result<BulkObjects, ErrorObject>> {
+    this.logRequest("getMultipleObjectsBulk", `[${paths.join(", ")}]`);
+
     // Generate the query string for the needed fields of each object.
-    const fieldQuery = fields.map((field) => `field=${field}`).join("&");
+    const fieldQuery = new QueryString().setFields(fields).format();
 
-    // Break the paths into groups of MAX_PATH_GROUP_SIZE, each group mapping to a data-provider
-    // request. This reduces the lengths of the query strings to fit within the data provider's
-    // limits.
-    const pathGroups = this.pathsIntoPathGroups(paths, fieldQuery.length);
+    // Break the paths into groups, each group mapping to a data-provider request with a URL that
+    // fits within the data provider's limits. Measure the actual URL length, including the
+    // `from` and `limit` query-string elements that paging adds.
+    const baseLength =
+      this.pathUrl(`/search/?${fieldQuery}`, options.isDbRequest).length +
+      PAGING_QUERY_LENGTH;
+    const pathGroups = this.pathsIntoPathGroups(paths, baseLength);
 
     // For each group of paths, request the objects as search results. Send these requests in
     // parallel.
     const results = await Promise.all(
-      pathGroups.map(async (group) => {
-        const pathQuery = group.map((path) => `@id=${path}`).join("&");
-        const query = `${fieldQuery ? `${fieldQuery}&` : ""}${pathQuery}`;
-        const response = await this.getObject(
-          `/search/?${query}&limit=${group.length}`
-        );
-        return response.map((g) => g["@graph"] as Array<DataProviderObject>);
-      })
+      pathGroups.map((group) =>
+        this.requestPathGroup(group, fieldQuery, options)
+      )
     );
 
     const firstError = results.find((r) => r.isErr());
     if (firstError !== undefined) {
       // If we found an error, then bail, and we know it's not undefined
-      return firstError;
+      return err(firstError.unwrap_err());
     }
 
     // We know that all the Results in the results list are Ok
     // so we can safely turn them all into Array<DataProviderObject>
-    // Return the the flattened list wrapped in an Ok
-    return ok(Ok.all(results).flat());
+    const objects = Ok.all(results).flat();
+
+    // Report the requested paths that didn't match any of the returned objects.
+    const foundPaths = new Set(objects.map((object) => object["@id"]));
+    const missingPaths = paths.filter((path) => !foundPaths.has(path));
+    if (missingPaths.length > 0) {
+      this.logRequest(
+        "getMultipleObjectsBulk missing",
+        `[${missingPaths.join(", ")}]`
+      );
+    }
+    return ok({ objects, missingPaths });
   }
 
   /**
-   * Request the collection (e.g. "users") with the given path.
+   * Request the objects for one group of paths from `pathsIntoPathGroups()` as search results. If
+   * the data provider caps the number of results it returns, follow the search `total` and request
+   * the remaining results a page at a time with `from` and `limit`.
+   * @param {string[]} group Paths of the objects to request
+   * @param {string} fieldQuery `field=` query-string elements for the properties to retrieve
+   * @param {FetchOptions} options Request options passed to each search request
+   * @returns {Promise<Result<DataProviderObject[], ErrorObject>>} Objects found for the paths
+   */
+  private async requestPathGroup(
+    group: string[],
+    fieldQuery: string,
+    options: FetchOptions
+  ): Promise<Result<Array<DataProviderObject>, ErrorObject>> {
+    const query = new QueryString(fieldQuery);
+    group.forEach((path) => query.addKeyValue("@id", path));
+
+    const objects: DataProviderObject[] = [];
+    let total = group.length;
+    while (objects.length < total) {
+      const pageQuery = query
+        .clone()
+        .setFrom(objects.length)
+        .setLimit(total - objects.length);
+      const response = await this.getObject(
+        `/search/?${pageQuery.format()}`,
+        options
+      );
+      if (response.isErr()) {
+        // Searches that match no objects return 404, which simply means all remaining paths in
+        // this group have gone missing.
+        const error = response.unwrap_err();
+        if (error.code === HttpStatusCode.NOT_FOUND) {
+          break;
+        }
+        return err(error);
+      }
+
+      const results = response.unwrap() as unknown as SearchResults;
+      const page = results["@graph"] || [];
+      if (page.length === 0) {
+        break;
+      }
+      objects.push(...page);
+      total = Math.min(results.total ?? objects.length, group.length);
+    }
+    return ok(objects);
+  }
+
+  /**
+   * Request the collection (e.g. "users") with the given path. This loads every member of the
+   * collection at once, so use `searchObjects()` for large collections like files.
    * @param {string} collection Name of the collection to request
    * @returns {Promise<Result<DataProviderObject, ErrorObject>>} Collection data including all its members in @graph
    */
@@ -556,106 +1376,410 @@ export class FetchRequest {
   }
 
   /**
-   * Request text file string with the given path.
+   * Iterate over the objects matching the given search query, requesting the search results a page
+   * at a time so that you can process any number of objects without holding them all in memory.
+   * Each iteration yields a Result holding the next object. If a request fails, the iteration
+   * yields a Result holding the error and then ends. Searches that match nothing yield nothing.
+   * Pages skip the NextJS fetch cache unless `options.noCache` is false, as large pages don't fit
+   * in it.
+   *
+   * Searches with up to `MAX_RESULT_WINDOW` results get paged with `from=` in the query's sort
+   * order; include a `sort` in the query if objects could get added while iterating, so that the
+   * pages stay in a consistent order. The data provider can't page past that window, so larger
+   * searches get iterated in `uuid` order instead, ignoring the query's sort. Each of their pages
+   * requests the objects after the last `uuid` of the previous page, which works for any number of
+   * results and doesn't skip or repeat objects added while iterating.
+   *
+   * for await (const result of request.searchObjects("type=File", { fields: ["accession"] })) {
+   *   if (result.isErr()) { ... }
+   *   const file = result.unwrap();
+   * }
+   * @param {string} query Search query string without the leading "?", e.g. "type=File"
+   * @param {SearchIterationOptions} [options] Page size, fields, and request options
+   * @returns {AsyncGenerator<Result<DataProviderObject, ErrorObject>>} Matching objects
+   */
+  public async *searchObjects(
+    query: string,
+    options: SearchIterationOptions = {}
+  ): AsyncGenerator<Result<DataProviderObject, ErrorObject>> {
+    const {
+      pageSize = DEFAULT_SEARCH_PAGE_SIZE,
+      fields = [],
+      ...fetchOptions
+    } = options;
+    const searchQuery = new QueryString(query);
+    if (fields.length > 0) {
+      searchQuery.setFields(fields);
+    }
+    const pageOptions = { noCache: true, ...fetchOptions };
+
+    let from = 0;
+    let total = Number.POSITIVE_INFINITY;
+    while (from < total) {
+      const response = await this.getSearchPage(
+        searchQuery
+          .clone()
+          .setFrom(from)
+          .setLimit(Math.min(pageSize, MAX_RESULT_WINDOW - from)),
+        pageOptions
+      );
+      if (response.isErr()) {
+        yield err(response.unwrap_err());
+        return;
+      }
+
+      const page = response.unwrap();
+      if (from === 0 && page.total > MAX_RESULT_WINDOW) {
+        yield* this.searchObjectsByCursor(searchQuery, pageSize, pageOptions);
+        return;
+      }
+      if (page.objects.length === 0) {
+        return;
+      }
+      for (const object of page.objects) {
+        yield ok(object as DataProviderObject);
+      }
+      from += page.objects.length;
+      total = page.total;
+    }
+  }
+
+  /**
+   * Iterate over the objects matching a search query in `uuid` order, a page at a time, without
+   * `from=`. Each page requests the objects with a `uuid` after the last one of the previous page
+   * by adding a range to the query's `advancedQuery=`. Objects at or before the cursor get skipped,
+   * and a page with nothing after the cursor yields an error, so that the iteration ends instead of
+   * repeating pages if the data provider ignores the range.
+   * @param {QueryString} searchQuery Search query including any `field=` parameters
+   * @param {number} pageSize Number of objects to request with each page
+   * @param {FetchOptions} options Request options for each page
+   * @returns {AsyncGenerator<Result<DataProviderObject, ErrorObject>>} Matching objects
+   */
+  private async *searchObjectsByCursor(
+    searchQuery: QueryString,
+    pageSize: number,
+    options: FetchOptions
+  ): AsyncGenerator<Result<DataProviderObject, ErrorObject>> {
+    const cursorQuery = searchQuery
+      .clone()
+      .setFrom(0)
+      .setLimit(Math.min(pageSize, MAX_RESULT_WINDOW))
+      .setSort({ field: SEARCH_CURSOR_FIELD, direction: "asc" });
+    const fields = cursorQuery.getFields();
+    if (fields.length > 0) {
+      cursorQuery.setFields([...fields, SEARCH_CURSOR_FIELD]);
+    }
+    const advancedQuery = cursorQuery.getAdvancedQuery();
+
+    let cursor = "";
+    while (true) {
+      const range = `${SEARCH_CURSOR_FIELD}:{${cursor} TO *}`;
+      const pageQuery = cursor
+        ? cursorQuery
+            .clone()
+            .setAdvancedQuery(
+              advancedQuery ? `(${advancedQuery}) AND ${range}` : range
+            )
+        : cursorQuery;
+      const response = await this.getSearchPage(pageQuery, options);
+      if (response.isErr()) {
+        yield err(response.unwrap_err());
+        return;
+      }
+
+      const { objects } = response.unwrap();
+      if (objects.length === 0) {
+        return;
+      }
+      const page = objects.filter((object) => String(object.uuid) > cursor);
+      if (page.length === 0) {
+        yield err({
+          isError: true,
+          "@type": ["InvalidResponseError", "Error"],
+          code: HttpStatusCode.BAD_GATEWAY,
+          description: "Invalid response",
+          detail: `Search results after ${SEARCH_CURSOR_FIELD} ${cursor} repeated earlier results`,
+          status: "error",
+          title: "Invalid response",
+        });
+        return;
+      }
+      for (const object of page) {
+        yield ok(object as DataProviderObject);
+      }
+      cursor = String(page[page.length - 1].uuid);
+    }
+  }
+
+  /**
+   * Request one page of search results for `searchObjects()`. Searches that match nothing return
+   * 404, which this converts to an empty page.
+   * @param {QueryString} pageQuery Search query of the page, including its paging
+   * @param {FetchOptions} options Request options for the page
+   * @returns {Promise<Result<SearchPage, ErrorObject>>} Objects of the page and the search total
+   */
+  private async getSearchPage(
+    pageQuery: QueryString,
+    options: FetchOptions
+  ): Promise<Result<SearchPage, ErrorObject>> {
+    const response = await this.getObject(
+      `/search/?${pageQuery.format()}`,
+      options
+    );
+    if (
+      response.isErr() &&
+      response.unwrap_err().code === HttpStatusCode.NOT_FOUND
+    ) {
+      return ok({ objects: [], total: 0 });
+    }
+    return response.map((results) => {
+      const { "@graph": objects, total } = results as unknown as SearchResults;
+      return { objects: objects || [], total: total ?? 0 };
+    });
+  }
+
+  /**
+   * Request text file string with the given path. Like `getObject()`, responses only use the
+   * NextJS fetch cache if the caller opts in.
    * @param {string} path Path to the requested resource
-   * @param {T} defaultErrorValue? Value to return if the request fails; error object if not given
-   * @returns {Promise<string|DataProviderObject|T>} Requested string, or error object if
-   *   `defaultErrorValue` not given
+   * @param {FetchOptions} [options] Caching, timeout, retry, and cancellation options
+   * @returns {Promise<Result<string, ErrorObject>>} Requested string or error object
    */
-  public async getText<T>(
+  public async getText(
     path: string,
-    defaultErrorValue?: T
-  ): Promise<string | ErrorObject | T> {
-    const options = this.buildOptions(FetchMethod.GET, {
+    options: Omit<FetchOptions, "isDbRequest"> = {}
+  ): Promise<Result<string, ErrorObject>> {
+    const requestOptions = { ...defaultFetchOptions, ...options };
+    const headerOptions = this.buildOptions(FetchMethod.GET, {
       accept: PayloadFormat.TEXT,
+      revalidateTime: requestOptions.revalidateTime,
+      noCache: requestOptions.noCache,
+      tags: cacheTagsForPath(path),
     });
     try {
-      logRequest("getText", path);
-      const response = await fetch(this.pathUrl(path), options);
-      if (!response.ok && defaultErrorValue !== undefined) {
-        return defaultErrorValue;
-      }
-      return response.text();
+      this.logRequest("getText", path);
+      return await this.sendRequest(
+        this.pathUrl(path),
+        headerOptions,
+        options,
+        DEFAULT_RETRY_POLICY,
+        async (r) => ok<string, ErrorObject>(await r.text())
+      );
     } catch (error) {
       console.log(error);
-      return defaultErrorValue === undefined
-        ? NETWORK_ERROR_RESPONSE
-        : defaultErrorValue;
+      return err(NETWORK_ERROR_RESPONSE);
     }
   }
 
   /**
-   * Send a POST request with the given object.
-   * @param {string} path Path to resource to post to
-   * @param {DataProviderObject} payload Object to post
-   * @returns {Promise<DataProviderObject|ErrorObject>} Response from POST request
+   * Send a write request (e.g. POST, PUT, PATCH, DELETE) with the given payload to the data
+   * provider. All the public write methods rely on this one. Write requests don't get retried
+   * unless the caller provides a retry policy, because repeating them might not be safe.
+   * @param {FetchMethod} method Write method to send
+   * @param {string} path Path to resource to write to
+   * @param {object} payload Object to send as the request body; ignored for DELETE
+   * @param {RequestControlOptions} options Timeout, retry, and cancellation options
+   * @param {T} emptyValue Value to return when the data provider responds without a body
+   * @param {PayloadFormat} [contentType] Format of the payload
+   * @returns {Promise<Result<T, ErrorObject>>} Response from the write request
    */
-  public async postObject(
+  private async writeObject<T>(
+    method: FetchMethod,
     path: string,
-    payload: DataProviderObject
-  ): Promise<DataProviderObject | ErrorObject> {
-    logRequest("postObject", path);
-    const options = this.buildOptions(FetchMethod.POST, {
+    payload: object,
+    options: RequestControlOptions,
+    emptyValue: T,
+    contentType = PayloadFormat.JSON
+  ): Promise<Result<T, ErrorObject>> {
+    const headerOptions = this.buildOptions(method, {
       accept: PayloadFormat.JSON,
-      contentType: PayloadFormat.JSON,
+      contentType,
       payload,
     });
     try {
-      const response = await fetch(this.pathUrl(path), options);
-      return response.json();
+      // Deletions can succeed without a response body.
+      return await this.sendRequest(
+        this.pathUrl(path),
+        headerOptions,
+        options,
+        NO_RETRY_POLICY,
+        (r) => responseToJson(r, emptyValue)
+      );
     } catch (error) {
       console.log(error);
-      return NETWORK_ERROR_RESPONSE;
+      return err(NETWORK_ERROR_RESPONSE);
     }
   }
 
+  /**
+   * Log into the data provider with an Auth0 access token. Unlike other POST requests, /login
+   * responds with the session-properties object of the signed-in user instead of a write
+   * response, so an empty response means the login failed.
+   * @param {string} accessToken Auth0 access token of the user signing in
+   * @param {RequestControlOptions} [options] Timeout, retry, and cancellation options
+   * @returns {Promise<Result<SessionPropertiesObject, ErrorObject>>} Session properties of the
+   *     signed-in user
+   */
+  public async postLogin(
+    accessToken: string,
+    options: RequestControlOptions = {}
+  ): Promise<Result<SessionPropertiesObject, ErrorObject>> {
+    this.logRequest("postLogin", "/login");
+    const response = await this.writeObject<SessionPropertiesObject | null>(
+      FetchMethod.POST,
+      "/login",
+      { accessToken },
+      options,
+      null
+    );
+    return response.and_then((sessionProperties) =>
+      sessionProperties
+        ? ok(sessionProperties)
+        : err({
+            isError: true,
+            "@type": ["InvalidResponseError", "Error"],
+            code: HttpStatusCode.BAD_GATEWAY,
+            description: "Invalid response",
+            detail:
+              "Expected the session properties from /login but got no body",
+            status: "error",
+            title: "Invalid response",
+          })
+    );
+  }
+
+  /**
+   * Send a POST request with the given object.
+   * @param {string} path Path to resource to post to
+   * @param {DataProviderObject} payload Object to post
+   * @param {RequestControlOptions} [options] Timeout, retry, and cancellation options
+   * @returns {Promise<Result<DatabaseWriteResponse, ErrorObject>>} Response from POST request
+   */
+  public async postObject(
+    path: string,
+    payload: DataProviderObject,
+    options: RequestControlOptions = {}
+  ): Promise<Result<DatabaseWriteResponse, ErrorObject>> {
+    this.logRequest("postObject", path);
+    return this.writeObject(
+      FetchMethod.POST,
+      path,
+      payload,
+      options,
+      NO_CONTENT_WRITE_RESPONSE
+    );
+  }
+
   /**
    * Write the given object with a PUT request.
    * @param {string} path Path to resource to put
    * @param {DataProviderObject} payload Object to put at the given path
-   * @returns {Promise<DataProviderObject|ErrorObject>} Response from PUT request
+   * @param {RequestControlOptions} [options] Timeout, retry, and cancellation options
+   * @returns {Promise<Result<DatabaseWriteResponse, ErrorObject>>} Response from PUT request
    */
   public async putObject(
     path: string,
-    payload: DataProviderObject
-  ): Promise<DataProviderObject | ErrorObject> {
-    const options = this.buildOptions(FetchMethod.PUT, {
-      accept: PayloadFormat.JSON,
-      contentType: PayloadFormat.JSON,
+    payload: DataProviderObject,
+    options: RequestControlOptions = {}
+  ): Promise<Result<DatabaseWriteResponse, ErrorObject>> {
+    this.logRequest("putObject", path);
+    return this.writeObject(
+      FetchMethod.PUT,
+      path,
       payload,
-    });
-    try {
-      logRequest("putObject", path);
-      const response = await fetch(this.pathUrl(path), options);
-      return response.json();
-    } catch (error) {
-      console.log(error);
-      return NETWORK_ERROR_RESPONSE;
-    }
+      options,
+      NO_CONTENT_WRITE_RESPONSE
+    );
   }
 
   /**
    * Patch the object at the given path with the given payload.
    * @param {string} path Path to resource to patch
    * @param {DataProviderObject} payload Object to merge into patched object
-   * @returns {DataProviderObject|ErrorObject} Response from PATCH request
+   * @param {RequestControlOptions} [options] Timeout, retry, and cancellation options
+   * @returns {Promise<Result<DatabaseWriteResponse, ErrorObject>>} Response from PATCH request
    */
   public async patchObject(
     path: string,
-    payload: DataProviderObject
-  ): Promise<DataProviderObject | ErrorObject> {
-    const options = this.buildOptions(FetchMethod.PATCH, {
-      accept: PayloadFormat.JSON,
-      contentType: PayloadFormat.JSON,
+    payload: DataProviderObject,
+    options: RequestControlOptions = {}
+  ): Promise<Result<DatabaseWriteResponse, ErrorObject>> {
+    this.logRequest("patchObject", path);
+    return this.writeObject(
+      FetchMethod.PATCH,
+      path,
       payload,
-    });
-    try {
-      logRequest("patchObject", path);
-      const response = await fetch(this.pathUrl(path), options);
-      return response.json();
-    } catch (error) {
-      console.log(error);
-      return NETWORK_ERROR_RESPONSE;
-    }
+      options,
+      NO_CONTENT_WRITE_RESPONSE
+    );
+  }
+
+  /**
+   * Patch the object at the given path with a list of RFC 6902 JSON Patch operations. Unlike
+   * `patchObject()`, this can remove a single property or array element from the object, or change
+   * one array element without sending the whole array.
+   * @param {string} path Path to resource to patch
+   * @param {JsonPatchOperation[]} operations Operations to apply to the object, in order
+   * @param {RequestControlOptions} [options] Timeout, retry, and cancellation options
+   * @returns {Promise<Result<DatabaseWriteResponse, ErrorObject>>} Response from PATCH request
+   */
+  public async jsonPatchObject(
+    path: string,
+    operations: JsonPatchOperation[],
+    options: RequestControlOptions = {}
+  ): Promise<Result<DatabaseWriteResponse, ErrorObject>> {
+    this.logRequest("jsonPatchObject", path);
+    return this.writeObject(
+      FetchMethod.PATCH,
+      path,
+      operations,
+      options,
+      NO_CONTENT_WRITE_RESPONSE,
+      PayloadFormat.JSON_PATCH
+    );
+  }
+
+  /**
+   * Patch the object at the given path with an RFC 7396 JSON merge-patch document. Properties with
+   * `null` values in the document get removed from the object.
+   * @param {string} path Path to resource to patch
+   * @param {JsonMergePatch} patch Merge-patch document to apply to the object
+   * @param {RequestControlOptions} [options] Timeout, retry, and cancellation options
+   * @returns {Promise<Result<DatabaseWriteResponse, ErrorObject>>} Response from PATCH request
+   */
+  public async mergePatchObject(
+    path: string,
+    patch: JsonMergePatch,
+    options: RequestControlOptions = {}
+  ): Promise<Result<DatabaseWriteResponse, ErrorObject>> {
+    this.logRequest("mergePatchObject", path);
+    return this.writeObject(
+      FetchMethod.PATCH,
+      path,
+      patch,
+      options,
+      NO_CONTENT_WRITE_RESPONSE,
+      PayloadFormat.JSON_MERGE_PATCH
+    );
+  }
+
+  /**
+   * Delete the object at the given path.
+   * @param {string} path Path to resource to delete
+   * @param {RequestControlOptions} [options] Timeout, retry, and cancellation options
+   * @returns {Promise<Result<DatabaseWriteResponse, ErrorObject>>} Response from DELETE request
+   */
+  public async deleteObject(
+    path: string,
+    options: RequestControlOptions = {}
+  ): Promise<Result<DatabaseWriteResponse, ErrorObject>> {
+    this.logRequest("deleteObject", path);
+    return this.writeObject(
+      FetchMethod.DELETE,
+      path,
+      {},
+      options,
+      NO_CONTENT_WRITE_RESPONSE
+    );
   }
 }
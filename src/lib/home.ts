@@ -3,6 +3,7 @@ import * as dateFns from "date-fns";
 import _ from "lodash";
 // lib
 import { iso8601ToYearDate } from "@/lib/dates";
+import { QueryString } from "@/lib/query-string";
 // types
 import type { DatabaseObject } from "@/globals.d";
 
@@ -206,7 +207,7 @@ type FileSetLabChartData = {
  * The start date is the first day of the given month, and the end date is the last day of the
  * given month, both in yyyy-MM-dd format. The month "All" returns an empty string.
  * @param month Month in yyyy-MM format to convert into a range query element
- * @returns Range query element `[yyyy-MM-dd%20TO%20yyyy-MM-dd]` for the given `month`
+ * @returns Range query element `[yyyy-MM-dd TO yyyy-MM-dd]` for the given `month`
  */
 export function composeMonthRangeQueryElement(month: string): string {
   if (month !== "All") {
@@ -221,7 +222,7 @@ export function composeMonthRangeQueryElement(month: string): string {
       "yyyy-MM-dd"
     );
 
-    return `[${firstDateTime}%20TO%20${lastDateTime}]`;
+    return `[${firstDateTime} TO ${lastDateTime}]`;
   }
   return "";
 }
@@ -238,30 +239,29 @@ export function composeFileSetQueryElements(
   selectedMonth: string
 ): string {
   const dateRange = composeMonthRangeQueryElement(selectedMonth);
+  const query = new QueryString();
 
-  // Determine the status, file, and month-range query elements.
-  let statusAndFileQuery = "";
-  let monthQuery = "";
+  // Determine the status and file query elements, and the timestamp the month range applies to.
+  let timestampProperty = "";
   if (fileSetType === "released") {
-    statusAndFileQuery = "&status=released&status=archived&status=revoked";
-    monthQuery = dateRange
-      ? `&advancedQuery=release_timestamp:${dateRange}`
-      : "";
+    ["released", "archived", "revoked"].forEach((status) =>
+      query.addKeyValue("status", status)
+    );
+    timestampProperty = "release_timestamp";
   } else {
-    if (fileSetType === "withFiles") {
-      statusAndFileQuery = "&status=in+progress&files=*";
-      monthQuery = dateRange
-        ? `&advancedQuery=submitted_files_timestamp:${dateRange}`
-        : "";
-    } else {
-      statusAndFileQuery = "&status=in+progress&files!=*";
-      monthQuery = dateRange
-        ? `&advancedQuery=creation_timestamp:${dateRange}`
-        : "";
-    }
+    query
+      .addKeyValue("status", "in progress")
+      .addKeyValue("files", "*", fileSetType !== "withFiles");
+    timestampProperty =
+      fileSetType === "withFiles"
+        ? "submitted_files_timestamp"
+        : "creation_timestamp";
+  }
+  if (dateRange) {
+    query.setAdvancedQuery(`${timestampProperty}:${dateRange}`);
   }
 
-  return `${statusAndFileQuery}${monthQuery}`;
+  return `&${query.format()}`;
 }
 
 /**
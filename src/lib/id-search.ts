@@ -0,0 +1,117 @@
+/**
+ * Utility functions for the ID-search page, which finds items by an identifier without the user
+ * knowing the item's type. Each kind of identifier -- accession, UUID, or alias -- gets searched in
+ * the fields that hold that kind of identifier.
+ */
+
+// lib
+import type { ErrorObject, FetchRequest } from "@/lib/fetch-request";
+import { QueryString } from "@/lib/query-string";
+import { ok, type Result } from "@/lib/result";
+import { getSearchResults } from "@/lib/search";
+// root
+import type { SearchResultsObject } from "@/globals.d";
+
+/**
+ * Kinds of identifiers that ID searches can find items by.
+ */
+export type IdentifierKind = "accession" | "uuid" | "alias";
+
+/**
+ * Maximum number of close matches to suggest when no item has an identifier.
+ */
+const MAX_CLOSE_MATCHES = 10;
+
+/**
+ * Fields holding each kind of identifier, in the order to search them. Items keep their replaced
+ * accessions in `alternate_accessions`, so old accessions still find them.
+ */
+const IDENTIFIER_FIELDS: Record<IdentifierKind, string[]> = {
+  accession: ["accession", "alternate_accessions"],
+  uuid: ["uuid"],
+  alias: ["aliases"],
+};
+
+/**
+ * Determine the kind of an identifier from its form. Accessions look like `IGVFFI0000AAAA`, or
+ * like `TSTSM02881437` in igvfd's demo and test data. UUIDs look like
+ * `860c4750-8d3c-40f5-8f2c-90c5e5d19e88`, and aliases have a lab prefix like `john-doe:sample-1`.
+ * @param {string} id Identifier the user entered
+ * @returns {IdentifierKind | null} Kind of the identifier; null if it has no recognized form
+ */
+export function identifierKind(id: string): IdentifierKind | null {
+  if (/^(IGVF[A-Z]{2}\d{4}[A-Z]{4}|TST[A-Z]{2}\d{8})$/i.test(id)) {
+    return "accession";
+  }
+  if (
+    /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(id)
+  ) {
+    return "uuid";
+  }
+  if (/^[^\s:]+:\S+$/.test(id)) {
+    return "alias";
+  }
+  return null;
+}
+
+/**
+ * Convert an identifier to the case the data provider stores it in. Users often type accessions
+ * in lower case or paste UUIDs in upper case.
+ * @param {string} id Identifier the user entered
+ * @param {IdentifierKind} kind Kind of the identifier
+ * @returns {string} Identifier as the data provider stores it
+ */
+function normalizeIdentifier(id: string, kind: IdentifierKind): string {
+  if (kind === "accession") {
+    return id.toUpperCase();
+  }
+  return kind === "uuid" ? id.toLowerCase() : id;
+}
+
+/**
+ * Find the items with the given identifier in any of the fields that hold its kind of
+ * identifier. Identifiers with no recognized form match nothing.
+ * @param {FetchRequest} request Request object to use for the searches
+ * @param {string} id Identifier the user entered
+ * @returns {Promise<Result<SearchResultsObject[], ErrorObject>>} Items with the identifier; empty
+ *     if none have it
+ */
+export async function findItemsWithIdentifier(
+  request: FetchRequest,
+  id: string
+): Promise<Result<SearchResultsObject[], ErrorObject>> {
+  const kind = identifierKind(id);
+  if (!kind) {
+    return ok([]);
+  }
+
+  const value = normalizeIdentifier(id, kind);
+  for (const field of IDENTIFIER_FIELDS[kind]) {
+    const query = new QueryString()
+      .addKeyValue("type", "Item")
+      .addKeyValue(field, value);
+    const response = await getSearchResults(request, query.format());
+    if (response.isErr() || response.unwrap().total > 0) {
+      return response.map((results) => results["@graph"]);
+    }
+  }
+  return ok([]);
+}
+
+/**
+ * Find items that mention the identifier anywhere, to suggest when no item has the identifier
+ * itself, e.g. because the user mistyped part of it.
+ * @param {FetchRequest} request Request object to use for the search
+ * @param {string} id Identifier the user entered
+ * @returns {Promise<Result<SearchResultsObject[], ErrorObject>>} Items that mention the identifier
+ */
+export async function findCloseMatches(
+  request: FetchRequest,
+  id: string
+): Promise<Result<SearchResultsObject[], ErrorObject>> {
+  const query = new QueryString()
+    .addKeyValue("query", id)
+    .setLimit(MAX_CLOSE_MATCHES);
+  const response = await getSearchResults(request, query.format());
+  return response.map((results) => results["@graph"]);
+}
@@ -0,0 +1,409 @@
+/**
+ * Utility functions for the data matrix page, which cross-tabulates the terms of two facet fields
+ * of a search, e.g. the assays of measurement sets against their sample terms, so that gaps in
+ * coverage stand out. The data provider has no cross-tabulation endpoint, but its facets count the
+ * terms of each field within a search. Searching within each row term and reading the column
+ * field's facet gives the count of each cell.
+ *
+ * The matrix page takes the same query string as /search, plus these keys that choose the axes:
+ *
+ * - `rows=` and `columns=`: Facet fields whose terms make the rows and columns
+ * - `row_group=` and `column_group=`: Facet fields that group the rows and columns; `none` for no
+ *   grouping
+ */
+
+// lib
+import { facetTermKey } from "@/lib/facets";
+import {
+  HttpStatusCode,
+  type ErrorObject,
+  type FetchRequest,
+} from "@/lib/fetch-request";
+import { QueryString } from "@/lib/query-string";
+import { combine, err, ok, type Result } from "@/lib/result";
+// root
+import type { SearchResults, SearchResultsFacet } from "@/globals.d";
+
+/**
+ * Facet fields on each axis of the matrix. Empty group fields mean the axis has no grouping.
+ * @property {string} rowField Facet field whose terms make the rows
+ * @property {string} rowGroupField Facet field that groups the rows
+ * @property {string} columnField Facet field whose terms make the columns
+ * @property {string} columnGroupField Facet field that groups the columns
+ */
+export type MatrixAxes = {
+  rowField: string;
+  rowGroupField: string;
+  columnField: string;
+  columnGroupField: string;
+};
+
+/**
+ * Facet field that users can choose for an axis.
+ * @property {string} field Facet field
+ * @property {string} title Human-readable title of the facet
+ */
+export type MatrixField = {
+  field: string;
+  title: string;
+};
+
+/**
+ * Term of a row or column with the number of items that have it.
+ */
+export type MatrixHeader = {
+  term: string;
+  count: number;
+};
+
+/**
+ * Rows or columns within one group term. Axes without grouping have a single group with an empty
+ * term.
+ */
+export type MatrixGroup = {
+  term: string;
+  headers: MatrixHeader[];
+};
+
+/**
+ * Cross-tabulated counts of a search.
+ * @property {MatrixGroup[]} rowGroups Rows of the matrix in their groups
+ * @property {MatrixGroup[]} columnGroups Columns of the matrix in their groups
+ * @property {Record<string, Record<string, number>>} counts Number of items with each row term
+ *     and column term, keyed by row term and then column term; missing for none
+ */
+export type DataMatrix = {
+  rowGroups: MatrixGroup[];
+  columnGroups: MatrixGroup[];
+  counts: Record<string, Record<string, number>>;
+};
+
+/**
+ * Query-string keys that choose the axes of the matrix. The data provider doesn't know these, so
+ * they get removed from the query of the searches.
+ */
+const ROWS_KEY = "rows";
+const ROW_GROUP_KEY = "row_group";
+const COLUMNS_KEY = "columns";
+const COLUMN_GROUP_KEY = "column_group";
+const MATRIX_KEYS = [ROWS_KEY, ROW_GROUP_KEY, COLUMNS_KEY, COLUMN_GROUP_KEY];
+
+/**
+ * Value of `row_group=` or `column_group=` that turns off grouping.
+ */
+const NO_GROUP = "none";
+
+/**
+ * Type the matrix displays if the query has no `type=`.
+ */
+const DEFAULT_MATRIX_TYPE = "MeasurementSet";
+
+/**
+ * Axes of the matrix for queries that don't choose them, as long as the search has facets for
+ * these fields.
+ */
+const DEFAULT_MATRIX_AXES: MatrixAxes = {
+  rowField: "assay_term.term_name",
+  rowGroupField: "",
+  columnField: "samples.sample_terms.term_name",
+  columnGroupField: "samples.classifications",
+};
+
+/**
+ * Get the search query for a matrix query: the query without the keys that choose the axes, and
+ * with the default type if it has none.
+ * @param {string} query Query string of the matrix page
+ * @returns {string} Query string for searches of the matrix's items
+ */
+export function matrixSearchQuery(query: string): string {
+  const queryString = new QueryString(query).setFrom(0).setLimit(null);
+  MATRIX_KEYS.forEach((key) => queryString.deleteKeyValue(key));
+  if (!queryString.hasKeyValue("type", undefined, "positive")) {
+    queryString.addKeyValue("type", DEFAULT_MATRIX_TYPE);
+  }
+  return queryString.format();
+}
+
+/**
+ * Get the facet fields users can choose for the axes of the matrix. Facets without terms have
+ * nothing to cross-tabulate, and the `type` facet mostly counts abstract types.
+ * @param {SearchResultsFacet[]} facets Facets of the search
+ * @returns {MatrixField[]} Fields users can choose for the axes
+ */
+export function matrixFields(facets: SearchResultsFacet[]): MatrixField[] {
+  return facets
+    .filter((facet) => facet.field !== "type" && facet.terms.length > 0)
+    .map((facet) => ({ field: facet.field, title: facet.title }));
+}
+
+/**
+ * Determine the axes of the matrix from its query. Axes the query doesn't choose, or chooses a
+ * field without a facet for, use the defaults. Searches without facets for the defaults use the
+ * first fields that have facets, so the matrix works for any type.
+ * @param {string} query Query string of the matrix page
+ * @param {MatrixField[]} fields Fields users can choose for the axes
+ * @returns {MatrixAxes} Axes of the matrix
+ */
+export function matrixAxes(query: string, fields: MatrixField[]): MatrixAxes {
+  const queryString = new QueryString(query);
+  const fieldIds = fields.map(({ field }) => field);
+
+  function chosenField(key: string, candidates: string[]): string {
+    const [requested] = queryString.getKeyValues(key);
+    return (
+      [requested, ...candidates].find(
+        (field) => field && fieldIds.includes(field)
+      ) || ""
+    );
+  }
+
+  function chosenGroupField(key: string, defaultField: string): string {
+    const [requested] = queryString.getKeyValues(key);
+    return requested === NO_GROUP ? "" : chosenField(key, [defaultField]);
+  }
+
+  const rowField = chosenField(ROWS_KEY, [
+    DEFAULT_MATRIX_AXES.rowField,
+    fieldIds[0],
+  ]);
+  const columnField = chosenField(COLUMNS_KEY, [
+    DEFAULT_MATRIX_AXES.columnField,
+    ...fieldIds.filter((field) => field !== rowField),
+  ]);
+  return {
+    rowField,
+    rowGroupField: chosenGroupField(
+      ROW_GROUP_KEY,
+      DEFAULT_MATRIX_AXES.rowGroupField
+    ),
+    columnField,
+    columnGroupField: chosenGroupField(
+      COLUMN_GROUP_KEY,
+      DEFAULT_MATRIX_AXES.columnGroupField
+    ),
+  };
+}
+
+/**
+ * Build the query string of the matrix page with the given axes.
+ * @param {string} query Current query string of the matrix page
+ * @param {MatrixAxes} axes Axes to choose
+ * @returns {string} Query string of the matrix with the axes
+ */
+export function queryWithMatrixAxes(query: string, axes: MatrixAxes): string {
+  return new QueryString(query)
+    .setKeyValue(ROWS_KEY, axes.rowField)
+    .setKeyValue(ROW_GROUP_KEY, axes.rowGroupField || NO_GROUP)
+    .setKeyValue(COLUMNS_KEY, axes.columnField)
+    .setKeyValue(COLUMN_GROUP_KEY, axes.columnGroupField || NO_GROUP)
+    .format();
+}
+
+/**
+ * Build the query string of the search for the items of a matrix cell, row, or column. The data
+ * provider ORs the values of a repeated field, so the term of each field replaces any terms of
+ * that field the search already selects; otherwise the search would also match the items with
+ * the selected terms.
+ * @param {string} searchQuery Search query of the matrix from `matrixSearchQuery()`
+ * @param {Array<[string, string]>} terms Facet fields and the terms to select within them
+ * @returns {string} Query string of the search
+ */
+export function matrixCellQuery(
+  searchQuery: string,
+  terms: Array<[string, string]>
+): string {
+  const queryString = new QueryString(searchQuery);
+  terms.forEach(([field, term]) =>
+    queryString
+      .deleteKeyValue(field, undefined, "positive")
+      .addKeyValue(field, term)
+  );
+  return queryString.format();
+}
+
+/**
+ * Get the terms of a facet of search results with their counts.
+ * @param {SearchResults} results Search results holding the facet
+ * @param {string} field Field of the facet
+ * @returns {MatrixHeader[]} Terms of the facet in the facet's order; empty if no such facet
+ */
+function facetHeaders(results: SearchResults, field: string): MatrixHeader[] {
+  const facet = results.facets?.find((facet) => facet.field === field);
+  return (facet?.terms || []).map((term) => ({
+    term: facetTermKey(term),
+    count: term.doc_count,
+  }));
+}
+
+/**
+ * Get the terms of an axis or its groups. A facet lists every term of its field even when the
+ * search selects some of them, so that users can select more. Axes only show the selected terms
+ * in that case, as the search has no items with the others.
+ * @param {SearchResults} results Results of the matrix search
+ * @param {string} searchQuery Search query of the matrix
+ * @param {string} field Facet field of the axis or its groups
+ * @returns {MatrixHeader[]} Terms of the axis in the facet's order
+ */
+function axisHeaders(
+  results: SearchResults,
+  searchQuery: string,
+  field: string
+): MatrixHeader[] {
+  const selectedTerms = new QueryString(searchQuery).getKeyValues(field);
+  const headers = facetHeaders(results, field);
+  return selectedTerms.length > 0
+    ? headers.filter(({ term }) => selectedTerms.includes(term))
+    : headers;
+}
+
+/**
+ * Search within each term of a field, and get the terms of another facet within each. Searches
+ * that match nothing, which the data provider reports as 404, have no terms.
+ * @param {FetchRequest} request Request object to use for the searches
+ * @param {string} searchQuery Search query of the matrix
+ * @param {string} field Field whose terms to search within
+ * @param {string[]} terms Terms of `field` to search within
+ * @param {string} facetField Field of the facet to get the terms of within each search
+ * @returns {Promise<Result<MatrixHeader[][], ErrorObject>>} Facet terms within each term of
+ *     `field`, in the order of `terms`
+ */
+async function facetHeadersWithin(
+  request: FetchRequest,
+  searchQuery: string,
+  field: string,
+  terms: string[],
+  facetField: string
+): Promise<Result<MatrixHeader[][], ErrorObject>> {
+  const responses = await request.getMultipleObjects(
+    terms.map((term) => {
+      const query = new QueryString(
+        matrixCellQuery(searchQuery, [[field, term]])
+      );
+      return `/search/?${query.setLimit(1).format()}`;
+    })
+  );
+  return combine(
+    responses.map((response) => {
+      if (
+        response.isErr() &&
+        response.unwrap_err().code === HttpStatusCode.NOT_FOUND
+      ) {
+        return ok<MatrixHeader[], ErrorObject>([]);
+      }
+      return response.map((results) =>
+        facetHeaders(results as unknown as SearchResults, facetField)
+      );
+    })
+  );
+}
+
+/**
+ * Group the rows or columns of one axis. Each group holds the terms of the axis that items with
+ * the group term have, so a term that items with several group terms have appears in each of
+ * those groups. Terms that no group holds go in a final group with an empty term.
+ * @param {FetchRequest} request Request object to use for the searches
+ * @param {string} searchQuery Search query of the matrix
+ * @param {SearchResults} results Results of the matrix search
+ * @param {string} field Facet field of the axis
+ * @param {string} groupField Facet field that groups the axis; empty for no grouping
+ * @returns {Promise<Result<MatrixGroup[], ErrorObject>>} Groups of the axis
+ */
+async function groupAxis(
+  request: FetchRequest,
+  searchQuery: string,
+  results: SearchResults,
+  field: string,
+  groupField: string
+): Promise<Result<MatrixGroup[], ErrorObject>> {
+  const headers = axisHeaders(results, searchQuery, field);
+  if (!groupField) {
+    return ok(headers.length > 0 ? [{ term: "", headers }] : []);
+  }
+
+  const groupTerms = axisHeaders(results, searchQuery, groupField).map(
+    ({ term }) => term
+  );
+  const response = await facetHeadersWithin(
+    request,
+    searchQuery,
+    groupField,
+    groupTerms,
+    field
+  );
+  return response.map((headersWithin) => {
+    const groups = groupTerms.map((term, index) => {
+      const termsInGroup = headersWithin[index].map(({ term }) => term);
+      return {
+        term,
+        headers: headers.filter(({ term }) => termsInGroup.includes(term)),
+      };
+    });
+    const ungrouped = headers.filter(
+      ({ term }) =>
+        !groups.some((group) =>
+          group.headers.some((header) => header.term === term)
+        )
+    );
+    return [
+      ...groups.filter((group) => group.headers.length > 0),
+      ...(ungrouped.length > 0 ? [{ term: "", headers: ungrouped }] : []),
+    ];
+  });
+}
+
+/**
+ * Cross-tabulate the items of a search by the terms of the rows and columns of the matrix. The
+ * search results supply the terms of each axis, a search within each row term counts the items
+ * with each column term, and a search within each group term finds the terms in each group.
+ * @param {FetchRequest} request Request object to use for the searches
+ * @param {string} searchQuery Search query of the matrix from `matrixSearchQuery()`
+ * @param {SearchResults} results Results of the matrix search, including its facets
+ * @param {MatrixAxes} axes Axes of the matrix
+ * @returns {Promise<Result<DataMatrix, ErrorObject>>} Counts of the matrix
+ */
+export async function getDataMatrix(
+  request: FetchRequest,
+  searchQuery: string,
+  results: SearchResults,
+  axes: MatrixAxes
+): Promise<Result<DataMatrix, ErrorObject>> {
+  if (!axes.rowField || !axes.columnField) {
+    return ok({ rowGroups: [], columnGroups: [], counts: {} });
+  }
+
+  const rowTerms = axisHeaders(results, searchQuery, axes.rowField).map(
+    ({ term }) => term
+  );
+  const [cellHeaders, rowGroups, columnGroups] = await Promise.all([
+    facetHeadersWithin(
+      request,
+      searchQuery,
+      axes.rowField,
+      rowTerms,
+      axes.columnField
+    ),
+    groupAxis(request, searchQuery, results, axes.rowField, axes.rowGroupField),
+    groupAxis(
+      request,
+      searchQuery,
+      results,
+      axes.columnField,
+      axes.columnGroupField
+    ),
+  ]);
+  if (cellHeaders.isErr()) {
+    return err(cellHeaders.unwrap_err());
+  }
+
+  const counts = Object.fromEntries(
+    rowTerms.map((rowTerm, index) => [
+      rowTerm,
+      Object.fromEntries(
+        cellHeaders.unwrap()[index].map(({ term, count }) => [term, count])
+      ),
+    ])
+  );
+  return combine([rowGroups, columnGroups] as const).map(
+    ([rowGroups, columnGroups]) => ({ rowGroups, columnGroups, counts })
+  );
+}
@@ -0,0 +1,228 @@
+/**
+ * An `Option<T>` holds either a value (`Some`) or nothing (`None`). It's the companion to
+ * `Result<T, E>` for values that can be missing without that counting as an error, and replaces
+ * getting `T | null` from `Result.optional` and then checking it for null.
+ *
+ * ```
+ * const lab = fromResult(await request.getObject(labPath))
+ *   .map((lab) => lab.title)
+ *   .unwrap_or("Unknown lab");
+ * ```
+ */
+
+// lib
+import { err, ok, type Result } from "@/lib/result";
+
+/**
+ * Handlers for each variant of an `Option`, passed to `match`.
+ */
+export type OptionMatcher<T, U> = {
+  some: (x: T) => U;
+  none: () => U;
+};
+
+/**
+ * Wrap a value in a `Some`.
+ * @param value The value to wrap
+ * @returns A `Some` wrapping the value
+ */
+export function some<T>(value: T): Option<T> {
+  return new Some(value);
+}
+
+/**
+ * Get a `None`.
+ * @returns A `None` for any `T`
+ */
+export function none<T>(): Option<T> {
+  return new None<T>();
+}
+
+/**
+ * Convert a value that might be null or undefined into an `Option`.
+ * @param value The value to convert
+ * @returns `None` if the value is null or undefined, otherwise `Some` wrapping the value
+ */
+export function fromNullable<T>(value: T | null | undefined): Option<T> {
+  return value === null || value === undefined ? none() : some(value);
+}
+
+/**
+ * Convert a `Result` into an `Option`, throwing away any error.
+ * @param result The result to convert
+ * @returns `Some` wrapping the underlying `T` if the result is `Ok`; `None` if it's an `Err`
+ */
+export function fromResult<T, E>(result: Result<T, E>): Option<T> {
+  return result.isOk() ? some(result.unwrap()) : none();
+}
+
+/**
+ * The Some variant of the `Option` interface.
+ */
+export class Some<T> implements Option<T> {
+  wrapped: T;
+
+  constructor(data: T) {
+    this.wrapped = data;
+  }
+
+  isSome(): boolean {
+    return true;
+  }
+
+  isNone(): boolean {
+    return false;
+  }
+
+  map<U>(f: (x: T) => U): Option<U> {
+    return some(f(this.wrapped));
+  }
+
+  and_then<U>(f: (x: T) => Option<U>): Option<U> {
+    return f(this.wrapped);
+  }
+
+  filter(predicate: (x: T) => boolean): Option<T> {
+    return predicate(this.wrapped) ? this : none();
+  }
+
+  match<U>(matcher: OptionMatcher<T, U>): U {
+    return matcher.some(this.wrapped);
+  }
+
+  ok_or<E>(_error: E): Result<T, E> {
+    return ok(this.wrapped);
+  }
+
+  unwrap(): T {
+    return this.wrapped;
+  }
+
+  unwrap_or(_x: T): T {
+    return this.wrapped;
+  }
+
+  optional(): T | null {
+    return this.wrapped;
+  }
+}
+
+/**
+ * The None variant of the `Option` interface.
+ */
+export class None<T> implements Option<T> {
+  isSome(): boolean {
+    return false;
+  }
+
+  isNone(): boolean {
+    return true;
+  }
+
+  map<U>(_f: (x: T) => U): Option<U> {
+    return none();
+  }
+
+  and_then<U>(_f: (x: T) => Option<U>): Option<U> {
+    return none();
+  }
+
+  filter(_predicate: (x: T) => boolean): Option<T> {
+    return this;
+  }
+
+  match<U>(matcher: OptionMatcher<T, U>): U {
+    return matcher.none();
+  }
+
+  ok_or<E>(error: E): Result<T, E> {
+    return err(error);
+  }
+
+  unwrap(): T {
+    throw new Error("Cannot unwrap a None");
+  }
+
+  unwrap_or(x: T): T {
+    return x;
+  }
+
+  optional(): T | null {
+    return null;
+  }
+}
+
+/**
+ * Represents a value that might be missing. Like `Result`, use `map` and `and_then` to work with
+ * the underlying value without checking for it first, and `match`, `unwrap_or`, or `ok_or` to get
+ * it out at the end.
+ */
+export interface Option<T> {
+  /**
+   * Check if this option holds a value.
+   * @returns true if this is a `Some`
+   */
+  isSome(): boolean;
+
+  /**
+   * Check if this option holds nothing.
+   * @returns true if this is a `None`
+   */
+  isNone(): boolean;
+
+  /**
+   * Transform the underlying `T` into a `U` if this option is `Some`. A `None` stays `None`.
+   * @param f function to transform the value
+   * @returns `Some` wrapping the transformed value, or `None`
+   */
+  map<U>(f: (x: T) => U): Option<U>;
+
+  /**
+   * Like `map` except `f` returns an `Option`, so that it can return `None`.
+   * @param f function from the value to a new option
+   * @returns The option `f` returns, or `None`
+   */
+  and_then<U>(f: (x: T) => Option<U>): Option<U>;
+
+  /**
+   * Keep the underlying `T` only if it passes the given test.
+   * @param predicate function to test the value
+   * @returns This option if it's `Some` and the value passes; otherwise `None`
+   */
+  filter(predicate: (x: T) => boolean): Option<T>;
+
+  /**
+   * Handle both variants at once, calling `matcher.some` with the underlying `T` if this option
+   * is `Some`, or `matcher.none` if this option is `None`.
+   * @param matcher Handlers for the `Some` and `None` variants
+   * @returns Whatever the called handler returns
+   */
+  match<U>(matcher: OptionMatcher<T, U>): U;
+
+  /**
+   * Convert this option into a `Result`, using the given error if this option is `None`.
+   * @param error Error to use for `None`
+   * @returns `Ok` wrapping the underlying `T`, or `Err` wrapping `error`
+   */
+  ok_or<E>(error: E): Result<T, E>;
+
+  /**
+   * Get the underlying `T`. Throws if this option is `None`, so check `isSome` first.
+   * @returns The underlying `T`
+   */
+  unwrap(): T;
+
+  /**
+   * Get the underlying `T`, or the given default if this option is `None`.
+   * @param x Default value
+   * @returns The underlying `T`, or `x`
+   */
+  unwrap_or(x: T): T;
+
+  /**
+   * Get the underlying `T`, or null if this option is `None`, for code that expects nullable
+   * values.
+   * @returns The underlying `T`, or null
+   */
+  optional(): T | null;
+}
@@ -19,7 +19,8 @@ export const SEARCH_MODE_PROPERTIES = "SEARCH_MODE_PROPERTIES";
 
 /**
  * Loads the schemas for all object types, with each key of the object being the @type for each
- * schema.
+ * schema. The schemas don't depend on the user, so they can come from the shared NextJS fetch
+ * cache.
  * @param dataProviderUrl URL of the data provider instance
  * @returns Promise that resolves to the /profiles object
  */
@@ -28,7 +29,9 @@ export async function getProfiles(
 ): Promise<DataProviderObject | null> {
   const request = new FetchRequest();
   return (
-    await request.getObjectByUrl(`${dataProviderUrl}/profiles`)
+    await request.getObjectByUrl(`${dataProviderUrl}/profiles`, {
+      noCache: false,
+    })
   ).optional();
 }
 
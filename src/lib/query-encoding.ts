@@ -1,7 +1,7 @@
 /**
  * Just like encodeURIComponent, but does igvfd-specific character replacement to avoid 301
- * redirects. Only use this for the value on the right side of the query-string key-value equals
- * sign.
+ * redirects. Only use this for the keys and values of query-string elements, not for whole query
+ * strings.
  * http://stackoverflow.com/questions/8143085/passing-and-through-a-uri-causes-a-403-error-how-can-i-encode-them#answer-8143232
  * @param {string} value Query-string value that needs encoding
  * @return {string} URL-encoded query-string value.
@@ -0,0 +1,370 @@
+/**
+ * Model of igvfd search query strings. igvfd queries differ from generic URL query strings in a
+ * few ways: a key can appear many times to select many values, a `!` at the end of a key negates
+ * its value (`status!=deleted`), and values use `encodeUriElement` encoding so that igvfd doesn't
+ * redirect the request. Parse a query string into a `QueryString`, change its terms, and format it
+ * back into a query string:
+ *
+ * const query = new QueryString("type=File&status!=deleted");
+ * query.addKeyValue("lab.title", "J. Michael Cherry, Stanford").setFrom(0);
+ * const url = `/search/?${query.format()}`;
+ *
+ * Keys keep their order, and values of the same key keep their order, so formatting a parsed query
+ * string produces the same query string apart from encoding differences.
+ */
+
+// lib
+import { decodeUriElement, encodeUriElement } from "@/lib/query-encoding";
+
+/**
+ * Single `field=term` or `field!=term` query-string parameter. `field` holds the key of the
+ * parameter, which can be a key like `sort` or `limit` as well as a property to filter on.
+ */
+export type QueryParameter = {
+  field: string;
+  term: string;
+  isNegative: boolean;
+};
+
+/**
+ * Selects parameters by their polarity: `positive` for `key=value`, `negative` for `key!=value`,
+ * and `any` for both.
+ */
+export type QueryPolarity = "positive" | "negative" | "any";
+
+/**
+ * Property and direction to sort search results by.
+ * @property {string} field Property to sort by
+ * @property {string} direction Direction to sort the property in
+ */
+export type QuerySort = {
+  field: string;
+  direction: "asc" | "desc";
+};
+
+/**
+ * Keys with meaning to igvfd beyond filtering on a property.
+ */
+const ADVANCED_QUERY_KEY = "advancedQuery";
+const FIELD_KEY = "field";
+const FROM_KEY = "from";
+const LIMIT_KEY = "limit";
+const SORT_KEY = "sort";
+
+/**
+ * Determine whether a parameter has the given polarity.
+ * @param {QueryParameter} parameter Parameter to check
+ * @param {QueryPolarity} polarity Polarity to check for
+ * @returns {boolean} True if the parameter has the polarity
+ */
+function hasPolarity(
+  parameter: QueryParameter,
+  polarity: QueryPolarity
+): boolean {
+  return (
+    polarity === "any" || parameter.isNegative === (polarity === "negative")
+  );
+}
+
+/**
+ * Decode a key or value of a query string. Query strings from user-supplied URLs can hold
+ * malformed percent encoding, like a lone `%`, that can't get decoded; these stay as they are so
+ * that parsing the query string never fails.
+ * @param {string} element Encoded key or value
+ * @returns {string} Decoded key or value; `element` itself if it can't get decoded
+ */
+function decodeElement(element: string): string {
+  try {
+    return decodeUriElement(element);
+  } catch (error) {
+    if (error instanceof URIError) {
+      return element;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Encode a key of a query string with `encodeUriElement`, but keep `@` as is so that keys like
+ * `@id` stay readable; query strings allow `@` without encoding.
+ * @param {string} key Key to encode
+ * @returns {string} Encoded key
+ */
+function encodeKey(key: string): string {
+  return encodeUriElement(key).replace(/%40/g, "@");
+}
+
+/**
+ * Parsed igvfd query string that can change its parameters and format them back into a query
+ * string. Methods that change the query string return it, so that changes can chain.
+ */
+export class QueryString {
+  private parameters: QueryParameter[] = [];
+
+  /**
+   * Build a query string from its parameters.
+   * @param {QueryParameter[]} parameters Parameters of the query string in order
+   * @returns {QueryString} Query string with the given parameters
+   */
+  static fromParameters(parameters: QueryParameter[]): QueryString {
+    const query = new QueryString();
+    query.parameters = parameters.map((parameter) => ({ ...parameter }));
+    return query;
+  }
+
+  /**
+   * Parse a query string. The query string can use either `encodeUriElement` or URLSearchParams
+   * encoding, and can have a leading question mark. Keys and values with malformed encoding stay
+   * as they appear in the query string.
+   * @param {string} query Query string to parse
+   */
+  constructor(query = "") {
+    this.parameters = query
+      .replace(/^\?/, "")
+      .split("&")
+      .filter(Boolean)
+      .map((element) => {
+        const [encodedKey, ...encodedTerm] = element.split("=");
+        const key = decodeElement(encodedKey);
+        const isNegative = key.endsWith("!");
+        return {
+          field: isNegative ? key.slice(0, -1) : key,
+          term: decodeElement(encodedTerm.join("=")),
+          isNegative,
+        };
+      });
+  }
+
+  /**
+   * Get a copy of the parameters of the query string in order.
+   * @returns {QueryParameter[]} Parameters of the query string
+   */
+  getParameters(): QueryParameter[] {
+    return this.parameters.map((parameter) => ({ ...parameter }));
+  }
+
+  /**
+   * Get all the values of a key in order.
+   * @param {string} key Key to get the values of
+   * @param {QueryPolarity} polarity Polarity of the values to get
+   * @returns {string[]} Values of the key; empty if the query string doesn't have the key
+   */
+  getKeyValues(key: string, polarity: QueryPolarity = "positive"): string[] {
+    return this.parameters
+      .filter(
+        (parameter) =>
+          parameter.field === key && hasPolarity(parameter, polarity)
+      )
+      .map(({ term }) => term);
+  }
+
+  /**
+   * Determine whether the query string has a key, optionally with a specific value.
+   * @param {string} key Key to look for
+   * @param {string} [value] Value of the key to look for; any value if not given
+   * @param {QueryPolarity} polarity Polarity of the parameter to look for
+   * @returns {boolean} True if the query string has the key and value
+   */
+  hasKeyValue(
+    key: string,
+    value?: string,
+    polarity: QueryPolarity = "any"
+  ): boolean {
+    return this.parameters.some(
+      (parameter) =>
+        parameter.field === key &&
+        (value === undefined || parameter.term === value) &&
+        hasPolarity(parameter, polarity)
+    );
+  }
+
+  /**
+   * Add a value to a key, after any existing values of the key. Adding a parameter the query
+   * string already has does nothing.
+   * @param {string} key Key to add the value to
+   * @param {string} value Value to add
+   * @param {boolean} isNegative True to add `key!=value`; false to add `key=value`
+   * @returns {QueryString} This query string, for chaining
+   */
+  addKeyValue(key: string, value: string, isNegative = false): QueryString {
+    const polarity = isNegative ? "negative" : "positive";
+    if (!this.hasKeyValue(key, value, polarity)) {
+      this.parameters.push({ field: key, term: value, isNegative });
+    }
+    return this;
+  }
+
+  /**
+   * Replace all values of a key with a single value.
+   * @param {string} key Key to set the value of
+   * @param {string} value Value to set; empty to remove the key
+   * @param {boolean} isNegative True to set `key!=value`; false to set `key=value`
+   * @returns {QueryString} This query string, for chaining
+   */
+  setKeyValue(key: string, value: string, isNegative = false): QueryString {
+    this.deleteKeyValue(key);
+    return value ? this.addKeyValue(key, value, isNegative) : this;
+  }
+
+  /**
+   * Remove the values of a key, or a single value of a key.
+   * @param {string} key Key to remove values from
+   * @param {string} [value] Value to remove; all values if not given
+   * @param {QueryPolarity} polarity Polarity of the parameters to remove
+   * @returns {QueryString} This query string, for chaining
+   */
+  deleteKeyValue(
+    key: string,
+    value?: string,
+    polarity: QueryPolarity = "any"
+  ): QueryString {
+    this.parameters = this.parameters.filter(
+      (parameter) =>
+        parameter.field !== key ||
+        (value !== undefined && parameter.term !== value) ||
+        !hasPolarity(parameter, polarity)
+    );
+    return this;
+  }
+
+  /**
+   * Switch the polarity of a value of a key, so `key=value` becomes `key!=value` and the reverse.
+   * The parameter keeps its position in the query string.
+   * @param {string} key Key of the value to negate
+   * @param {string} value Value to negate
+   * @returns {QueryString} This query string, for chaining
+   */
+  negateKeyValue(key: string, value: string): QueryString {
+    this.parameters = this.parameters.map((parameter) =>
+      parameter.field === key && parameter.term === value
+        ? { ...parameter, isNegative: !parameter.isNegative }
+        : parameter
+    );
+    return this;
+  }
+
+  /**
+   * Get the properties the query string selects with its `field=` parameters. Reports show these
+   * as columns, and searches return only these properties of each item.
+   * @returns {string[]} Selected properties; empty if the query string selects none
+   */
+  getFields(): string[] {
+    return this.getKeyValues(FIELD_KEY);
+  }
+
+  /**
+   * Replace the properties the query string selects with `field=` parameters.
+   * @param {string[]} fields Properties to select; empty to remove all `field=` parameters
+   * @returns {QueryString} This query string, for chaining
+   */
+  setFields(fields: string[]): QueryString {
+    this.deleteKeyValue(FIELD_KEY);
+    fields.forEach((field) => this.addKeyValue(FIELD_KEY, field));
+    return this;
+  }
+
+  /**
+   * Get the advanced query of the query string.
+   * @returns {string} Value of the `advancedQuery` parameter; empty if the query has none
+   */
+  getAdvancedQuery(): string {
+    return this.getKeyValues(ADVANCED_QUERY_KEY)[0] || "";
+  }
+
+  /**
+   * Replace the advanced query of the query string.
+   * @param {string} advancedQuery New advanced query; empty to remove it
+   * @returns {QueryString} This query string, for chaining
+   */
+  setAdvancedQuery(advancedQuery: string): QueryString {
+    return this.setKeyValue(ADVANCED_QUERY_KEY, advancedQuery);
+  }
+
+  /**
+   * Get the sorting of the query string. `sort=property` sorts ascending and `sort=-property`
+   * sorts descending. igvfd can sort by several properties, but only the first determines the
+   * order users see.
+   * @returns {QuerySort | null} Primary sorting of the query string; null if it has none
+   */
+  getSort(): QuerySort | null {
+    const [sort] = this.getKeyValues(SORT_KEY);
+    if (!sort) {
+      return null;
+    }
+    return sort.startsWith("-")
+      ? { field: sort.slice(1), direction: "desc" }
+      : { field: sort, direction: "asc" };
+  }
+
+  /**
+   * Replace the sorting of the query string.
+   * @param {QuerySort | null} sort Property and direction to sort by; null to remove sorting
+   * @returns {QueryString} This query string, for chaining
+   */
+  setSort(sort: QuerySort | null): QueryString {
+    return this.setKeyValue(
+      SORT_KEY,
+      sort ? `${sort.direction === "desc" ? "-" : ""}${sort.field}` : ""
+    );
+  }
+
+  /**
+   * Get the index of the first search result the query string requests.
+   * @returns {number} Index of the first result; 0 if the query string doesn't page
+   */
+  getFrom(): number {
+    return Number(this.getKeyValues(FROM_KEY)[0]) || 0;
+  }
+
+  /**
+   * Replace the index of the first search result the query string requests.
+   * @param {number} from Index of the first result; 0 removes paging from the query string
+   * @returns {QueryString} This query string, for chaining
+   */
+  setFrom(from: number): QueryString {
+    return this.setKeyValue(FROM_KEY, from > 0 ? String(from) : "");
+  }
+
+  /**
+   * Get the maximum number of search results the query string requests.
+   * @returns {number | null} Maximum number of results; null if igvfd decides
+   */
+  getLimit(): number | null {
+    const limit = Number(this.getKeyValues(LIMIT_KEY)[0]);
+    return limit > 0 ? limit : null;
+  }
+
+  /**
+   * Replace the maximum number of search results the query string requests.
+   * @param {number | null} limit Maximum number of results; null to let igvfd decide
+   * @returns {QueryString} This query string, for chaining
+   */
+  setLimit(limit: number | null): QueryString {
+    return this.setKeyValue(LIMIT_KEY, limit ? String(limit) : "");
+  }
+
+  /**
+   * Copy the query string, so that changing the copy leaves this one unchanged.
+   * @returns {QueryString} Copy of this query string
+   */
+  clone(): QueryString {
+    return QueryString.fromParameters(this.parameters);
+  }
+
+  /**
+   * Format the query string for a URL, encoding each key and value with `encodeUriElement`.
+   * @returns {string} Query string without the leading question mark
+   */
+  format(): string {
+    return this.parameters
+      .map(
+        ({ field, term, isNegative }) =>
+          `${encodeKey(field)}${isNegative ? "!" : ""}=${encodeUriElement(term)}`
+      )
+      .join("&");
+  }
+
+  toString(): string {
+    return this.format();
+  }
+}
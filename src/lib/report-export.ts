@@ -0,0 +1,138 @@
+/**
+ * Utility functions for exporting reports as tab- or comma-separated text that spreadsheets can
+ * open. `/api/report-export` uses these to convert every item matching a report query into one
+ * row of text per item.
+ */
+
+// lib
+import { QueryString } from "@/lib/query-string";
+
+/**
+ * Text formats reports can export to.
+ */
+export type ExportFormat = "tsv" | "csv";
+
+/**
+ * Format exports use when the query doesn't specify a supported one.
+ */
+const DEFAULT_EXPORT_FORMAT: ExportFormat = "tsv";
+
+/**
+ * Query-string parameters that control the report view or the export itself, and that the search
+ * for the exported items must not include.
+ */
+const EXPORT_CONTROL_PARAMETERS = ["format", "from", "limit"];
+
+/**
+ * MIME types of each export format.
+ */
+const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  tsv: "text/tab-separated-values; charset=utf-8",
+  csv: "text/csv; charset=utf-8",
+};
+
+/**
+ * Get the export format the `format=` query-string parameter requests.
+ * @param {string | null} format Value of the `format=` parameter, if any
+ * @returns {ExportFormat} Requested format, or the default if unsupported or missing
+ */
+export function exportFormat(format: string | null): ExportFormat {
+  return format === "csv" || format === "tsv" ? format : DEFAULT_EXPORT_FORMAT;
+}
+
+/**
+ * Start of the last line of exports that failed partway through.
+ */
+const EXPORT_INCOMPLETE_MARKER = "EXPORT INCOMPLETE";
+
+/**
+ * Path of the route that exports reports.
+ */
+const REPORT_EXPORT_PATH = "/api/report-export/";
+
+/**
+ * Get the MIME type of an export format for the response's `Content-Type` header.
+ * @param {ExportFormat} format Format of the export
+ * @returns {string} MIME type of the format
+ */
+export function exportContentType(format: ExportFormat): string {
+  return EXPORT_CONTENT_TYPES[format];
+}
+
+/**
+ * Remove the paging and export-format parameters from a report query, leaving the query that
+ * selects every item and column to export.
+ * @param {string} query Query string of the report
+ * @returns {string} Query string for the export
+ */
+export function exportQuery(query: string): string {
+  const queryString = new QueryString(query);
+  EXPORT_CONTROL_PARAMETERS.forEach((key) => queryString.deleteKeyValue(key));
+  return queryString.format();
+}
+
+/**
+ * Build the URL that exports every item of a report in the given format, with the report's
+ * filters, sorting, and columns.
+ * @param {string} query Query string of the report
+ * @param {ExportFormat} format Format of the export
+ * @returns {string} URL of the export
+ */
+export function exportUrl(query: string, format: ExportFormat): string {
+  const queryString = new QueryString(exportQuery(query));
+  return `${REPORT_EXPORT_PATH}?${queryString.setKeyValue("format", format).format()}`;
+}
+
+/**
+ * Convert a single value to a field of the export. CSV fields containing commas, quotes, or line
+ * breaks get quoted with their quotes doubled. TSV has no quoting, so tabs and line breaks in TSV
+ * fields become spaces.
+ * @param {string} value Value to convert
+ * @param {ExportFormat} format Format of the export
+ * @returns {string} Value as a field of the export
+ */
+function exportField(value: string, format: ExportFormat): string {
+  if (format === "tsv") {
+    return value.replace(/[\t\r\n]+/g, " ");
+  }
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Convert the values of one row to a line of the export, including its line ending.
+ * @param {string[]} values Values of the row in column order
+ * @param {ExportFormat} format Format of the export
+ * @returns {string} Line of the export
+ */
+export function exportRow(values: string[], format: ExportFormat): string {
+  const separator = format === "tsv" ? "\t" : ",";
+  return `${values.map((value) => exportField(value, format)).join(separator)}\n`;
+}
+
+/**
+ * Build the last line of an export that failed partway through. The export has already started
+ * streaming with a successful status by then, so this marker in the text itself is the only way to
+ * keep users from taking the truncated export as complete.
+ * @param {string} detail Why the export failed
+ * @param {ExportFormat} format Format of the export
+ * @returns {string} Line of the export marking it as incomplete
+ */
+export function exportErrorRow(detail: string, format: ExportFormat): string {
+  return exportRow([`${EXPORT_INCOMPLETE_MARKER}: ${detail}`], format);
+}
+
+/**
+ * Build the name of the file the browser saves an export as. The name goes in a quoted
+ * `Content-Disposition` header, so only letters, digits, and hyphens from the user-supplied types
+ * make it in.
+ * @param {string[]} types Types the report query selects
+ * @param {ExportFormat} format Format of the export
+ * @returns {string} File name of the export
+ */
+export function exportFilename(types: string[], format: ExportFormat): string {
+  const typeNames = types
+    .map((type) => type.replace(/[^A-Za-z0-9-]/g, ""))
+    .filter(Boolean)
+    .join("-");
+  return `${typeNames || "search"}-report.${format}`;
+}
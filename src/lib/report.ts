@@ -0,0 +1,287 @@
+/**
+ * Utility functions for report pages, which display search results as a table with one column per
+ * property. The `field=` query-string parameters choose the columns, so copying the URL of a
+ * report shares its columns too. Reports without `field=` parameters show the default columns
+ * that the schema of the reported type defines.
+ */
+
+// lib
+import { QueryString } from "@/lib/query-string";
+// root
+import type {
+  Profiles,
+  ProfilesGeneric,
+  ProfilesProps,
+  Schema,
+  SearchResultsColumns,
+  SearchResultsObject,
+  SearchResultsSort,
+} from "@/globals.d";
+
+/**
+ * Maximum number of columns a report can show. More columns than this make the `field=` query
+ * string too long for some servers.
+ */
+export const MAX_VISIBLE_COLUMNS = 120;
+
+/**
+ * ID of the column holding the `@id` of each item. All reports show this column so that each row
+ * links to its item.
+ */
+export const ID_COLUMN = "@id";
+
+/**
+ * A column that a report can show.
+ * @property {string} id Property the column displays, with dots for embedded properties
+ * @property {string} title Title of the column for its header and the column selector
+ */
+export type ReportColumn = {
+  id: string;
+  title: string;
+};
+
+/**
+ * Get the schemas of the types a report displays. Abstract types, like `Biosample` or `Item`, don't
+ * have schemas of their own, so use the schemas of their concrete subtypes.
+ * @param {string[]} types `@type`s the report displays
+ * @param {Profiles} profiles Schemas of all types from /profiles
+ * @returns {Schema[]} Schemas of the concrete types the report displays
+ */
+export function reportSchemas(types: string[], profiles: Profiles): Schema[] {
+  const schemas = profiles as ProfilesGeneric;
+  const allConcreteTypes = Object.keys(profiles).filter(
+    (key) => !key.startsWith("_") && !key.startsWith("@")
+  );
+  const concreteTypes = types.flatMap((type) => {
+    if (schemas[type]) {
+      return [type];
+    }
+    const subtypes = (profiles as ProfilesProps)._subtypes?.[type];
+    return subtypes || (type === "Item" ? allConcreteTypes : []);
+  });
+  return [...new Set(concreteTypes)]
+    .map((type) => schemas[type])
+    .filter(Boolean);
+}
+
+/**
+ * Get all the columns a report of the given types can show, in schema order, with the `@id`
+ * column first.
+ * @param {string[]} types `@type`s the report displays
+ * @param {Profiles | null} profiles Schemas of all types from /profiles
+ * @returns {ReportColumn[]} All columns the report can show
+ */
+export function reportableColumns(
+  types: string[],
+  profiles: Profiles | null
+): ReportColumn[] {
+  const columns = new Map<string, string>([[ID_COLUMN, "ID"]]);
+  if (profiles) {
+    reportSchemas(types, profiles).forEach((schema) => {
+      Object.entries(schema.properties).forEach(([id, property]) => {
+        if (!columns.has(id)) {
+          columns.set(id, property.title || id);
+        }
+      });
+    });
+  }
+  return [...columns.entries()].map(([id, title]) => ({ id, title }));
+}
+
+/**
+ * Get the IDs of the columns a report shows without `field=` parameters. These come from the
+ * `columns` of the reported type's schema if it has them. Otherwise they come from the `columns`
+ * of the search results, which only describe the defaults when the query has no `field=`.
+ * @param {string[]} types `@type`s the report displays
+ * @param {Profiles | null} profiles Schemas of all types from /profiles
+ * @param {SearchResultsColumns} resultColumns `columns` from the search results
+ * @returns {string[]} IDs of the default columns, with the `@id` column first
+ */
+export function defaultColumnIds(
+  types: string[],
+  profiles: Profiles | null,
+  resultColumns: SearchResultsColumns
+): string[] {
+  const schemaColumns =
+    profiles && types.length === 1
+      ? reportSchemas(types, profiles)[0]?.columns
+      : undefined;
+  const ids = Object.keys(schemaColumns || resultColumns);
+  return [ID_COLUMN, ...ids.filter((id) => id !== ID_COLUMN)];
+}
+
+/**
+ * Get the IDs of the columns the query selects with its `field=` parameters.
+ * @param {string} query Query string of the report
+ * @returns {string[]} IDs of the selected columns; empty if the query selects none
+ */
+export function columnIdsFromQuery(query: string): string[] {
+  return new QueryString(query).getFields();
+}
+
+/**
+ * Columns of a report for a query.
+ * @property {string[]} defaultIds IDs of the columns the report shows by default
+ * @property {ReportColumn[]} visibleColumns Columns the report shows, in display order
+ * @property {ReportColumn[]} availableColumns All columns users can choose from
+ */
+export type ReportColumnSets = {
+  defaultIds: string[];
+  visibleColumns: ReportColumn[];
+  availableColumns: ReportColumn[];
+};
+
+/**
+ * Determine the columns of a report. The report shows the columns the query selects with its
+ * `field=` parameters, or the default columns if it has none. A query with only `field=@id`
+ * selects just the `@id` column, as when the user hides all the columns. Columns from the search results,
+ * like embedded properties, might not appear in the schemas, so they get added to the columns
+ * users can choose from.
+ * @param {string} query Query string of the report
+ * @param {string[]} types `@type`s the report displays
+ * @param {Profiles | null} profiles Schemas of all types from /profiles
+ * @param {SearchResultsColumns} resultColumns `columns` property of the search results
+ * @returns {ReportColumnSets} Default, visible, and available columns of the report
+ */
+export function getReportColumns(
+  query: string,
+  types: string[],
+  profiles: Profiles | null,
+  resultColumns: SearchResultsColumns
+): ReportColumnSets {
+  const defaultIds = defaultColumnIds(types, profiles, resultColumns);
+  const queryIds = columnIdsFromQuery(query);
+  const visibleIds =
+    queryIds.length > 0
+      ? [ID_COLUMN, ...queryIds.filter((id) => id !== ID_COLUMN)]
+      : defaultIds;
+
+  const schemaColumns = reportableColumns(types, profiles);
+  function columnTitle(id: string): string {
+    return (
+      resultColumns[id]?.title ||
+      schemaColumns.find((column) => column.id === id)?.title ||
+      id
+    );
+  }
+  const visibleColumns = visibleIds.map((id) => ({
+    id,
+    title: columnTitle(id),
+  }));
+  const availableColumns = schemaColumns.concat(
+    [...defaultIds, ...visibleIds]
+      .filter((id) => !schemaColumns.some((column) => column.id === id))
+      .filter((id, index, ids) => ids.indexOf(id) === index)
+      .map((id) => ({ id, title: columnTitle(id) }))
+  );
+  return { defaultIds, visibleColumns, availableColumns };
+}
+
+/**
+ * Build the query string for a report showing the given columns. Queries for the default columns
+ * have no `field=` parameters so that their URLs stay short.
+ * @param {string} query Current query string of the report
+ * @param {string[]} columnIds IDs of the columns to show
+ * @param {string[]} defaultIds IDs of the default columns
+ * @returns {string} Query string that selects the given columns
+ */
+export function queryWithColumns(
+  query: string,
+  columnIds: string[],
+  defaultIds: string[]
+): string {
+  const ids = [ID_COLUMN, ...columnIds.filter((id) => id !== ID_COLUMN)];
+  const isDefault =
+    ids.length === defaultIds.length &&
+    ids.every((id) => defaultIds.includes(id));
+  return new QueryString(query)
+    .setFields(isDefault ? [] : ids.slice(0, MAX_VISIBLE_COLUMNS))
+    .format();
+}
+
+/**
+ * Column and direction the server sorted a report by.
+ * @property {string} columnId ID of the sorted column; empty if the server didn't sort the report
+ * @property {string} direction Direction of the sort
+ */
+export type ReportSort = {
+  columnId: string;
+  direction: "asc" | "desc";
+};
+
+/**
+ * Get the column and direction the server sorted the search results by. The server can sort by
+ * several properties, but only the first one determines the order users see in the report.
+ * @param {SearchResultsSort} [sort] `sort` property of the search results
+ * @returns {ReportSort} Primary sorting of the search results
+ */
+export function reportSort(sort?: SearchResultsSort): ReportSort {
+  const [columnId, order] = Object.entries(sort || {})[0] || [];
+  return { columnId: columnId || "", direction: order?.order || "asc" };
+}
+
+/**
+ * Build the query string for a report sorted by the given column. `sort=column` sorts ascending
+ * and `sort=-column` sorts descending. Sorting changes which items appear on each page, so the
+ * report goes back to the first page.
+ * @param {string} query Current query string of the report
+ * @param {string} columnId ID of the column to sort by
+ * @param {string} direction Direction to sort the column in
+ * @returns {string} Query string that sorts the report by the column
+ */
+export function queryWithSort(
+  query: string,
+  columnId: string,
+  direction: "asc" | "desc"
+): string {
+  return new QueryString(query)
+    .setFrom(0)
+    .setSort({ field: columnId, direction })
+    .format();
+}
+
+/**
+ * Build the query string for the given page of a report. The query keeps its `limit=` parameter,
+ * and `from=` selects the first item of the page.
+ * @param {string} query Current query string of the report
+ * @param {number} pageIndex 0-based index of the page to show
+ * @param {number} limit Number of items per page
+ * @returns {string} Query string that shows the page
+ */
+export function queryWithPage(
+  query: string,
+  pageIndex: number,
+  limit: number
+): string {
+  return new QueryString(query).setFrom(pageIndex * limit).format();
+}
+
+/**
+ * Get the displayable value of a possibly embedded property of a search-result item. Follows
+ * arrays of embedded objects and joins multiple values with commas.
+ * @param {SearchResultsObject} item Search-result item to get the value from
+ * @param {string} columnId Property to get, with dots separating embedded properties
+ * @returns {string} Value of the property for display; empty if the item doesn't have it
+ */
+export function reportCellValue(
+  item: SearchResultsObject,
+  columnId: string
+): string {
+  const values = columnId
+    .split(".")
+    .reduce<unknown[]>(
+      (current, key) =>
+        current.flatMap((value) =>
+          value && typeof value === "object"
+            ? [(value as Record<string, unknown>)[key]].flat()
+            : []
+        ),
+      [item]
+    )
+    .filter((value) => value !== undefined && value !== null);
+  return values
+    .map((value) =>
+      typeof value === "object" ? JSON.stringify(value) : String(value)
+    )
+    .join(", ");
+}
@@ -0,0 +1,13 @@
+// node_modules
+import { headers } from "next/headers";
+// lib
+import { REQUEST_ID_HEADER } from "./request-log";
+
+/**
+ * Retrieve the ID the middleware assigned to the current request to the NextJS server, to pass to
+ * FetchRequest for requests to the data provider. Only call this from server code.
+ * @returns {string} ID of the current request; empty if the middleware didn't assign one
+ */
+export function getRequestId(): string {
+  return headers().get(REQUEST_ID_HEADER) || "";
+}
@@ -0,0 +1,60 @@
+/**
+ * Structured logging for requests to the NextJS server and the requests it makes to the data
+ * provider. Each log entry gets written as a single line of JSON so that log tools can parse and
+ * filter them. The middleware gives each request to the NextJS server an ID and passes it in the
+ * `X-Request-Id` header, and FetchRequest records it in the log entry of each data-provider request,
+ * so you can find every data-provider request behind a slow page load by its request ID.
+ * FetchRequest also passes it on to igvfd with requests that bypass the NextJS fetch cache.
+ *
+ * This module has to work in both the middleware's edge runtime and in browsers, so it can't use
+ * NodeJS modules.
+ */
+
+/**
+ * HTTP header that carries the request ID from the middleware to the page and on to igvfd.
+ */
+export const REQUEST_ID_HEADER = "X-Request-Id";
+
+/**
+ * Incoming request IDs, e.g. from nginx, have to match this to get reused so that nothing odd
+ * makes it into the logs.
+ */
+const REQUEST_ID_FORMAT = /^[\w.:-]{1,128}$/;
+
+/**
+ * Whether a data-provider response came from the NextJS fetch cache. `hit` and `miss` apply to
+ * cacheable requests; `bypass` applies to requests that skip the cache. `null` when we can't tell,
+ * e.g. for requests from the browser.
+ */
+export type CacheStatus = "hit" | "miss" | "bypass" | null;
+
+/**
+ * A single structured log entry. `event` identifies the kind of entry, and the other properties
+ * depend on the kind.
+ */
+export type LogEntry = {
+  event: string;
+  requestId?: string;
+  [key: string]: unknown;
+};
+
+/**
+ * Get an ID for a request to the NextJS server. Reuse the ID in the incoming request's
+ * `X-Request-Id` header if it has a reasonable one, e.g. from a proxy in front of the server, so
+ * that the proxy's logs link to ours. Otherwise generate a new one.
+ * @param {string | null} [incomingId] `X-Request-Id` header value of the incoming request
+ * @returns {string} ID for the request
+ */
+export function requestIdFor(incomingId?: string | null): string {
+  return incomingId && REQUEST_ID_FORMAT.test(incomingId)
+    ? incomingId
+    : crypto.randomUUID();
+}
+
+/**
+ * Write a structured log entry as a single line of JSON, with a timestamp.
+ * @param {LogEntry} entry Log entry to write
+ */
+export function logJson(entry: LogEntry): void {
+  console.log(JSON.stringify({ time: new Date().toISOString(), ...entry }));
+}
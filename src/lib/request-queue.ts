@@ -0,0 +1,116 @@
+/**
+ * A single queue of tasks from one caller, along with how many of them can run at once.
+ */
+type Lane = {
+  concurrency: number;
+  active: number;
+  pending: Array<() => void>;
+};
+
+/**
+ * Limits how many requests run at once, both overall and per caller, and shares the available
+ * slots fairly between callers. Each caller gets its own lane of tasks, and the queue takes turns
+ * starting tasks from each lane with tasks waiting, so a caller with hundreds of requests can't
+ * starve a caller with a few. Tasks within a lane start in the order they were queued.
+ *
+ * const lane = queue.createLane(4);
+ * const results = await Promise.all(paths.map((path) => lane(() => request.getObject(path))));
+ */
+export class RequestQueue {
+  private active = 0;
+  private lanes: Lane[] = [];
+  // Index of the lane to check first when starting the next task; wraps around to the first lane
+  private nextLane = 0;
+
+  /**
+   * @param {number} concurrency Maximum number of tasks to run at once across all lanes
+   */
+  constructor(private readonly concurrency: number) {}
+
+  /**
+   * Create a lane for one caller's tasks. The returned function queues a task in the lane and
+   * resolves to the task's result once it runs.
+   * @param {number} concurrency Maximum number of tasks in this lane to run at once
+   * @returns {function} Queues a task in the lane; resolves to the task's result
+   */
+  createLane(concurrency: number): <T>(task: () => Promise<T>) => Promise<T> {
+    const lane: Lane = {
+      concurrency: Math.max(concurrency, 1),
+      active: 0,
+      pending: [],
+    };
+
+    return <T>(task: () => Promise<T>): Promise<T> =>
+      new Promise<T>((resolve, reject) => {
+        lane.pending.push(() => {
+          // Run the task in a promise so that one that throws before returning its promise still
+          // settles and frees its slot
+          Promise.resolve()
+            .then(task)
+            .then(resolve, reject)
+            .finally(() => {
+              lane.active -= 1;
+              this.active -= 1;
+              if (lane.active === 0 && lane.pending.length === 0) {
+                this.removeLane(lane);
+              }
+              this.startTasks();
+            });
+        });
+        if (!this.lanes.includes(lane)) {
+          this.lanes.push(lane);
+        }
+        this.startTasks();
+      });
+  }
+
+  /**
+   * Start queued tasks while slots are available, taking turns between lanes.
+   */
+  private startTasks(): void {
+    while (this.active < this.concurrency) {
+      const lane = this.takeNextLane();
+      if (!lane) {
+        return;
+      }
+      const start = lane.pending.shift()!;
+      lane.active += 1;
+      this.active += 1;
+      start();
+    }
+  }
+
+  /**
+   * Find the next lane, in turn, that has a task waiting and room to start it.
+   * @returns {Lane|undefined} Lane to start a task from; undefined if no lane can start one
+   */
+  private takeNextLane(): Lane | undefined {
+    for (let i = 0; i < this.lanes.length; i += 1) {
+      const index = (this.nextLane + i) % this.lanes.length;
+      const lane = this.lanes[index];
+      if (lane.pending.length > 0 && lane.active < lane.concurrency) {
+        // Don't wrap around yet, so that a lane added before the next turn gets that turn
+        this.nextLane = index + 1;
+        return lane;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Remove a lane with no remaining tasks.
+   * @param {Lane} lane Lane to remove
+   */
+  private removeLane(lane: Lane): void {
+    const index = this.lanes.indexOf(lane);
+    if (index !== -1) {
+      this.lanes.splice(index, 1);
+      if (this.nextLane > index) {
+        this.nextLane -= 1;
+      }
+      if (this.nextLane >= this.lanes.length) {
+        this.nextLane = 0;
+      }
+    }
+  }
+}
@@ -30,6 +30,72 @@ export function fromOption<T>(x: T | null | undefined): Result<T, null> {
   return ok(x);
 }
 
+/**
+ * The `T` type of a `Result<T, E>`.
+ */
+export type OkType<R> = R extends { unwrap(): infer T } ? T : never;
+
+/**
+ * The `E` type of a `Result<T, E>`.
+ */
+export type ErrType<R> = R extends { unwrap_err(): infer E } ? E : never;
+
+/**
+ * Handlers for each variant of a `Result`, passed to `match`.
+ */
+export type ResultMatcher<T, E, U> = {
+  ok: (x: T) => U;
+  err: (x: E) => U;
+};
+
+/**
+ * Combine several `Result`s into one. If all the given results are `Ok`, returns an `Ok` wrapping
+ * a tuple of their underlying values in the same order. Otherwise returns the first `Err`. Useful
+ * for joining independent requests:
+ *
+ * ```
+ * const data = combine(
+ *   await Promise.all([request.getObject(path), request.getObject(labPath)])
+ * );
+ * if (data.isOk()) {
+ *   const [item, lab] = data.unwrap();
+ * }
+ * ```
+ * @param results `Result`s to combine
+ * @returns `Ok` of a tuple of all the underlying values, or the first `Err`
+ */
+export function combine<R extends readonly Result<unknown, unknown>[]>(
+  results: readonly [...R]
+): Result<{ -readonly [K in keyof R]: OkType<R[K]> }, ErrType<R[number]>> {
+  const firstErr = results.find((result) => result.isErr());
+  if (firstErr) {
+    return err(firstErr.unwrap_err() as ErrType<R[number]>);
+  }
+  return ok(
+    results.map((result) => result.unwrap()) as {
+      -readonly [K in keyof R]: OkType<R[K]>;
+    }
+  );
+}
+
+/**
+ * Run an async function that can throw or reject, and convert its outcome into a `Result`. Use
+ * this to bring promise-based APIs that signal failure by throwing into `Result` code.
+ * @param f Async function to run
+ * @param onError Converts whatever `f` threw into the error type
+ * @returns `Ok` of what `f` resolved to, or `Err` of the converted exception
+ */
+export async function tryAsync<T, E>(
+  f: () => Promise<T>,
+  onError: (e: unknown) => E
+): Promise<Result<T, E>> {
+  try {
+    return ok(await f());
+  } catch (e) {
+    return err(onError(e));
+  }
+}
+
 /**
  * The Ok variant of the `Result` interface. This represents the
  * succesful result of an operation that could fail. `Ok` wraps
@@ -87,6 +153,19 @@ export class Ok<T, E> implements Result<T, E> {
     return await f(this.wrapped);
   }
 
+  match<U>(matcher: ResultMatcher<T, E, U>): U {
+    return matcher.ok(this.wrapped);
+  }
+
+  tap(f: (x: T) => void): Result<T, E> {
+    f(this.wrapped);
+    return this;
+  }
+
+  tap_err(_f: (x: E) => void): Result<T, E> {
+    return this;
+  }
+
   optional(): T | null {
     return this.unwrap();
   }
@@ -168,6 +247,19 @@ export class Err<T, E> implements Result<T, E> {
     return this as unknown as Result<U, E>;
   }
 
+  match<U>(matcher: ResultMatcher<T, E, U>): U {
+    return matcher.err(this.wrapped);
+  }
+
+  tap(_f: (x: T) => void): Result<T, E> {
+    return this;
+  }
+
+  tap_err(f: (x: E) => void): Result<T, E> {
+    f(this.wrapped);
+    return this;
+  }
+
   optional(): T | null {
     return null;
   }
@@ -224,8 +316,14 @@ export class Err<T, E> implements Result<T, E> {
  * danger that unwrapping an error will throw, and vice versa for `unwrap_err`.
  * Use `unwrap_or` to provide a default Ok value if the underlying Result is an Err.
  *
+ * Use `match` to handle both variants at once, and `tap` and `tap_err` to
+ * run side effects like logging without breaking a chain. The module
+ * functions `combine` joins several Results into one that fails on the
+ * first `Err`, and `tryAsync` turns a promise that can reject into a Result.
+ *
  * Lastly `optional` will throw away the error as null and give you back
- * the Ok as `T | null`. `union` will convert the Result<T, E> into
+ * the Ok as `T | null`. Prefer converting to an `Option` (see option.ts)
+ * with `fromResult` over checking `optional` for null. `union` will convert the Result<T, E> into
  * the union type equivalent, `T | E`.
  *
  * Example: in attribution.ts we have to fetch the lab object from
@@ -330,6 +428,30 @@ export interface Result<T, E> {
    */
   and_then_async<U>(f: (x: T) => Promise<Result<U, E>>): Promise<Result<U, E>>;
 
+  /**
+   * Handle both variants at once, calling `matcher.ok` with the underlying `T` if this
+   * result is `Ok`, or `matcher.err` with the underlying `E` if this result is an `Err`.
+   * Both handlers must return the same type, so every case gets handled.
+   * @param matcher Handlers for the `Ok` and `Err` variants
+   * @returns Whatever the called handler returns
+   */
+  match<U>(matcher: ResultMatcher<T, E, U>): U;
+
+  /**
+   * Call `f` with the underlying `T` for its side effects, like logging, if this result is
+   * `Ok`. Returns this result unchanged either way so that chaining can continue.
+   * @param f function to call with the underlying `T`
+   * @returns this result
+   */
+  tap(f: (x: T) => void): Result<T, E>;
+
+  /**
+   * Like `tap` except `f` gets called with the underlying `E` if this result is an `Err`.
+   * @param f function to call with the underlying `E`
+   * @returns this result
+   */
+  tap_err(f: (x: E) => void): Result<T, E>;
+
   /**
    * Erases the `Result` type signature and returns the underlying `T`
    * if this result is `Ok` and just returns null if this is an `Err`,
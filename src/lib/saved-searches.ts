@@ -0,0 +1,323 @@
+/**
+ * Utility functions for saved searches and search history. Users can save a search or report
+ * under a name to rerun it later, and the site remembers the searches they recently ran. Both
+ * lists hold the path and query string of each search, so a report's `field=` columns get saved
+ * along with its filters. Signed-out users keep these lists in the browser's localStorage, while
+ * signed-in users keep them in igvfd so that they follow the user between browsers. The mock data
+ * provider stands in for the igvfd store during development.
+ */
+
+// lib
+import {
+  HttpStatusCode,
+  type ErrorObject,
+  type FetchRequest,
+} from "@/lib/fetch-request";
+import { matrixSearchQuery } from "@/lib/matrix";
+import { QueryString } from "@/lib/query-string";
+import { ok, type Result } from "@/lib/result";
+import { getSearchResults } from "@/lib/search";
+
+/**
+ * Pages that saved and recent searches can link to.
+ */
+export type SearchPath =
+  | "/search/"
+  | "/multireport/"
+  | "/matrix/"
+  | "/site-search/"
+  | "/id-search/";
+
+/**
+ * Search the user saved under a name.
+ * @property {string} id Unique ID of the saved search
+ * @property {string} name Name the user gave the search
+ * @property {SearchPath} path Page that displays the search results
+ * @property {string} query Query string of the search without the leading question mark
+ * @property {string} savedAt ISO 8601 date and time the user saved the search
+ * @property {string} visitedAt ISO 8601 date and time the user last ran the saved search
+ * @property {number} count Number of results the search had when the user last ran it
+ */
+export type SavedSearch = {
+  id: string;
+  name: string;
+  path: SearchPath;
+  query: string;
+  savedAt: string;
+  visitedAt: string;
+  count: number;
+};
+
+/**
+ * Search the user recently ran.
+ * @property {string} title Human-readable description of the search
+ * @property {SearchPath} path Page that displays the search results
+ * @property {string} query Query string of the search without the leading question mark
+ * @property {string} visitedAt ISO 8601 date and time the user ran the search
+ */
+export type RecentSearch = {
+  title: string;
+  path: SearchPath;
+  query: string;
+  visitedAt: string;
+};
+
+/**
+ * Paths of the igvfd stores of the signed-in user's saved and recent searches.
+ */
+export const SAVED_SEARCHES_PATH = "/saved-searches/";
+export const RECENT_SEARCHES_PATH = "/recent-searches/";
+
+/**
+ * localStorage keys of the signed-out user's saved and recent searches.
+ */
+export const SAVED_SEARCHES_STORAGE_KEY = "saved-searches";
+export const RECENT_SEARCHES_STORAGE_KEY = "recent-searches";
+
+/**
+ * Maximum number of recent searches to remember.
+ */
+export const MAX_RECENT_SEARCHES = 20;
+
+/**
+ * Maximum number of recent search terms to offer in the search modals.
+ */
+export const MAX_RECENT_TERMS = 5;
+
+/**
+ * Human-readable titles of the pages that saved and recent searches link to.
+ */
+const SEARCH_PATH_TITLES: Record<SearchPath, string> = {
+  "/search/": "List",
+  "/multireport/": "Report",
+  "/matrix/": "Matrix",
+  "/site-search/": "Site search",
+  "/id-search/": "ID search",
+};
+
+/**
+ * Get the human-readable title of the page a saved or recent search links to.
+ * @param {SearchPath} path Page that displays the search results
+ * @returns {string} Title of the page
+ */
+export function searchPathTitle(path: SearchPath): string {
+  return SEARCH_PATH_TITLES[path];
+}
+
+/**
+ * Build the URL of a saved or recent search.
+ * @param {SavedSearch | RecentSearch} search Search to build the URL of
+ * @returns {string} URL of the search relative to the site root
+ */
+export function searchUrl(search: SavedSearch | RecentSearch): string {
+  return `${search.path}?${search.query}`;
+}
+
+/**
+ * Determine whether two queries select the same results, regardless of their encoding or the page
+ * of results they show.
+ * @param {string} queryA First query string to compare
+ * @param {string} queryB Second query string to compare
+ * @returns {boolean} True if the queries select the same results
+ */
+export function isSameQuery(queryA: string, queryB: string): boolean {
+  return (
+    new QueryString(queryA).setFrom(0).format() ===
+    new QueryString(queryB).setFrom(0).format()
+  );
+}
+
+/**
+ * Find the saved search with the given path and query.
+ * @param {SavedSearch[]} savedSearches Saved searches to look in
+ * @param {SearchPath} path Page that displays the search results
+ * @param {string} query Query string of the search
+ * @returns {SavedSearch | undefined} Matching saved search, if any
+ */
+export function findSavedSearch(
+  savedSearches: SavedSearch[],
+  path: SearchPath,
+  query: string
+): SavedSearch | undefined {
+  return savedSearches.find(
+    (search) => search.path === path && isSameQuery(search.query, query)
+  );
+}
+
+/**
+ * Add a search to the saved searches, replacing any saved search with the same path and query so
+ * that saving a search again renames it.
+ * @param {SavedSearch[]} savedSearches Current saved searches
+ * @param {string} name Name the user gave the search
+ * @param {SearchPath} path Page that displays the search results
+ * @param {string} query Query string of the search
+ * @param {number} count Number of results the search has now
+ * @returns {SavedSearch[]} Saved searches including the new one, newest first
+ */
+export function withSavedSearch(
+  savedSearches: SavedSearch[],
+  name: string,
+  path: SearchPath,
+  query: string,
+  count: number
+): SavedSearch[] {
+  const now = new Date().toISOString();
+  const existing = findSavedSearch(savedSearches, path, query);
+  const search: SavedSearch = {
+    id: existing?.id || crypto.randomUUID(),
+    name,
+    path,
+    query: new QueryString(query).setFrom(0).format(),
+    savedAt: existing?.savedAt || now,
+    visitedAt: now,
+    count,
+  };
+  return [search, ...savedSearches.filter((saved) => saved !== existing)];
+}
+
+/**
+ * Remove a saved search.
+ * @param {SavedSearch[]} savedSearches Current saved searches
+ * @param {string} id ID of the saved search to remove
+ * @returns {SavedSearch[]} Saved searches without the removed one
+ */
+export function withoutSavedSearch(
+  savedSearches: SavedSearch[],
+  id: string
+): SavedSearch[] {
+  return savedSearches.filter((search) => search.id !== id);
+}
+
+/**
+ * Record that the user ran a saved search, so that the next visit counts new results from now.
+ * @param {SavedSearch[]} savedSearches Current saved searches
+ * @param {string} id ID of the saved search the user ran
+ * @param {number} count Number of results the search has now
+ * @returns {SavedSearch[]} Saved searches with the visited one updated
+ */
+export function withVisitedSearch(
+  savedSearches: SavedSearch[],
+  id: string,
+  count: number
+): SavedSearch[] {
+  const now = new Date().toISOString();
+  return savedSearches.map((search) =>
+    search.id === id ? { ...search, visitedAt: now, count } : search
+  );
+}
+
+/**
+ * Add a search to the front of the recent searches. Running a search again moves it to the front
+ * instead of repeating it, and only the newest `MAX_RECENT_SEARCHES` searches get remembered.
+ * @param {RecentSearch[]} recentSearches Current recent searches, newest first
+ * @param {string} title Human-readable description of the search
+ * @param {SearchPath} path Page that displays the search results
+ * @param {string} query Query string of the search
+ * @returns {RecentSearch[]} Recent searches with the new one first
+ */
+export function withRecentSearch(
+  recentSearches: RecentSearch[],
+  title: string,
+  path: SearchPath,
+  query: string
+): RecentSearch[] {
+  const search: RecentSearch = {
+    title,
+    path,
+    query: new QueryString(query).setFrom(0).format(),
+    visitedAt: new Date().toISOString(),
+  };
+  return [
+    search,
+    ...recentSearches.filter(
+      (recent) => recent.path !== path || !isSameQuery(recent.query, query)
+    ),
+  ].slice(0, MAX_RECENT_SEARCHES);
+}
+
+/**
+ * Get the terms of the recent searches of the site-search or ID-search page, to offer in their
+ * search modals.
+ * @param {RecentSearch[]} recentSearches Recent searches, newest first
+ * @param {SearchPath} path Site-search or ID-search page
+ * @param {string} key Query-string key holding the term on that page
+ * @returns {string[]} Most recent terms, newest first
+ */
+export function recentSearchTerms(
+  recentSearches: RecentSearch[],
+  path: SearchPath,
+  key: string
+): string[] {
+  return recentSearches
+    .filter((search) => search.path === path)
+    .map((search) => new QueryString(search.query).getKeyValues(key)[0])
+    .filter(Boolean)
+    .slice(0, MAX_RECENT_TERMS);
+}
+
+/**
+ * Get the query of the igvfd search whose results a page displays. Matrix queries hold keys that
+ * choose the axes and might have no `type=`, so they get the search the matrix page runs.
+ * @param {SearchPath} path Page that displays the search results
+ * @param {string} query Query string of the page
+ * @returns {string} Query string of the igvfd search
+ */
+export function searchQueryForPath(path: SearchPath, query: string): string {
+  return path === "/matrix/" ? matrixSearchQuery(query) : query;
+}
+
+/**
+ * Get the number of results a search has now, counted the same way as the page that displays it.
+ * @param {FetchRequest} request Request object to use for the search
+ * @param {SearchPath} path Page that displays the search results
+ * @param {string} query Query string of the search
+ * @returns {Promise<Result<number, ErrorObject>>} Number of matching results
+ */
+export async function getSearchCount(
+  request: FetchRequest,
+  path: SearchPath,
+  query: string
+): Promise<Result<number, ErrorObject>> {
+  const countQuery = new QueryString(searchQueryForPath(path, query))
+    .setFrom(0)
+    .setLimit(1);
+  const response = await getSearchResults(request, countQuery.format());
+  return response.map((results) => results.total);
+}
+
+/**
+ * Load the signed-in user's saved or recent searches from igvfd. Users who haven't stored any
+ * searches yet have none.
+ * @param {FetchRequest} request Request object with the user's session
+ * @param {string} path `SAVED_SEARCHES_PATH` or `RECENT_SEARCHES_PATH`
+ * @returns {Promise<Result<T[], ErrorObject>>} Stored searches
+ */
+export async function getStoredSearches<T>(
+  request: FetchRequest,
+  path: string
+): Promise<Result<T[], ErrorObject>> {
+  const response = await request.getObject(path, { noCache: true });
+  if (
+    response.isErr() &&
+    response.unwrap_err().code === HttpStatusCode.NOT_FOUND
+  ) {
+    return ok([]);
+  }
+  return response.map((store) => (store["@graph"] as T[]) || []);
+}
+
+/**
+ * Replace the signed-in user's saved or recent searches in igvfd.
+ * @param {FetchRequest} request Request object with the user's session
+ * @param {string} path `SAVED_SEARCHES_PATH` or `RECENT_SEARCHES_PATH`
+ * @param {T[]} searches Searches to store
+ * @returns {Promise<Result<void, ErrorObject>>} Error if igvfd couldn't store the searches
+ */
+export async function putStoredSearches<T>(
+  request: FetchRequest,
+  path: string,
+  searches: T[]
+): Promise<Result<void, ErrorObject>> {
+  const response = await request.putObject(path, { "@graph": searches });
+  return response.map(() => undefined);
+}
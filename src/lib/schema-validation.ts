@@ -0,0 +1,247 @@
+// lib
+import { HttpStatusCode, type ErrorObject } from "./fetch-request";
+import { err, ok, type Result } from "./result";
+// root
+import type {
+  DataProviderObject,
+  Profiles,
+  ProfilesGeneric,
+  Schema,
+  SchemaProperty,
+} from "@/globals.d";
+
+/**
+ * Single problem found while validating an object against its schema.
+ */
+export type ValidationIssue = {
+  // Property path of the problem, e.g. `biosamples_modified[2]`
+  path: string;
+  // Description of the problem
+  message: string;
+};
+
+/**
+ * Error returned when a data-provider object doesn't match its schema. `issues` lists each
+ * problem found so that logs show every change to the schema at once.
+ */
+export type ValidationError = ErrorObject & {
+  issues: ValidationIssue[];
+};
+
+/**
+ * Options for validating an object against its schema.
+ */
+export type ValidationOptions = {
+  // Properties the caller relies on beyond those the schema requires
+  required?: string[];
+};
+
+/**
+ * Maximum depth of nested `properties` and `items` to validate, to guard against pathological
+ * schemas.
+ */
+const MAX_VALIDATION_DEPTH = 10;
+
+/**
+ * Describe the JSON type of a value the same way JSON schemas do.
+ * @param {unknown} value Value to get the type of
+ * @returns {string} JSON schema type of the value
+ */
+function jsonType(value: unknown): string {
+  if (value === null) {
+    return "null";
+  }
+  if (Array.isArray(value)) {
+    return "array";
+  }
+  if (typeof value === "number") {
+    return Number.isInteger(value) ? "integer" : "number";
+  }
+  return typeof value;
+}
+
+/**
+ * Determine whether a value has one of the types a schema property allows. Properties that link to
+ * other objects can hold either the linked object's `@id` or the embedded object itself, depending
+ * on the frame of the response.
+ * @param {unknown} value Value of the property
+ * @param {SchemaProperty} property Schema of the property
+ * @returns {boolean} True if the value has an allowed type
+ */
+function hasSchemaType(value: unknown, property: SchemaProperty): boolean {
+  const actualType = jsonType(value);
+  const allowedTypes = ([] as string[]).concat(property.type);
+  if (property.linkTo && actualType === "object") {
+    return true;
+  }
+  return allowedTypes.some(
+    (allowedType) =>
+      allowedType === actualType ||
+      (allowedType === "number" && actualType === "integer")
+  );
+}
+
+/**
+ * Validate a single property value against its schema, recursing into arrays and objects. Each
+ * problem found gets added to `issues`.
+ * @param {unknown} value Value of the property
+ * @param {SchemaProperty} property Schema of the property
+ * @param {string} path Property path of the value, for the issue messages
+ * @param {ValidationIssue[]} issues Accumulates the problems found
+ * @param {number} depth Nesting depth of the value within the object
+ */
+function validateValue(
+  value: unknown,
+  property: SchemaProperty,
+  path: string,
+  issues: ValidationIssue[],
+  depth: number
+): void {
+  // Properties without a simple `type` (e.g. `anyOf` properties) can't get checked here.
+  if (!property.type || depth > MAX_VALIDATION_DEPTH) {
+    return;
+  }
+
+  if (!hasSchemaType(value, property)) {
+    issues.push({
+      path,
+      message: `expected ${([] as string[]).concat(property.type).join(" or ")} but got ${jsonType(value)}`,
+    });
+    return;
+  }
+
+  if (property.enum && typeof value === "string") {
+    if (!property.enum.includes(value)) {
+      issues.push({ path, message: `unexpected value "${value}"` });
+    }
+  } else if (Array.isArray(value) && property.items) {
+    const items = property.items;
+    value.forEach((item, index) => {
+      validateValue(item, items, `${path}[${index}]`, issues, depth + 1);
+    });
+  } else if (jsonType(value) === "object" && property.properties) {
+    validateProperties(
+      value as DataProviderObject,
+      property.properties,
+      path,
+      issues,
+      depth + 1
+    );
+  }
+}
+
+/**
+ * Validate the properties of an object that have schemas. Properties without schemas, like `@id`,
+ * get ignored, as do properties the object doesn't have.
+ * @param {DataProviderObject} object Object to validate
+ * @param {SchemaProperties} properties `properties` of the object's schema
+ * @param {string} parentPath Property path of the object; empty for top-level objects
+ * @param {ValidationIssue[]} issues Accumulates the problems found
+ * @param {number} depth Nesting depth of the object
+ */
+function validateProperties(
+  object: DataProviderObject,
+  properties: Schema["properties"],
+  parentPath: string,
+  issues: ValidationIssue[],
+  depth: number
+): void {
+  Object.keys(object).forEach((propertyName) => {
+    const property = properties[propertyName];
+    if (property) {
+      validateValue(
+        object[propertyName],
+        property,
+        parentPath ? `${parentPath}.${propertyName}` : propertyName,
+        issues,
+        depth
+      );
+    }
+  });
+}
+
+/**
+ * Validate an object from the data provider against the given schema. The object has to have all
+ * the properties the schema requires as well as the ones in `options.required`, and each property
+ * with a schema has to match its schema's type, `enum`, and nested `items` and `properties`. This
+ * lets pages trust the shape of the objects they render instead of crashing on a missing or
+ * changed property.
+ * @param {DataProviderObject} object Object to validate
+ * @param {Schema} schema Schema of the object's type
+ * @param {ValidationOptions} [options] Extra validation options
+ * @returns {Result<T, ValidationError>} The object as type `T`, or a validation error
+ */
+export function validateObject<T extends DataProviderObject>(
+  object: DataProviderObject,
+  schema: Schema,
+  options: ValidationOptions = {}
+): Result<T, ValidationError> {
+  const issues: ValidationIssue[] = [];
+
+  const required = new Set([
+    ...(schema.required || []),
+    ...(options.required || []),
+  ]);
+  required.forEach((propertyName) => {
+    if (object[propertyName] === undefined) {
+      issues.push({ path: propertyName, message: "missing" });
+    }
+  });
+  validateProperties(object, schema.properties || {}, "", issues, 0);
+
+  if (issues.length > 0) {
+    const id = (object["@id"] as string) || schema.title;
+    return err(validationError(`${id} doesn't match its schema`, issues));
+  }
+  return ok(object as T);
+}
+
+/**
+ * Validate an object from the data provider against its schema within the /profiles object. The
+ * object's first `@type` selects its schema.
+ * @param {DataProviderObject} object Object to validate
+ * @param {Profiles} profiles Schemas for all object types from `getProfiles()`
+ * @param {ValidationOptions} [options] Extra validation options
+ * @returns {Result<T, ValidationError>} The object as type `T`, or a validation error
+ */
+export function validateObjectType<T extends DataProviderObject>(
+  object: DataProviderObject,
+  profiles: Profiles,
+  options: ValidationOptions = {}
+): Result<T, ValidationError> {
+  const objectType = (object["@type"] as string[] | undefined)?.[0];
+  const schema = objectType ? (profiles as ProfilesGeneric)[objectType] : null;
+  if (!schema) {
+    return err(
+      validationError(`No schema for ${objectType || "untyped"} objects`, [
+        {
+          path: "@type",
+          message: `no schema for ${objectType || "missing @type"}`,
+        },
+      ])
+    );
+  }
+  return validateObject<T>(object, schema, options);
+}
+
+/**
+ * Build the error object for a failed validation.
+ * @param {string} title Short description of the failure
+ * @param {ValidationIssue[]} issues Problems found during validation
+ * @returns {ValidationError} Error object describing the failed validation
+ */
+function validationError(
+  title: string,
+  issues: ValidationIssue[]
+): ValidationError {
+  return {
+    isError: true,
+    "@type": ["ValidationError", "Error"],
+    code: HttpStatusCode.BAD_GATEWAY,
+    status: "error",
+    title,
+    description: title,
+    detail: issues.map((issue) => `${issue.path}: ${issue.message}`).join("; "),
+    issues,
+  };
+}
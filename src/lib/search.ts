@@ -0,0 +1,152 @@
+/**
+ * Utility functions for the search-results pages.
+ */
+
+// lib
+import { getCollectionTitles } from "@/lib/collection-titles";
+import { BACKEND_URL } from "@/lib/constants";
+import {
+  FetchRequest,
+  HttpStatusCode,
+  type ErrorObject,
+} from "@/lib/fetch-request";
+import { QueryString } from "@/lib/query-string";
+import { ok, type Result } from "@/lib/result";
+// root
+import type {
+  CollectionTitles,
+  NextJsServerQuery,
+  SearchResults,
+} from "@/globals.d";
+
+/**
+ * Number of search results igvfd returns per page when the query has no `limit`.
+ */
+export const DEFAULT_SEARCH_LIMIT = 25;
+
+/**
+ * Title for search pages with no `type=` in the query, or with types we have no title for.
+ */
+const DEFAULT_SEARCH_TITLE = "Search Results";
+
+/**
+ * Convert the `searchParams` NextJS passes to pages back into a query string for data-provider
+ * requests. Keys keep their negation and embedded-property characters, e.g. `status!` and
+ * `lab.title`, and repeated keys keep all their values.
+ * @param {NextJsServerQuery} searchParams Query-string parameters NextJS passed to the page
+ * @returns {string} Query string without the leading question mark
+ */
+export function searchParamsToQuery(searchParams: NextJsServerQuery): string {
+  const query = new QueryString();
+  Object.entries(searchParams).forEach(([key, value]) => {
+    const values = Array.isArray(value) ? value : [value ?? ""];
+    const isNegative = key.endsWith("!");
+    const field = isNegative ? key.slice(0, -1) : key;
+    values.forEach((element) => query.addKeyValue(field, element, isNegative));
+  });
+  return query.format();
+}
+
+/**
+ * Get the object types a search query asks for with its `type=` parameters.
+ * @param {NextJsServerQuery} searchParams Query-string parameters NextJS passed to the page
+ * @returns {string[]} `@type`s in the query; empty if the query has none
+ */
+export function searchTypes(searchParams: NextJsServerQuery): string[] {
+  const { type } = searchParams;
+  if (!type) {
+    return [];
+  }
+  return Array.isArray(type) ? type : [type];
+}
+
+/**
+ * Build the human-readable title for a search of the given object types, using the titles from
+ * /collection-titles.
+ * @param {string[]} types `@type`s being searched
+ * @param {CollectionTitles | null} collectionTitles Maps `@type`s to human-readable titles
+ * @returns {string} Title for the search page
+ */
+export function searchTitle(
+  types: string[],
+  collectionTitles: CollectionTitles | null
+): string {
+  const titles = types
+    .map((type) => collectionTitles?.[type])
+    .filter((title): title is string => Boolean(title));
+  return titles.length > 0 ? titles.join(", ") : DEFAULT_SEARCH_TITLE;
+}
+
+/**
+ * Get the number of search results per page from the query. Queries with `limit=all` have all
+ * results on one page.
+ * @param {NextJsServerQuery} searchParams Query-string parameters NextJS passed to the page
+ * @param {number} total Total number of search results
+ * @returns {number} Number of search results per page
+ */
+export function searchLimit(
+  searchParams: NextJsServerQuery,
+  total: number
+): number {
+  if (searchParams.limit === "all") {
+    return total;
+  }
+  return Number(searchParams.limit) || DEFAULT_SEARCH_LIMIT;
+}
+
+/**
+ * Load the /collection-titles mapping that search pages use to title themselves and their items.
+ * Only call this on the server.
+ * @returns {Promise<CollectionTitles | null>} Collection titles; null if unavailable
+ */
+export async function getSearchCollectionTitles(): Promise<CollectionTitles | null> {
+  return (await getCollectionTitles(BACKEND_URL)) as CollectionTitles | null;
+}
+
+/**
+ * Build a search-results object with no results. igvfd responds to searches that match nothing
+ * with a 404, and search pages treat these the same as successful searches with no results. The
+ * body of igvfd's 404 still holds the facets and filters of the search, which the error object
+ * includes, so that users can remove the filter that left nothing to display.
+ * @param {string} query Query string of the search that matched nothing
+ * @param {ErrorObject} error Error object of the 404 response, including igvfd's response body
+ * @returns {SearchResults} Search results with no items
+ */
+function emptySearchResults(query: string, error: ErrorObject): SearchResults {
+  const body = error as ErrorObject & Partial<SearchResults>;
+  return {
+    "@context": "/terms/",
+    "@graph": [],
+    "@id": `/search/?${query}`,
+    "@type": ["Search"],
+    clear_filters: body.clear_filters || "/search/",
+    columns: body.columns || {},
+    ...(body.facets ? { facets: body.facets } : {}),
+    ...(body.facet_groups ? { facet_groups: body.facet_groups } : {}),
+    ...(body.filters ? { filters: body.filters } : {}),
+    notification: "No results found",
+    title: "Search",
+    total: 0,
+  };
+}
+
+/**
+ * Request search results from the data provider. Searches that match nothing resolve to search
+ * results with no items instead of an error.
+ * @param {FetchRequest} request Request object to use for the search
+ * @param {string} query Query string for the search, without the leading question mark
+ * @returns {Promise<Result<SearchResults, ErrorObject>>} Search results, or the request error
+ */
+export async function getSearchResults(
+  request: FetchRequest,
+  query: string
+): Promise<Result<SearchResults, ErrorObject>> {
+  const response = await request.getObject(`/search/?${query}`);
+  if (
+    response.isErr() &&
+    response.unwrap_err().code === HttpStatusCode.NOT_FOUND
+  ) {
+    return ok(emptySearchResults(query, response.unwrap_err()));
+  }
+  return response.map((results) => results as unknown as SearchResults);
+}
@@ -0,0 +1,115 @@
+/**
+ * Utility functions for the site-search page, which searches every object type for a term and
+ * groups the matches by type, so that users can find data without knowing which type holds it.
+ * A single search of all types counts the matches of each type, and the top matches of a type
+ * only get requested once the user expands its group.
+ */
+
+// lib
+import type { ErrorObject, FetchRequest } from "@/lib/fetch-request";
+import { QueryString } from "@/lib/query-string";
+import type { Result } from "@/lib/result";
+import { getSearchResults } from "@/lib/search";
+// root
+import type {
+  CollectionTitles,
+  Profiles,
+  SearchResults,
+  SearchResultsObject,
+} from "@/globals.d";
+
+/**
+ * Number of top matches to show for each type.
+ */
+export const SITE_SEARCH_TOP_MATCHES = 5;
+
+/**
+ * Matches of a site search within one type.
+ * @property {string} type `@type` of the matching items
+ * @property {string} title Human-readable title of the type
+ * @property {number} count Number of matching items of this type
+ */
+export type SiteSearchGroup = {
+  type: string;
+  title: string;
+  count: number;
+};
+
+/**
+ * Build the query string to search for a term, optionally within a single type. The site-search
+ * page links to /search and /multireport with these queries.
+ * @param {string} term Term to search for
+ * @param {string} [type] `@type` to search within; all types if not given
+ * @returns {string} Query string without the leading question mark
+ */
+export function siteSearchQuery(term: string, type = ""): string {
+  const query = new QueryString();
+  if (type) {
+    query.addKeyValue("type", type);
+  }
+  return query.addKeyValue("query", term).format();
+}
+
+/**
+ * Get the number of matching items of each concrete type from the `type` facet of a search of all
+ * types. The facet also counts abstract types like `Item` and `Biosample`, which would repeat the
+ * matches of their concrete types, so only types with their own schemas get included.
+ * @param {SearchResults} results Search results of all types for the term
+ * @param {Profiles | null} profiles Schemas of all types from /profiles
+ * @returns {Array<{type: string, count: number}>} Concrete types and their counts, most first
+ */
+function concreteTypeCounts(
+  results: SearchResults,
+  profiles: Profiles | null
+): Array<{ type: string; count: number }> {
+  const typeFacet = results.facets?.find((facet) => facet.field === "type");
+  return (typeFacet?.terms || [])
+    .map((term) => ({ type: String(term.key), count: term.doc_count }))
+    .filter(({ type }) => (profiles ? type in profiles : type !== "Item"))
+    .sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Search every object type for a term, and group the matches by type. The `type` facet of the
+ * search gives the number of matches of each type. Searches that match nothing resolve to no
+ * groups.
+ * @param {FetchRequest} request Request object to use for the search
+ * @param {string} term Term to search for
+ * @param {CollectionTitles | null} collectionTitles Maps `@type`s to human-readable titles
+ * @param {Profiles | null} profiles Schemas of all types from /profiles
+ * @returns {Promise<Result<SiteSearchGroup[], ErrorObject>>} Matches grouped by type, most first
+ */
+export async function getSiteSearchGroups(
+  request: FetchRequest,
+  term: string,
+  collectionTitles: CollectionTitles | null,
+  profiles: Profiles | null
+): Promise<Result<SiteSearchGroup[], ErrorObject>> {
+  const response = await getSearchResults(request, siteSearchQuery(term));
+  return response.map((results) =>
+    concreteTypeCounts(results, profiles).map(({ type, count }) => ({
+      type,
+      title: collectionTitles?.[type] || type,
+      count,
+    }))
+  );
+}
+
+/**
+ * Get the top matches of a site search within one type.
+ * @param {FetchRequest} request Request object to use for the search
+ * @param {string} term Term to search for
+ * @param {string} type `@type` to search within
+ * @returns {Promise<Result<SearchResultsObject[], ErrorObject>>} Top matching items of the type
+ */
+export async function getSiteSearchTopMatches(
+  request: FetchRequest,
+  term: string,
+  type: string
+): Promise<Result<SearchResultsObject[], ErrorObject>> {
+  const query = new QueryString(siteSearchQuery(term, type)).setLimit(
+    SITE_SEARCH_TOP_MATCHES
+  );
+  const response = await getSearchResults(request, query.format());
+  return response.map((results) => results["@graph"] || []);
+}